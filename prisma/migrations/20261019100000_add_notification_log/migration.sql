@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "notification_logs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "slot_date" TEXT NOT NULL,
+    "slot_time" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "telegram_message_id" BIGINT,
+    "error" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "notification_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_logs_user_id_type_slot_date_slot_time_key" ON "notification_logs"("user_id", "type", "slot_date", "slot_time");
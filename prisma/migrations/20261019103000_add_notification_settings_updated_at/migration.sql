@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "notification_settings_updated_at" DATETIME;
+
+-- Keep current catch-up behaviour for existing users
+UPDATE "users" SET "notification_settings_updated_at" = "updated_at";
@@ -0,0 +1,6 @@
+-- CreateTable
+CREATE TABLE "sessions" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "value" TEXT NOT NULL,
+    "updated_at" DATETIME NOT NULL
+);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "areas" ADD COLUMN "unit" TEXT;
+ALTER TABLE "areas" ADD COLUMN "target" REAL;
+
+-- AlterTable
+ALTER TABLE "progress_entries" ADD COLUMN "value" REAL;
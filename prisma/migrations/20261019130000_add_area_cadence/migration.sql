@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "areas" ADD COLUMN "cadence" TEXT NOT NULL DEFAULT 'daily';
+ALTER TABLE "areas" ADD COLUMN "times_per_week" INTEGER;
+ALTER TABLE "areas" ADD COLUMN "weekdays" TEXT;
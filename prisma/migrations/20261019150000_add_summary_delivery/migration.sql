@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "summary_delivery" TEXT NOT NULL DEFAULT 'inline';
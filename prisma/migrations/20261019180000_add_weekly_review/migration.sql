@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "weekly_review_day" INTEGER NOT NULL DEFAULT 7;
+ALTER TABLE "users" ADD COLUMN "weekly_review_time" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "retrospective_reports" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "rest_days" TEXT;
+
+-- AlterTable
+ALTER TABLE "progress_entries" ADD COLUMN "frozen" BOOLEAN NOT NULL DEFAULT false;
@@ -1,8 +1,17 @@
 import { Bot, session } from 'grammy';
 import { conversations, createConversation } from '@grammyjs/conversations';
 import { env } from '../config/env.js';
+import { createPrismaStorage } from '../db/session-storage.js';
 import type { BotContext, SessionData } from '../types/index.js';
 import { i18n, languageMiddleware } from './middleware/i18n.js';
+import {
+  loggingMiddleware,
+  conversationLoggingMiddleware,
+} from './middleware/logging.js';
+import {
+  updateMetricsMiddleware,
+  conversationMetricsMiddleware,
+} from './middleware/metrics.js';
 
 // Import conversations
 import { languageSelectionConversation } from './conversations/language-selection.js';
@@ -11,20 +20,64 @@ import { addAreaConversation } from './conversations/add-area.js';
 import { editAreaConversation } from './conversations/edit-area.js';
 import { logProgressConversation } from './conversations/log-progress.js';
 import { progressDateSelectionConversation } from './conversations/progress-date-selection.js';
+import { dayHistoryConversation } from './conversations/day-history.js';
+import { importDataConversation } from './conversations/import-data.js';
+import { summaryRangeConversation } from './conversations/summary-range.js';
+import { addTemplateConversation } from './conversations/add-template.js';
 
 // Import handlers
-import { handleStart, handleMainMenuActions } from './handlers/start.handler.js';
-import { handleAreasCommand, handleEditAreas, handleAreaCallbacks } from './handlers/areas.handler.js';
-import { handleSettingsCommand, handleSettingsCallbacks } from './handlers/settings.handler.js';
-import { handleSummaryCommand, handleSummaryCallbacks } from './handlers/summary.handler.js';
+import {
+  handleStart,
+  handleMainMenuActions,
+} from './handlers/start.handler.js';
+import {
+  handleAreasCommand,
+  handleEditAreas,
+  handleAreaCallbacks,
+} from './handlers/areas.handler.js';
+import {
+  handleSettingsCommand,
+  handleSettingsCallbacks,
+} from './handlers/settings.handler.js';
+import {
+  handleSummaryCommand,
+  handleSummaryCallbacks,
+  handleTemplateCallbacks,
+  handleWeeklyReviewCallbacks,
+} from './handlers/summary.handler.js';
+import {
+  handleExportCommand,
+  handleExportCallbacks,
+} from './handlers/export.handler.js';
+import {
+  handleReportCommand,
+  handleReportCallbacks,
+} from './handlers/report.handler.js';
+import {
+  handleStreakCallbacks,
+  handleFreezeCommand,
+  handleFreezeCallbacks,
+} from './handlers/streak.handler.js';
+import {
+  handleStatsCommand,
+  handleStatsCallbacks,
+  handleHeatmapCommand,
+  handleHeatmapCallbacks,
+} from './handlers/stats.handler.js';
 
 // Create bot instance
 export const bot = new Bot<BotContext>(env.TELEGRAM_BOT_TOKEN);
 
-// Session middleware
+// Logging and metrics middleware (first, so every update is covered)
+bot.use(loggingMiddleware());
+bot.use(updateMetricsMiddleware());
+
+// Session middleware (persisted in the database)
 bot.use(
   session({
     initial: (): SessionData => ({}),
+    prefix: 'session:',
+    storage: createPrismaStorage(),
   })
 );
 
@@ -32,8 +85,18 @@ bot.use(
 bot.use(i18n);
 bot.use(languageMiddleware());
 
-// Conversations middleware
-bot.use(conversations());
+// Conversations middleware (persisted, so in-progress flows survive restarts)
+bot.use(
+  conversations({
+    storage: {
+      type: 'key',
+      prefix: 'conversation:',
+      adapter: createPrismaStorage(),
+    },
+  })
+);
+bot.use(conversationLoggingMiddleware());
+bot.use(conversationMetricsMiddleware());
 
 // Register conversations
 bot.use(createConversation(languageSelectionConversation, 'languageSelection'));
@@ -41,21 +104,20 @@ bot.use(createConversation(onboardingConversation, 'onboarding'));
 bot.use(createConversation(addAreaConversation, 'addArea'));
 bot.use(createConversation(editAreaConversation, 'editArea'));
 bot.use(createConversation(logProgressConversation, 'logProgress'));
-bot.use(createConversation(progressDateSelectionConversation, 'progressDateSelection'));
+bot.use(
+  createConversation(progressDateSelectionConversation, 'progressDateSelection')
+);
+bot.use(createConversation(dayHistoryConversation, 'dayHistory'));
+bot.use(createConversation(importDataConversation, 'importData'));
+bot.use(createConversation(summaryRangeConversation, 'summaryRange'));
+bot.use(createConversation(addTemplateConversation, 'addTemplate'));
 
 // Error handler
 bot.catch((err) => {
   const ctx = err.ctx;
-  const e = err.error;
 
-  console.error(`Error while handling update ${ctx.update.update_id}:`);
-
-  if (e instanceof Error) {
-    console.error('Error message:', e.message);
-    console.error('Stack trace:', e.stack);
-  } else {
-    console.error('Unknown error:', e);
-  }
+  // pino serializes the error (message and stack) under "err"
+  ctx.logger.error({ err: err.error }, 'Error while handling update');
 });
 
 // Command handlers
@@ -63,11 +125,24 @@ bot.command('start', handleStart);
 bot.command('areas', handleAreasCommand);
 bot.command('settings', handleSettingsCommand);
 bot.command('summary', handleSummaryCommand);
+bot.command('export', handleExportCommand);
+bot.command('report', handleReportCommand);
+bot.command('stats', handleStatsCommand);
+bot.command('heatmap', handleHeatmapCommand);
+bot.command('freeze', handleFreezeCommand);
 
 bot.command('progress', async (ctx) => {
   await ctx.conversation.enter('progressDateSelection');
 });
 
+bot.command('history', async (ctx) => {
+  await ctx.conversation.enter('dayHistory');
+});
+
+bot.command('import', async (ctx) => {
+  await ctx.conversation.enter('importData');
+});
+
 bot.command('help', async (ctx) => {
   const t = (key: string) => ctx.t(key);
 
@@ -78,7 +153,14 @@ bot.command('help', async (ctx) => {
     t('help-start'),
     t('help-areas'),
     t('help-progress'),
+    t('help-history'),
     t('help-summary'),
+    t('help-report'),
+    t('help-stats'),
+    t('help-heatmap'),
+    t('help-freeze'),
+    t('help-export'),
+    t('help-import'),
     t('help-settings'),
     t('help-help'),
     '',
@@ -92,8 +174,27 @@ bot.command('help', async (ctx) => {
 // Callback query handlers - order matters!
 // More specific handlers first, then generic ones
 bot.callbackQuery(/^area:/, handleAreaCallbacks);
-bot.callbackQuery(/^settings:|^language:|^timezone:|^time:|^digest:|^reset:/, handleSettingsCallbacks);
+bot.callbackQuery(
+  /^settings:|^language:|^timezone:|^time:|^digest:|^streak_warning:|^rest_days:|^weekly_review:|^reports:|^summary_delivery:|^reset:/,
+  handleSettingsCallbacks
+);
+bot.callbackQuery(/^summary:custom$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  await ctx.conversation.enter('summaryRange');
+});
 bot.callbackQuery(/^summary:/, handleSummaryCallbacks);
+bot.callbackQuery(/^review:/, handleWeeklyReviewCallbacks);
+bot.callbackQuery(/^template:upload$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  await ctx.conversation.enter('addTemplate');
+});
+bot.callbackQuery(/^template:/, handleTemplateCallbacks);
+bot.callbackQuery(/^export:/, handleExportCallbacks);
+bot.callbackQuery(/^report:/, handleReportCallbacks);
+bot.callbackQuery(/^streak:/, handleStreakCallbacks);
+bot.callbackQuery(/^freeze:/, handleFreezeCallbacks);
+bot.callbackQuery(/^stats:/, handleStatsCallbacks);
+bot.callbackQuery(/^heatmap:/, handleHeatmapCallbacks);
 bot.callbackQuery(/^action:edit_areas$/, handleEditAreas);
 bot.callbackQuery(/^action:settings$/, handleSettingsCallbacks);
 bot.callbackQuery(/^action:summary$/, async (ctx) => {
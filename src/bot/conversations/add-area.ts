@@ -1,11 +1,20 @@
-import type { BotContext, BotConversation, Language } from '../../types/index.js';
+import type {
+  BotContext,
+  BotConversation,
+  Language,
+} from '../../types/index.js';
 import * as userService from '../../services/user.service.js';
 import * as areasService from '../../services/areas.service.js';
-import { getUserStatistics, getLastProgressDate } from '../../services/statistics.service.js';
+import {
+  getUserStatistics,
+  getLastProgressDate,
+} from '../../services/statistics.service.js';
 import {
   validateAreaTitle,
   validateAreaBody,
   validateEmoji,
+  validateAreaUnit,
+  validateMetricValue,
 } from '../utils/validators.js';
 import { formatPinnedMessage } from '../utils/message-formatter.js';
 import { createMainMenuKeyboard } from '../keyboards/main-menu.keyboard.js';
@@ -20,7 +29,8 @@ type TranslateFn = (key: string, params?: Record<string, any>) => string;
  * 1. Ask for title
  * 2. Ask for description (optional)
  * 3. Ask for emoji (optional)
- * 4. Save and update pinned message
+ * 4. Ask for unit and daily target (optional, for numeric areas)
+ * 5. Save and update pinned message
  */
 export async function addAreaConversation(
   conversation: BotConversation,
@@ -29,7 +39,9 @@ export async function addAreaConversation(
   const telegramId = BigInt(ctx.from?.id ?? 0);
 
   // Get user
-  const user = await conversation.external(() => userService.getUserByTelegramId(telegramId));
+  const user = await conversation.external(() =>
+    userService.getUserByTelegramId(telegramId)
+  );
 
   if (!user) {
     await ctx.reply(i18n.t('en', 'error-please-start'));
@@ -40,17 +52,16 @@ export async function addAreaConversation(
   const t: TranslateFn = (key, params) => i18n.t(language, key, params);
 
   // Check if user can add more areas
-  const canAdd = await conversation.external(() => areasService.canAddArea(user.id));
+  const canAdd = await conversation.external(() =>
+    areasService.canAddArea(user.id)
+  );
 
   if (!canAdd) {
-    await ctx.reply(
-      `❌ ${t('error-max-areas')}`,
-      {
-        reply_markup: new InlineKeyboard()
-          .text(t('btn-edit-areas'), 'action:edit_areas')
-          .text(t('btn-back'), 'action:back'),
-      }
-    );
+    await ctx.reply(`❌ ${t('error-max-areas')}`, {
+      reply_markup: new InlineKeyboard()
+        .text(t('btn-edit-areas'), 'action:edit_areas')
+        .text(t('btn-back'), 'action:back'),
+    });
     return;
   }
 
@@ -64,7 +75,10 @@ export async function addAreaConversation(
   let title: string | null = null;
 
   while (!title) {
-    const response = await conversation.waitFor([':text', 'callback_query:data']);
+    const response = await conversation.waitFor([
+      ':text',
+      'callback_query:data',
+    ]);
 
     if (response.callbackQuery?.data === 'action:cancel') {
       await response.answerCallbackQuery(t('msg-cancelled'));
@@ -95,7 +109,10 @@ export async function addAreaConversation(
   let bodyDone = false;
 
   while (!bodyDone) {
-    const response = await conversation.waitFor([':text', 'callback_query:data']);
+    const response = await conversation.waitFor([
+      ':text',
+      'callback_query:data',
+    ]);
 
     if (response.callbackQuery?.data === 'action:cancel') {
       await response.answerCallbackQuery(t('msg-cancelled'));
@@ -130,7 +147,10 @@ export async function addAreaConversation(
   let emojiDone = false;
 
   while (!emojiDone) {
-    const response = await conversation.waitFor([':text', 'callback_query:data']);
+    const response = await conversation.waitFor([
+      ':text',
+      'callback_query:data',
+    ]);
 
     if (response.callbackQuery?.data === 'action:cancel') {
       await response.answerCallbackQuery(t('msg-cancelled'));
@@ -152,20 +172,111 @@ export async function addAreaConversation(
     }
   }
 
-  // Step 4: Create the area
+  // Step 4: Ask for unit (optional) - areas with a unit log numbers
+  await ctx.reply(t('add-area-unit-prompt'), {
+    parse_mode: 'Markdown',
+    reply_markup: new InlineKeyboard()
+      .text(t('btn-skip-no-unit'), 'input:skip_unit')
+      .row()
+      .text(t('btn-cancel'), 'action:cancel'),
+  });
+
+  let unit: string | undefined;
+  let unitDone = false;
+
+  while (!unitDone) {
+    const response = await conversation.waitFor([
+      ':text',
+      'callback_query:data',
+    ]);
+
+    if (response.callbackQuery?.data === 'action:cancel') {
+      await response.answerCallbackQuery(t('msg-cancelled'));
+      await ctx.reply(`❌ ${t('msg-cancelled')}`);
+      return;
+    }
+
+    if (response.callbackQuery?.data === 'input:skip_unit') {
+      await response.answerCallbackQuery();
+      unitDone = true;
+    } else if (response.message?.text) {
+      const validation = validateAreaUnit(response.message.text);
+      if (validation.success) {
+        unit = validation.data;
+        unitDone = true;
+      } else {
+        await ctx.reply(`⚠️ ${t('error-area-unit-too-long')}`);
+      }
+    }
+  }
+
+  // Step 5: Ask for daily target (optional, only for areas with a unit)
+  let target: number | undefined;
+
+  if (unit) {
+    await ctx.reply(t('add-area-target-prompt', { unit }), {
+      parse_mode: 'Markdown',
+      reply_markup: new InlineKeyboard()
+        .text(t('btn-skip-no-target'), 'input:skip_target')
+        .row()
+        .text(t('btn-cancel'), 'action:cancel'),
+    });
+
+    let targetDone = false;
+
+    while (!targetDone) {
+      const response = await conversation.waitFor([
+        ':text',
+        'callback_query:data',
+      ]);
+
+      if (response.callbackQuery?.data === 'action:cancel') {
+        await response.answerCallbackQuery(t('msg-cancelled'));
+        await ctx.reply(`❌ ${t('msg-cancelled')}`);
+        return;
+      }
+
+      if (response.callbackQuery?.data === 'input:skip_target') {
+        await response.answerCallbackQuery();
+        targetDone = true;
+      } else if (response.message?.text) {
+        const validation = validateMetricValue(response.message.text);
+        if (validation.success) {
+          target = validation.data;
+          targetDone = true;
+        } else {
+          await ctx.reply(`⚠️ ${t('error-invalid-number')}`);
+        }
+      }
+    }
+  }
+
+  // Step 6: Create the area
   const area = await conversation.external(() =>
-    areasService.createArea(user.id, { title, body, emoji })
+    areasService.createArea(user.id, { title, body, emoji, unit, target })
   );
 
   // Show confirmation
   const areaEmoji = area.emoji ?? '✓';
   await ctx.reply(
-    t('add-area-success', { emoji: areaEmoji, title: area.title, body: area.body ?? 'none' }),
+    t('add-area-success', {
+      emoji: areaEmoji,
+      title: area.title,
+      body: area.body ?? 'none',
+    }),
     { parse_mode: 'Markdown' }
   );
 
-  // Step 5: Update pinned message
-  await updatePinnedMessage(conversation, ctx, user.id, user.timezone, user.pinnedMessageId, language, t);
+  // Step 7: Update pinned message
+  await updatePinnedMessage(
+    conversation,
+    ctx,
+    user.id,
+    user.timezone,
+    user.pinnedMessageId,
+    language,
+    t
+  );
 }
 
 /**
@@ -180,11 +291,23 @@ async function updatePinnedMessage(
   language: string,
   t: TranslateFn
 ): Promise<void> {
-  const areas = await conversation.external(() => areasService.getUserAreas(userId));
-  const stats = await conversation.external(() => getUserStatistics(userId, timezone));
-  const lastProgress = await conversation.external(() => getLastProgressDate(userId));
+  const areas = await conversation.external(() =>
+    areasService.getUserAreas(userId)
+  );
+  const stats = await conversation.external(() =>
+    getUserStatistics(userId, timezone)
+  );
+  const lastProgress = await conversation.external(() =>
+    getLastProgressDate(userId)
+  );
 
-  const messageText = formatPinnedMessage(areas, stats, lastProgress, timezone, language);
+  const messageText = formatPinnedMessage(
+    areas,
+    stats,
+    lastProgress,
+    timezone,
+    language
+  );
 
   if (pinnedMessageId) {
     // Try to edit existing pinned message
@@ -202,9 +325,14 @@ async function updatePinnedMessage(
       });
 
       try {
-        await ctx.pinChatMessage(newMessage.message_id, { disable_notification: true });
+        await ctx.pinChatMessage(newMessage.message_id, {
+          disable_notification: true,
+        });
         await conversation.external(() =>
-          userService.updatePinnedMessageId(userId, BigInt(newMessage.message_id))
+          userService.updatePinnedMessageId(
+            userId,
+            BigInt(newMessage.message_id)
+          )
         );
       } catch {
         // Pin might fail, that's okay
@@ -217,7 +345,9 @@ async function updatePinnedMessage(
     });
 
     try {
-      await ctx.pinChatMessage(newMessage.message_id, { disable_notification: true });
+      await ctx.pinChatMessage(newMessage.message_id, {
+        disable_notification: true,
+      });
       await conversation.external(() =>
         userService.updatePinnedMessageId(userId, BigInt(newMessage.message_id))
       );
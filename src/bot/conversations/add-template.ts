@@ -0,0 +1,159 @@
+import { InlineKeyboard } from 'grammy';
+import type {
+  BotContext,
+  BotConversation,
+  Language,
+} from '../../types/index.js';
+import * as userService from '../../services/user.service.js';
+import * as templateService from '../../services/template.service.js';
+import {
+  validateTemplateName,
+  validateTemplateBody,
+  VALIDATION_LIMITS,
+  TEMPLATE_PLACEHOLDER_LIST,
+} from '../utils/validators.js';
+import { downloadTextFile } from '../utils/file-download.js';
+import { createCancelKeyboard } from '../keyboards/main-menu.keyboard.js';
+import { i18n } from '../../locales/index.js';
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+/**
+ * Maximum size of an uploaded template file.
+ */
+const MAX_TEMPLATE_FILE_BYTES = 100_000;
+
+/**
+ * Add prompt template conversation flow:
+ * 1. Ask for a template name
+ * 2. Ask for the template text (message or .md / .txt file)
+ * 3. Validate placeholders, save and select the template
+ */
+export async function addTemplateConversation(
+  conversation: BotConversation,
+  ctx: BotContext
+): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+
+  const user = await conversation.external(() =>
+    userService.getUserByTelegramId(telegramId)
+  );
+
+  if (!user) {
+    await ctx.reply(i18n.t('en', 'error-please-start'));
+    return;
+  }
+
+  const language: Language = (user.language as Language) || 'en';
+  const t: TranslateFn = (key, params) => i18n.t(language, key, params);
+
+  const templates = await conversation.external(() =>
+    templateService.getUserTemplates(user.id)
+  );
+
+  if (templates.length >= VALIDATION_LIMITS.MAX_TEMPLATES_PER_USER) {
+    await ctx.reply(
+      `⚠️ ${t('template-error-max', { max: VALIDATION_LIMITS.MAX_TEMPLATES_PER_USER })}`
+    );
+    return;
+  }
+
+  // Step 1: Name
+  await ctx.reply(t('template-add-name'), {
+    parse_mode: 'Markdown',
+    reply_markup: createCancelKeyboard(t),
+  });
+
+  let name: string | null = null;
+
+  while (name === null) {
+    const response = await conversation.waitFor([
+      'message:text',
+      'callback_query:data',
+    ]);
+
+    if (response.callbackQuery?.data === 'action:cancel') {
+      await response.answerCallbackQuery(t('msg-cancelled'));
+      await ctx.reply(`❌ ${t('msg-cancelled')}`);
+      return;
+    }
+
+    const text = response.message?.text;
+    if (!text) continue;
+
+    const validation = validateTemplateName(text);
+    if (!validation.success) {
+      await ctx.reply(`⚠️ ${validation.error}`);
+      continue;
+    }
+
+    name = validation.data;
+  }
+
+  // Step 2: Template text
+  await ctx.reply(
+    t('template-add-body', { placeholders: TEMPLATE_PLACEHOLDER_LIST }),
+    { reply_markup: createCancelKeyboard(t) }
+  );
+
+  let body: string | null = null;
+
+  while (body === null) {
+    const response = await conversation.waitFor([
+      'message:text',
+      'message:document',
+      'callback_query:data',
+    ]);
+
+    if (response.callbackQuery?.data === 'action:cancel') {
+      await response.answerCallbackQuery(t('msg-cancelled'));
+      await ctx.reply(`❌ ${t('msg-cancelled')}`);
+      return;
+    }
+
+    let text = response.message?.text;
+    const document = response.message?.document;
+
+    if (document) {
+      const isTextFile = /\.(md|txt)$/i.test(document.file_name ?? '');
+      if (!isTextFile || (document.file_size ?? 0) > MAX_TEMPLATE_FILE_BYTES) {
+        await ctx.reply(`⚠️ ${t('template-error-file')}`);
+        continue;
+      }
+
+      text = await conversation.external(() =>
+        downloadTextFile(ctx.api, document.file_id)
+      );
+    }
+
+    if (text === undefined) continue;
+
+    const validation = validateTemplateBody(text);
+    if (!validation.success) {
+      await ctx.reply(`⚠️ ${validation.error}`);
+      continue;
+    }
+
+    body = validation.data;
+  }
+
+  // Step 3: Save and select
+  const templateName = name;
+  const templateBody = body;
+  const template = await conversation.external(() =>
+    templateService.createTemplate(user.id, {
+      name: templateName,
+      body: templateBody,
+    })
+  );
+  await conversation.external(() =>
+    templateService.selectTemplate(user.id, template.id)
+  );
+
+  await ctx.reply(`✅ ${t('template-added', { name: template.name })}`, {
+    reply_markup: new InlineKeyboard().text(
+      t('btn-generate-summary'),
+      'action:summary'
+    ),
+  });
+}
@@ -0,0 +1,417 @@
+import type {
+  BotContext,
+  BotConversation,
+  Language,
+} from '../../types/index.js';
+import type { Area, ProgressEntry } from '@prisma/client';
+import * as userService from '../../services/user.service.js';
+import * as areasService from '../../services/areas.service.js';
+import * as progressService from '../../services/progress.service.js';
+import {
+  getUserStatistics,
+  getLastProgressDate,
+} from '../../services/statistics.service.js';
+import {
+  validateProgressContent,
+  validateMetricProgress,
+} from '../utils/validators.js';
+import {
+  formatPinnedMessage,
+  formatMetricValue,
+} from '../utils/message-formatter.js';
+import { formatDate } from '../utils/date-formatter.js';
+import {
+  createMainMenuKeyboard,
+  createCancelKeyboard,
+} from '../keyboards/main-menu.keyboard.js';
+import { createProgressDateSelectionKeyboard } from '../keyboards/progress.keyboard.js';
+import {
+  createHistoryEntriesKeyboard,
+  createHistoryEntryActionsKeyboard,
+  createHistoryAreaSelectionKeyboard,
+  createHistoryDeleteConfirmKeyboard,
+} from '../keyboards/history.keyboard.js';
+import { selectDateConversation } from './select-date.js';
+import { i18n } from '../../locales/index.js';
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+/**
+ * Maximum length of entry content shown on a button.
+ */
+const BUTTON_CONTENT_MAX = 30;
+
+/**
+ * Day history conversation flow.
+ * Lets users fix entries that were already logged:
+ * 1. Select a date (today or a past day)
+ * 2. List entries for that date
+ * 3. Edit content, move to another area, or delete an entry
+ * 4. Update pinned message with the recalculated streak after each change
+ */
+export async function dayHistoryConversation(
+  conversation: BotConversation,
+  ctx: BotContext
+): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+
+  // Get user first
+  const user = await conversation.external(() =>
+    userService.getUserByTelegramId(telegramId)
+  );
+
+  if (!user) {
+    await ctx.reply(i18n.t('en', 'error-please-start'));
+    return;
+  }
+
+  // Get user's language
+  const language: Language = (user.language as Language) || 'en';
+  const t: TranslateFn = (key, params) => i18n.t(language, key, params);
+
+  // Step 1: Select date
+  await ctx.reply(t('history-date-selection'), {
+    parse_mode: 'Markdown',
+    reply_markup: createProgressDateSelectionKeyboard(t),
+  });
+
+  let date: Date | null = null;
+
+  while (!date) {
+    const response = await conversation.waitFor('callback_query:data');
+    await response.answerCallbackQuery();
+
+    const data = response.callbackQuery.data;
+
+    if (data === 'progress:date:today') {
+      date = progressService.getTodayInTimezone(user.timezone);
+    } else if (data === 'progress:date:past') {
+      date = await selectDateConversation(conversation, ctx);
+      if (!date) return;
+    } else if (data === 'action:back') {
+      return;
+    }
+  }
+
+  const selectedDate = date;
+  const dateLabel = formatDate(selectedDate, language);
+
+  // Step 2: List entries and handle actions until the user closes the view
+  while (true) {
+    const entries = await conversation.external(() =>
+      progressService.getDayProgress(user.id, selectedDate)
+    );
+    // Archived areas are included so their entries still show up
+    const areas = await conversation.external(() =>
+      areasService.getUserAreas(user.id, { includeArchived: true })
+    );
+    const areasById = new Map(areas.map((area) => [area.id, area]));
+
+    if (entries.length === 0) {
+      await ctx.reply(t('history-empty', { date: dateLabel }));
+      return;
+    }
+
+    // Show entries in the same order as areas are logged
+    const sortedEntries = [...entries].sort(
+      (a, b) => getEntryPosition(a, areasById) - getEntryPosition(b, areasById)
+    );
+
+    const listText = [
+      t('history-title', { date: dateLabel }),
+      '',
+      ...sortedEntries.map(
+        (entry, index) =>
+          `${index + 1}. ${formatEntryLine(entry, areasById, t)}`
+      ),
+      '',
+      t('history-select-entry'),
+    ].join('\n');
+
+    await ctx.reply(listText, {
+      reply_markup: createHistoryEntriesKeyboard(
+        sortedEntries.map((entry, index) => ({
+          id: entry.id,
+          label: `${index + 1}. ${truncate(formatEntryLine(entry, areasById, t))}`,
+        })),
+        t
+      ),
+    });
+
+    const listResponse = await conversation.waitFor('callback_query:data');
+    await listResponse.answerCallbackQuery();
+
+    const listAction = listResponse.callbackQuery.data;
+
+    if (listAction === 'history:close' || listAction === 'action:back') {
+      return;
+    }
+
+    if (!listAction.startsWith('history:entry:')) {
+      continue;
+    }
+
+    const entryId = listAction.replace('history:entry:', '');
+    const entry = sortedEntries.find((e) => e.id === entryId);
+
+    if (entry?.userId !== user.id) {
+      await ctx.reply(t('error-entry-not-found'));
+      continue;
+    }
+
+    // Step 3: Show actions for the selected entry
+    const isCheckIn = entry.areaId === null;
+
+    await ctx.reply(
+      `${formatEntryLine(entry, areasById, t)}\n\n${t('history-what-to-do')}`,
+      {
+        reply_markup: createHistoryEntryActionsKeyboard(entry.id, isCheckIn, t),
+      }
+    );
+
+    const actionResponse = await conversation.waitFor('callback_query:data');
+    await actionResponse.answerCallbackQuery();
+
+    const action = actionResponse.callbackQuery.data;
+    let successKey: string | null = null;
+
+    if (action === `history:edit:${entry.id}`) {
+      // Edit content (a number plus optional note for areas with a unit)
+      const unit = entry.areaId ? areasById.get(entry.areaId)?.unit : null;
+      const metricHint = unit ? '\n' + t('progress-metric-hint', { unit }) : '';
+
+      await ctx.reply(t('history-edit-prompt') + metricHint, {
+        reply_markup: createCancelKeyboard(t),
+      });
+
+      let newContent: string | null = null;
+      let newValue: number | undefined;
+      let done = false;
+      let cancelled = false;
+
+      while (!done && !cancelled) {
+        const response = await conversation.waitFor([
+          ':text',
+          'callback_query:data',
+        ]);
+
+        if (response.callbackQuery?.data) {
+          await response.answerCallbackQuery();
+          if (response.callbackQuery.data === 'action:cancel') {
+            cancelled = true;
+          }
+        } else if (response.message?.text && unit) {
+          const validation = validateMetricProgress(
+            response.message.text,
+            unit
+          );
+
+          if (validation.success) {
+            newContent = validation.data.note;
+            newValue = validation.data.value;
+            done = true;
+          } else {
+            await ctx.reply(`⚠️ ${t('error-invalid-metric-value', { unit })}`);
+          }
+        } else if (response.message?.text) {
+          const validation = validateProgressContent(response.message.text);
+
+          if (validation.success) {
+            newContent = validation.data;
+            done = true;
+          } else {
+            await ctx.reply(`⚠️ ${t('error-progress-too-long')}`);
+          }
+        }
+      }
+
+      if (done) {
+        const content = newContent;
+        const value = newValue;
+        await conversation.external(() =>
+          progressService.updateProgressContent(entry.id, content, value)
+        );
+        successKey = 'history-entry-updated';
+      }
+    } else if (action === `history:move:${entry.id}`) {
+      // Change area: only active areas with the same unit and without an
+      // entry for this date are valid targets, so values keep their meaning
+      const loggedAreaIds = new Set(entries.map((e) => e.areaId));
+      const unit = entry.areaId ? areasById.get(entry.areaId)?.unit : null;
+      const targetAreas = areas.filter(
+        (area) =>
+          area.archivedAt === null &&
+          !loggedAreaIds.has(area.id) &&
+          area.unit === (unit ?? null)
+      );
+
+      if (targetAreas.length === 0) {
+        await ctx.reply(`⚠️ ${t('history-no-target-areas')}`);
+        continue;
+      }
+
+      await ctx.reply(t('history-select-area'), {
+        reply_markup: createHistoryAreaSelectionKeyboard(targetAreas, t),
+      });
+
+      const areaResponse = await conversation.waitFor('callback_query:data');
+      await areaResponse.answerCallbackQuery();
+
+      const areaAction = areaResponse.callbackQuery.data;
+
+      if (areaAction.startsWith('history:area:')) {
+        const areaId = areaAction.replace('history:area:', '');
+
+        if (!targetAreas.some((area) => area.id === areaId)) {
+          await ctx.reply(t('error-area-not-found'));
+          continue;
+        }
+
+        const moved = await conversation.external(() =>
+          progressService.changeProgressArea(entry.id, areaId)
+        );
+
+        if (!moved) {
+          await ctx.reply(`⚠️ ${t('history-area-conflict')}`);
+          continue;
+        }
+
+        successKey = 'history-entry-moved';
+      }
+    } else if (action === `history:delete:${entry.id}`) {
+      // Delete with confirmation
+      await ctx.reply(t('history-delete-confirm'), {
+        reply_markup: createHistoryDeleteConfirmKeyboard(entry.id, t),
+      });
+
+      const confirmResponse = await conversation.waitFor('callback_query:data');
+      await confirmResponse.answerCallbackQuery();
+
+      if (
+        confirmResponse.callbackQuery.data ===
+        `history:confirm_delete:${entry.id}`
+      ) {
+        await conversation.external(() =>
+          progressService.deleteProgressEntry(entry.id)
+        );
+        successKey = 'history-entry-deleted';
+      }
+    }
+
+    if (successKey) {
+      // Stats are derived from entries, so reading them again recalculates the streak
+      const stats = await conversation.external(() =>
+        getUserStatistics(user.id, user.timezone)
+      );
+      const streakText =
+        stats.currentStreak > 0
+          ? '\n\n' + t('progress-streak', { days: stats.currentStreak })
+          : '';
+      await ctx.reply(`✅ ${t(successKey)}${streakText}`);
+
+      await updatePinnedMessage(
+        conversation,
+        ctx,
+        user.id,
+        user.timezone,
+        user.pinnedMessageId,
+        language,
+        t
+      );
+    }
+  }
+}
+
+/**
+ * Get sort position for an entry (check-ins go last).
+ */
+function getEntryPosition(
+  entry: ProgressEntry,
+  areasById: Map<string, Area>
+): number {
+  if (!entry.areaId) return Number.MAX_SAFE_INTEGER;
+  return areasById.get(entry.areaId)?.position ?? Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Format a single entry as "emoji title: content".
+ */
+function formatEntryLine(
+  entry: ProgressEntry,
+  areasById: Map<string, Area>,
+  t: TranslateFn
+): string {
+  if (!entry.areaId) {
+    return entry.frozen
+      ? `🧊 ${t('history-freeze')}`
+      : `✅ ${t('history-check-in')}`;
+  }
+
+  const area = areasById.get(entry.areaId);
+  const emoji = area?.emoji ?? '📌';
+  const title = area?.title ?? '?';
+
+  if (entry.value !== null) {
+    const value = formatMetricValue(entry.value, area?.unit ?? null);
+    const note = entry.content ? ` — ${entry.content}` : '';
+    return `${emoji} ${title}: ${value}${note}`;
+  }
+
+  if (entry.skipped || !entry.content) {
+    return `${emoji} ${title}: ${t('progress-skipped')}`;
+  }
+
+  return `${emoji} ${title}: ${entry.content}`;
+}
+
+/**
+ * Shorten text to fit on an inline button.
+ */
+function truncate(text: string): string {
+  if (text.length <= BUTTON_CONTENT_MAX) return text;
+  return `${text.slice(0, BUTTON_CONTENT_MAX - 1)}…`;
+}
+
+/**
+ * Helper to update the pinned message with current areas and stats.
+ */
+async function updatePinnedMessage(
+  conversation: BotConversation,
+  ctx: BotContext,
+  userId: string,
+  timezone: string,
+  pinnedMessageId: bigint | null,
+  language: string,
+  t: TranslateFn
+): Promise<void> {
+  const areas = await conversation.external(() =>
+    areasService.getUserAreas(userId)
+  );
+  const stats = await conversation.external(() =>
+    getUserStatistics(userId, timezone)
+  );
+  const lastProgress = await conversation.external(() =>
+    getLastProgressDate(userId)
+  );
+
+  const messageText = formatPinnedMessage(
+    areas,
+    stats,
+    lastProgress,
+    timezone,
+    language
+  );
+
+  if (pinnedMessageId) {
+    try {
+      await ctx.api.editMessageText(
+        ctx.chat?.id ?? 0,
+        Number(pinnedMessageId),
+        messageText,
+        { reply_markup: createMainMenuKeyboard(t) }
+      );
+    } catch {
+      // Edit might fail if message hasn't changed, that's okay
+    }
+  }
+}
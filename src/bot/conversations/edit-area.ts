@@ -1,14 +1,33 @@
-import type { BotContext, BotConversation, Language } from '../../types/index.js';
+import type {
+  BotContext,
+  BotConversation,
+  Language,
+  AreaCadence,
+} from '../../types/index.js';
 import * as userService from '../../services/user.service.js';
 import * as areasService from '../../services/areas.service.js';
-import { getUserStatistics, getLastProgressDate } from '../../services/statistics.service.js';
+import {
+  getUserStatistics,
+  getLastProgressDate,
+} from '../../services/statistics.service.js';
 import {
   validateAreaTitle,
   validateEmoji,
+  validateAreaUnit,
+  validateMetricValue,
 } from '../utils/validators.js';
-import { formatPinnedMessage } from '../utils/message-formatter.js';
+import {
+  formatPinnedMessage,
+  formatMetricValue,
+  formatCadence,
+} from '../utils/message-formatter.js';
 import { createMainMenuKeyboard } from '../keyboards/main-menu.keyboard.js';
-import { createEditFieldKeyboard } from '../keyboards/areas.keyboard.js';
+import {
+  createEditFieldKeyboard,
+  createCadenceTypeKeyboard,
+  createTimesPerWeekKeyboard,
+  createWeekdaysKeyboard,
+} from '../keyboards/areas.keyboard.js';
 import { InlineKeyboard } from 'grammy';
 import { i18n } from '../../locales/index.js';
 
@@ -17,7 +36,7 @@ type TranslateFn = (key: string, params?: Record<string, any>) => string;
 /**
  * Edit area conversation flow.
  * Allows users to edit an existing focus area:
- * 1. Show options: edit title, body, or emoji
+ * 1. Show options: edit title, body, emoji, unit & target, or schedule
  * 2. Wait for selection
  * 3. Ask for new value
  * 4. Validate and save
@@ -30,7 +49,9 @@ export async function editAreaConversation(
   const telegramId = BigInt(ctx.from?.id ?? 0);
 
   // Get user
-  const user = await conversation.external(() => userService.getUserByTelegramId(telegramId));
+  const user = await conversation.external(() =>
+    userService.getUserByTelegramId(telegramId)
+  );
 
   if (!user) {
     await ctx.reply(i18n.t('en', 'error-please-start'));
@@ -50,7 +71,9 @@ export async function editAreaConversation(
   }
 
   // Get the area
-  const area = await conversation.external(() => areasService.getAreaById(areaId));
+  const area = await conversation.external(() =>
+    areasService.getAreaById(areaId)
+  );
 
   if (!area) {
     await ctx.reply(t('error-area-not-found'));
@@ -66,9 +89,14 @@ export async function editAreaConversation(
   // Show what can be edited
   const emoji = area.emoji ?? '📌';
   const body = area.body ? `\n→ ${area.body}` : '';
+  const metric = area.unit
+    ? `\n📏 ${formatUnitAndTarget(area.unit, area.target)}`
+    : '';
+  const currentCadence = areasService.parseAreaCadence(area);
+  const schedule = `\n🗓 ${formatCadence(currentCadence, language) || t('btn-cadence-daily')}`;
 
   await ctx.editMessageText(
-    `${emoji} *${area.title}*${body}\n\n${t('edit-area-what')}`,
+    `${emoji} *${area.title}*${body}${metric}${schedule}\n\n${t('edit-area-what')}`,
     {
       parse_mode: 'Markdown',
       reply_markup: createEditFieldKeyboard(areaId, t),
@@ -90,6 +118,8 @@ export async function editAreaConversation(
     title?: string;
     body?: string | null;
     emoji?: string | null;
+    unit?: string | null;
+    target?: number | null;
   } = {};
 
   // Edit title
@@ -101,7 +131,10 @@ export async function editAreaConversation(
     let newTitle: string | null = null;
 
     while (!newTitle) {
-      const response = await conversation.waitFor([':text', 'callback_query:data']);
+      const response = await conversation.waitFor([
+        ':text',
+        'callback_query:data',
+      ]);
 
       if (response.callbackQuery?.data === 'action:cancel') {
         await response.answerCallbackQuery(t('msg-cancelled'));
@@ -130,7 +163,10 @@ export async function editAreaConversation(
     let bodyDone = false;
 
     while (!bodyDone) {
-      const response = await conversation.waitFor([':text', 'callback_query:data']);
+      const response = await conversation.waitFor([
+        ':text',
+        'callback_query:data',
+      ]);
 
       if (response.callbackQuery?.data === 'action:cancel') {
         await response.answerCallbackQuery(t('msg-cancelled'));
@@ -172,7 +208,10 @@ export async function editAreaConversation(
     let emojiDone = false;
 
     while (!emojiDone) {
-      const response = await conversation.waitFor([':text', 'callback_query:data']);
+      const response = await conversation.waitFor([
+        ':text',
+        'callback_query:data',
+      ]);
 
       if (response.callbackQuery?.data === 'action:cancel') {
         await response.answerCallbackQuery(t('msg-cancelled'));
@@ -200,16 +239,212 @@ export async function editAreaConversation(
     }
   }
 
+  // Edit unit & target
+  if (fieldAction === `area:edit_metric:${areaId}`) {
+    await ctx.reply(t('edit-area-unit-prompt'), {
+      reply_markup: new InlineKeyboard().text(t('btn-cancel'), 'action:cancel'),
+    });
+
+    let unitDone = false;
+
+    while (!unitDone) {
+      const response = await conversation.waitFor([
+        ':text',
+        'callback_query:data',
+      ]);
+
+      if (response.callbackQuery?.data === 'action:cancel') {
+        await response.answerCallbackQuery(t('msg-cancelled'));
+        await ctx.reply(`❌ ${t('msg-cancelled')}`);
+        return;
+      }
+
+      if (response.message?.text) {
+        const text = response.message.text;
+
+        // Check for /remove command (area becomes free text, target is removed too)
+        if (text === '/remove') {
+          updates.unit = null;
+          unitDone = true;
+        } else {
+          const validation = validateAreaUnit(text);
+          if (validation.success) {
+            updates.unit = validation.data;
+            unitDone = true;
+          } else {
+            await ctx.reply(`⚠️ ${t('error-area-unit-too-long')}`);
+          }
+        }
+      }
+    }
+
+    // Ask for target only if the area still has a unit
+    if (updates.unit) {
+      await ctx.reply(t('edit-area-target-prompt', { unit: updates.unit }), {
+        reply_markup: new InlineKeyboard()
+          .text(t('btn-skip'), 'input:skip_target')
+          .row()
+          .text(t('btn-cancel'), 'action:cancel'),
+      });
+
+      let targetDone = false;
+
+      while (!targetDone) {
+        const response = await conversation.waitFor([
+          ':text',
+          'callback_query:data',
+        ]);
+
+        if (response.callbackQuery?.data === 'action:cancel') {
+          await response.answerCallbackQuery(t('msg-cancelled'));
+          await ctx.reply(`❌ ${t('msg-cancelled')}`);
+          return;
+        }
+
+        if (response.callbackQuery?.data === 'input:skip_target') {
+          // Keep the current target
+          await response.answerCallbackQuery();
+          targetDone = true;
+        } else if (response.message?.text) {
+          const text = response.message.text;
+
+          if (text === '/remove') {
+            updates.target = null;
+            targetDone = true;
+          } else {
+            const validation = validateMetricValue(text);
+            if (validation.success) {
+              updates.target = validation.data;
+              targetDone = true;
+            } else {
+              await ctx.reply(`⚠️ ${t('error-invalid-number')}`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Edit schedule (target cadence)
+  let newCadence: AreaCadence | null = null;
+
+  if (fieldAction === `area:edit_cadence:${areaId}`) {
+    await ctx.reply(t('edit-area-cadence-prompt'), {
+      reply_markup: createCadenceTypeKeyboard(t),
+    });
+
+    const typeResponse = await conversation.waitFor('callback_query:data');
+    const typeAction = typeResponse.callbackQuery.data;
+    await typeResponse.answerCallbackQuery();
+
+    if (typeAction === 'cadence:daily') {
+      newCadence = { type: 'daily' };
+    } else if (typeAction === 'cadence:weekly') {
+      await ctx.reply(t('edit-area-times-prompt'), {
+        reply_markup: createTimesPerWeekKeyboard(t),
+      });
+
+      const timesResponse = await conversation.waitFor('callback_query:data');
+      const timesAction = timesResponse.callbackQuery.data;
+      await timesResponse.answerCallbackQuery();
+
+      const timesPerWeek = parseInt(
+        timesAction.replace('cadence:times:', ''),
+        10
+      );
+      if (
+        timesAction.startsWith('cadence:times:') &&
+        timesPerWeek >= 1 &&
+        timesPerWeek <= 6
+      ) {
+        newCadence = { type: 'weekly', timesPerWeek };
+      }
+    } else if (typeAction === 'cadence:weekdays') {
+      // Toggle days until Done, starting from the current selection
+      const selected =
+        currentCadence.type === 'weekdays' ? [...currentCadence.weekdays] : [];
+
+      await ctx.reply(t('edit-area-weekdays-prompt'), {
+        reply_markup: createWeekdaysKeyboard(selected, language, t),
+      });
+
+      let weekdaysDone = false;
+
+      while (!weekdaysDone) {
+        const dayResponse = await conversation.waitFor('callback_query:data');
+        const dayAction = dayResponse.callbackQuery.data;
+
+        if (dayAction.startsWith('cadence:day:')) {
+          await dayResponse.answerCallbackQuery();
+          const day = parseInt(dayAction.replace('cadence:day:', ''), 10);
+          const index = selected.indexOf(day);
+
+          if (index >= 0) {
+            selected.splice(index, 1);
+          } else if (day >= 1 && day <= 7) {
+            selected.push(day);
+          }
+
+          await dayResponse.editMessageReplyMarkup({
+            reply_markup: createWeekdaysKeyboard(selected, language, t),
+          });
+        } else if (dayAction === 'cadence:done') {
+          if (selected.length === 0) {
+            await dayResponse.answerCallbackQuery(t('error-no-weekdays'));
+            continue;
+          }
+          await dayResponse.answerCallbackQuery();
+          newCadence = {
+            type: 'weekdays',
+            weekdays: [...selected].sort((a, b) => a - b),
+          };
+          weekdaysDone = true;
+        } else {
+          await dayResponse.answerCallbackQuery();
+          weekdaysDone = true;
+        }
+      }
+    }
+
+    if (!newCadence) {
+      await ctx.reply(`❌ ${t('msg-cancelled')}`);
+      return;
+    }
+  }
+
   // Update the area only if there are changes
   if (Object.keys(updates).length > 0) {
     await conversation.external(() => areasService.updateArea(areaId, updates));
   }
 
+  if (newCadence) {
+    const cadence = newCadence;
+    await conversation.external(() =>
+      areasService.updateAreaCadence(areaId, cadence)
+    );
+  }
+
   // Show success message
   await ctx.reply(`✅ ${t('edit-area-updated')}`);
 
   // Update pinned message
-  await updatePinnedMessage(conversation, ctx, user.id, user.timezone, user.pinnedMessageId, language, t);
+  await updatePinnedMessage(
+    conversation,
+    ctx,
+    user.id,
+    user.timezone,
+    user.pinnedMessageId,
+    language,
+    t
+  );
+}
+
+/**
+ * Format an area's unit with its daily target, e.g. "km (🎯 5 km)".
+ */
+function formatUnitAndTarget(unit: string, target: number | null): string {
+  if (target === null) return unit;
+  return `${unit} (🎯 ${formatMetricValue(target, unit)})`;
 }
 
 /**
@@ -224,11 +459,23 @@ async function updatePinnedMessage(
   language: string,
   t: TranslateFn
 ): Promise<void> {
-  const areas = await conversation.external(() => areasService.getUserAreas(userId));
-  const stats = await conversation.external(() => getUserStatistics(userId, timezone));
-  const lastProgress = await conversation.external(() => getLastProgressDate(userId));
+  const areas = await conversation.external(() =>
+    areasService.getUserAreas(userId)
+  );
+  const stats = await conversation.external(() =>
+    getUserStatistics(userId, timezone)
+  );
+  const lastProgress = await conversation.external(() =>
+    getLastProgressDate(userId)
+  );
 
-  const messageText = formatPinnedMessage(areas, stats, lastProgress, timezone, language);
+  const messageText = formatPinnedMessage(
+    areas,
+    stats,
+    lastProgress,
+    timezone,
+    language
+  );
 
   if (pinnedMessageId) {
     // Try to edit existing pinned message
@@ -246,9 +493,14 @@ async function updatePinnedMessage(
       });
 
       try {
-        await ctx.pinChatMessage(newMessage.message_id, { disable_notification: true });
+        await ctx.pinChatMessage(newMessage.message_id, {
+          disable_notification: true,
+        });
         await conversation.external(() =>
-          userService.updatePinnedMessageId(userId, BigInt(newMessage.message_id))
+          userService.updatePinnedMessageId(
+            userId,
+            BigInt(newMessage.message_id)
+          )
         );
       } catch {
         // Pin might fail, that's okay
@@ -261,7 +513,9 @@ async function updatePinnedMessage(
     });
 
     try {
-      await ctx.pinChatMessage(newMessage.message_id, { disable_notification: true });
+      await ctx.pinChatMessage(newMessage.message_id, {
+        disable_notification: true,
+      });
       await conversation.external(() =>
         userService.updatePinnedMessageId(userId, BigInt(newMessage.message_id))
       );
@@ -0,0 +1,258 @@
+import { InlineKeyboard } from 'grammy';
+import { format } from 'date-fns';
+import type {
+  BotContext,
+  BotConversation,
+  Language,
+} from '../../types/index.js';
+import * as userService from '../../services/user.service.js';
+import * as areasService from '../../services/areas.service.js';
+import * as importService from '../../services/import.service.js';
+import { getTodayInTimezone } from '../../services/progress.service.js';
+import {
+  getUserStatistics,
+  getLastProgressDate,
+} from '../../services/statistics.service.js';
+import { formatPinnedMessage } from '../utils/message-formatter.js';
+import { downloadTextFile } from '../utils/file-download.js';
+import {
+  createMainMenuKeyboard,
+  createCancelKeyboard,
+} from '../keyboards/main-menu.keyboard.js';
+import { i18n } from '../../locales/index.js';
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+/**
+ * Maximum number of row errors listed in the preview.
+ */
+const PREVIEW_ERRORS_MAX = 5;
+
+/**
+ * Import data conversation flow.
+ * Lets users bring history from a file:
+ * 1. Upload a JSON (from /export) or CSV file
+ * 2. Validate it and show a dry-run preview (counts, conflicts, errors)
+ * 3. On confirm, import everything in one transaction
+ * 4. Update pinned message
+ */
+export async function importDataConversation(
+  conversation: BotConversation,
+  ctx: BotContext
+): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+
+  const user = await conversation.external(() =>
+    userService.getUserByTelegramId(telegramId)
+  );
+
+  if (!user) {
+    await ctx.reply(i18n.t('en', 'error-please-start'));
+    return;
+  }
+
+  const language: Language = (user.language as Language) || 'en';
+  const t: TranslateFn = (key, params) => i18n.t(language, key, params);
+
+  // Step 1: Ask for a file
+  await ctx.reply(t('import-start'), {
+    parse_mode: 'Markdown',
+    reply_markup: createCancelKeyboard(t),
+  });
+
+  let parsed: importService.ImportParseResult | null = null;
+
+  while (!parsed?.success) {
+    const response = await conversation.waitFor([
+      'message:document',
+      'callback_query:data',
+    ]);
+
+    if (response.callbackQuery?.data === 'action:cancel') {
+      await response.answerCallbackQuery(t('msg-cancelled'));
+      await ctx.reply(`❌ ${t('msg-cancelled')}`);
+      return;
+    }
+
+    const document = response.message?.document;
+    if (!document) continue;
+
+    if ((document.file_size ?? 0) > importService.MAX_IMPORT_FILE_BYTES) {
+      await ctx.reply(`⚠️ ${t('import-error-too-large')}`);
+      continue;
+    }
+
+    const filename = document.file_name ?? '';
+    const todayKey = format(getTodayInTimezone(user.timezone), 'yyyy-MM-dd');
+
+    // Step 2: Download and validate
+    parsed = await conversation.external(
+      async (): Promise<importService.ImportParseResult> => {
+        let content: string;
+        try {
+          content = await downloadTextFile(ctx.api, document.file_id);
+        } catch {
+          return { success: false, error: 'download-failed' };
+        }
+        return importService.parseImportFile(filename, content, todayKey);
+      }
+    );
+
+    if (!parsed.success) {
+      await ctx.reply(`⚠️ ${t(`import-error-${parsed.error}`)}`);
+    }
+  }
+
+  const data = parsed.data;
+
+  if (data.entries.length === 0 && data.areas.length === 0 && !data.settings) {
+    await ctx.reply(`⚠️ ${t('import-error-no-valid-rows')}`);
+    return;
+  }
+
+  // Dry run: show what would change
+  const preview = await conversation.external(() =>
+    importService.previewImport(user.id, data)
+  );
+
+  const lines = [
+    t('import-preview-title'),
+    '',
+    t('import-preview-areas', {
+      matched: preview.areasMatched,
+      created: preview.areasCreated,
+    }),
+    t('import-preview-entries', {
+      created: preview.entriesCreated,
+      overwritten: preview.entriesOverwritten,
+    }),
+    t('import-preview-check-ins', { count: preview.checkIns }),
+  ];
+
+  if (preview.freezes > 0) {
+    lines.push(t('import-preview-freezes', { count: preview.freezes }));
+  }
+
+  if (preview.areasArchived > 0) {
+    lines.push(t('import-preview-archived', { count: preview.areasArchived }));
+  }
+
+  if (preview.settingsRestored) {
+    lines.push(t('import-preview-settings'));
+  }
+
+  if (preview.areasUnitMismatch > 0) {
+    lines.push(
+      '',
+      `⚠️ ${t('import-preview-unit-mismatch', {
+        areas: preview.areasUnitMismatch,
+        entries: preview.entriesSkipped,
+      })}`
+    );
+  }
+
+  if (preview.entriesOverwritten > 0) {
+    lines.push('', `⚠️ ${t('import-preview-conflicts')}`);
+  }
+
+  if (data.errors.length > 0) {
+    lines.push('', t('import-preview-errors', { count: data.errors.length }));
+    data.errors.slice(0, PREVIEW_ERRORS_MAX).forEach((error) => {
+      lines.push(t('import-preview-error-row', error));
+    });
+  }
+
+  lines.push('', t('import-preview-confirm'));
+
+  await ctx.reply(lines.join('\n'), {
+    reply_markup: new InlineKeyboard()
+      .text(t('btn-import-confirm'), 'import:confirm')
+      .text(t('btn-cancel'), 'action:cancel'),
+  });
+
+  // Step 3: Confirm
+  while (true) {
+    const response = await conversation.waitFor('callback_query:data');
+    const action = response.callbackQuery.data;
+
+    if (action === 'action:cancel') {
+      await response.answerCallbackQuery(t('msg-cancelled'));
+      await ctx.reply(`❌ ${t('msg-cancelled')}`);
+      return;
+    }
+
+    if (action === 'import:confirm') {
+      await response.answerCallbackQuery(t('import-importing'));
+      break;
+    }
+
+    await response.answerCallbackQuery();
+  }
+
+  const result = await conversation.external(() =>
+    importService.applyImport(user.id, data)
+  );
+
+  await ctx.reply(
+    `✅ ${t('import-done', {
+      areas: result.areasCreated,
+      entries: result.entriesCreated + result.entriesOverwritten,
+      checkIns: result.checkIns,
+    })}`
+  );
+
+  // Step 4: Update pinned message
+  await updatePinnedMessage(
+    conversation,
+    ctx,
+    user.id,
+    user.timezone,
+    user.pinnedMessageId,
+    language,
+    t
+  );
+}
+
+/**
+ * Helper to update the pinned message with current areas and stats.
+ */
+async function updatePinnedMessage(
+  conversation: BotConversation,
+  ctx: BotContext,
+  userId: string,
+  timezone: string,
+  pinnedMessageId: bigint | null,
+  language: string,
+  t: TranslateFn
+): Promise<void> {
+  const areas = await conversation.external(() =>
+    areasService.getUserAreas(userId)
+  );
+  const stats = await conversation.external(() =>
+    getUserStatistics(userId, timezone)
+  );
+  const lastProgress = await conversation.external(() =>
+    getLastProgressDate(userId)
+  );
+
+  const messageText = formatPinnedMessage(
+    areas,
+    stats,
+    lastProgress,
+    timezone,
+    language
+  );
+
+  if (pinnedMessageId) {
+    try {
+      await ctx.api.editMessageText(
+        ctx.chat?.id ?? 0,
+        Number(pinnedMessageId),
+        messageText,
+        { reply_markup: createMainMenuKeyboard(t) }
+      );
+    } catch {
+      // Edit might fail if message hasn't changed, that's okay
+    }
+  }
+}
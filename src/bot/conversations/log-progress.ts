@@ -1,13 +1,29 @@
-import type { BotContext, BotConversation, Language } from '../../types/index.js';
+import type {
+  BotContext,
+  BotConversation,
+  Language,
+} from '../../types/index.js';
 import type { Area } from '@prisma/client';
 import * as userService from '../../services/user.service.js';
 import * as areasService from '../../services/areas.service.js';
 import * as progressService from '../../services/progress.service.js';
-import { getUserStatistics, getLastProgressDate } from '../../services/statistics.service.js';
-import { validateProgressContent } from '../utils/validators.js';
-import { formatPinnedMessage } from '../utils/message-formatter.js';
+import {
+  getUserStatistics,
+  getLastProgressDate,
+} from '../../services/statistics.service.js';
+import {
+  validateProgressContent,
+  validateMetricProgress,
+} from '../utils/validators.js';
+import {
+  formatPinnedMessage,
+  formatMetricValue,
+} from '../utils/message-formatter.js';
 import { createMainMenuKeyboard } from '../keyboards/main-menu.keyboard.js';
-import { createProgressControlKeyboard, createAllLoggedKeyboard } from '../keyboards/progress.keyboard.js';
+import {
+  createProgressControlKeyboard,
+  createAllLoggedKeyboard,
+} from '../keyboards/progress.keyboard.js';
 import { formatDate } from '../utils/date-formatter.js';
 import { i18n } from '../../locales/index.js';
 
@@ -18,14 +34,17 @@ type TranslateFn = (key: string, params?: Record<string, any>) => string;
  */
 interface ProgressSessionEntry {
   areaId: string;
-  content: string;
+  // Free text, or an optional note for metric entries
+  content: string | null;
+  // Numeric value for areas with a unit
+  value?: number;
 }
 
 /**
  * Log progress conversation flow.
  * Iterates through areas without progress for selected date and collects entries:
  * 1. Show areas one by one
- * 2. Wait for text input or skip
+ * 2. Wait for text input (or a number for areas with a unit) or skip
  * 3. Allow cancel all to abort
  * 4. Save all entries in a transaction at the end
  * 5. Update pinned message with new streak
@@ -38,7 +57,9 @@ export async function logProgressConversation(
   const telegramId = BigInt(ctx.from?.id ?? 0);
 
   // Get user first
-  const user = await conversation.external(() => userService.getUserByTelegramId(telegramId));
+  const user = await conversation.external(() =>
+    userService.getUserByTelegramId(telegramId)
+  );
 
   if (!user) {
     await ctx.reply(i18n.t('en', 'error-please-start'));
@@ -50,7 +71,8 @@ export async function logProgressConversation(
   const t: TranslateFn = (key, params) => i18n.t(language, key, params);
 
   // Get the session date (either selected date or today)
-  const sessionDate = selectedDate || progressService.getTodayInTimezone(user.timezone);
+  const sessionDate =
+    selectedDate || progressService.getTodayInTimezone(user.timezone);
 
   // Get areas without progress for the selected date
   const areasToLog = await conversation.external(() =>
@@ -58,7 +80,7 @@ export async function logProgressConversation(
   );
 
   if (areasToLog.length === 0) {
-    const dateLabel = selectedDate 
+    const dateLabel = selectedDate
       ? formatDate(sessionDate, language)
       : t('progress-today');
     await ctx.reply(t('progress-all-caught-up-for-date', { date: dateLabel }), {
@@ -82,6 +104,7 @@ export async function logProgressConversation(
     // Show the area prompt
     const areaEmoji = area.emoji ?? '📝';
     const areaBody = area.body ?? 'none';
+    const metricHint = area.unit ? '\n' + formatMetricHint(area, t) : '';
     await ctx.reply(
       t('progress-area-prompt', {
         current: currentIndex,
@@ -89,7 +112,7 @@ export async function logProgressConversation(
         emoji: areaEmoji,
         title: area.title,
         body: areaBody,
-      }),
+      }) + metricHint,
       {
         parse_mode: 'Markdown',
         reply_markup: createProgressControlKeyboard(t),
@@ -100,18 +123,42 @@ export async function logProgressConversation(
     let entryDone = false;
 
     while (!entryDone && !cancelled) {
-      const response = await conversation.waitFor([':text', 'callback_query:data']);
+      const response = await conversation.waitFor([
+        ':text',
+        'callback_query:data',
+      ]);
 
       if (response.callbackQuery?.data) {
         await response.answerCallbackQuery();
 
         if (response.callbackQuery.data === 'progress:skip') {
           skippedCount++;
-          await ctx.reply(t('progress-skipped-area', { emoji: areaEmoji, title: area.title }));
+          await ctx.reply(
+            t('progress-skipped-area', { emoji: areaEmoji, title: area.title })
+          );
           entryDone = true;
         } else if (response.callbackQuery.data === 'progress:cancel') {
           cancelled = true;
         }
+      } else if (response.message?.text && area.unit) {
+        // Metric area: a number, optionally followed by a note
+        const validation = validateMetricProgress(
+          response.message.text,
+          area.unit
+        );
+
+        if (validation.success) {
+          sessionEntries.push({
+            areaId: area.id,
+            content: validation.data.note,
+            value: validation.data.value,
+          });
+          entryDone = true;
+        } else {
+          await ctx.reply(
+            `⚠️ ${t('error-invalid-metric-value', { unit: area.unit })}`
+          );
+        }
       } else if (response.message?.text) {
         const validation = validateProgressContent(response.message.text);
 
@@ -137,26 +184,62 @@ export async function logProgressConversation(
   // Save all entries in a transaction (or create check-in if all skipped)
   if (sessionEntries.length > 0 || skippedCount > 0) {
     await conversation.external(() =>
-      progressService.logProgressBatch(user.id, sessionEntries, skippedCount, sessionDate)
+      progressService.logProgressBatch(
+        user.id,
+        sessionEntries,
+        skippedCount,
+        sessionDate
+      )
     );
   }
 
   // Calculate new statistics
-  const stats = await conversation.external(() => getUserStatistics(user.id, user.timezone));
+  const stats = await conversation.external(() =>
+    getUserStatistics(user.id, user.timezone)
+  );
 
   // Show summary
-  const dateLabel = selectedDate 
+  const dateLabel = selectedDate
     ? formatDate(sessionDate, language)
     : t('progress-today');
-  const summaryText = t('progress-summary-for-date', { 
+  const summaryText = t('progress-summary-for-date', {
     count: sessionEntries.length,
-    date: dateLabel 
+    date: dateLabel,
   });
-  const streakText = stats.currentStreak > 0 ? '\n\n' + t('progress-streak', { days: stats.currentStreak }) : '';
+  const streakText =
+    stats.currentStreak > 0
+      ? '\n\n' + t('progress-streak', { days: stats.currentStreak })
+      : '';
   await ctx.reply(summaryText + streakText, { parse_mode: 'Markdown' });
 
   // Update pinned message
-  await updatePinnedMessage(conversation, ctx, user.id, user.timezone, user.pinnedMessageId, language, t);
+  await updatePinnedMessage(
+    conversation,
+    ctx,
+    user.id,
+    user.timezone,
+    user.pinnedMessageId,
+    language,
+    t
+  );
+}
+
+/**
+ * Format the input hint for an area with a unit (and its target, if set).
+ */
+function formatMetricHint(area: Area, t: TranslateFn): string {
+  const unit = area.unit ?? '';
+  const hint = t('progress-metric-hint', { unit });
+
+  if (area.target === null) return hint;
+
+  return (
+    hint +
+    '\n' +
+    t('progress-metric-target', {
+      target: formatMetricValue(area.target, unit),
+    })
+  );
 }
 
 /**
@@ -171,11 +254,23 @@ async function updatePinnedMessage(
   language: string,
   t: TranslateFn
 ): Promise<void> {
-  const areas = await conversation.external(() => areasService.getUserAreas(userId));
-  const stats = await conversation.external(() => getUserStatistics(userId, timezone));
-  const lastProgress = await conversation.external(() => getLastProgressDate(userId));
+  const areas = await conversation.external(() =>
+    areasService.getUserAreas(userId)
+  );
+  const stats = await conversation.external(() =>
+    getUserStatistics(userId, timezone)
+  );
+  const lastProgress = await conversation.external(() =>
+    getLastProgressDate(userId)
+  );
 
-  const messageText = formatPinnedMessage(areas, stats, lastProgress, timezone, language);
+  const messageText = formatPinnedMessage(
+    areas,
+    stats,
+    lastProgress,
+    timezone,
+    language
+  );
 
   if (pinnedMessageId) {
     try {
@@ -0,0 +1,154 @@
+import { InlineKeyboard } from 'grammy';
+import type {
+  BotContext,
+  BotConversation,
+  DateRange,
+  Language,
+} from '../../types/index.js';
+import * as userService from '../../services/user.service.js';
+import { getTodayInTimezone } from '../../services/progress.service.js';
+import { generateAnalysisPrompt } from '../../services/prompt.service.js';
+import { validateDate } from '../utils/validators.js';
+import { formatDate } from '../utils/date-formatter.js';
+import { createCancelKeyboard } from '../keyboards/main-menu.keyboard.js';
+import { createSummaryReadyKeyboard } from '../keyboards/summary.keyboard.js';
+import {
+  formatSummaryRangePeriod,
+  getSummaryReadyText,
+  sendSummaryPrompt,
+} from '../handlers/summary.handler.js';
+import { i18n } from '../../locales/index.js';
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+/**
+ * Custom date-range summary conversation flow:
+ * 1. Ask for the first day of the period (DD.MM.YY)
+ * 2. Ask for the last day (DD.MM.YY or "Today")
+ * 3. Generate the prompt for exactly that range and deliver it
+ */
+export async function summaryRangeConversation(
+  conversation: BotConversation,
+  ctx: BotContext
+): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+
+  const user = await conversation.external(() =>
+    userService.getUserByTelegramId(telegramId)
+  );
+
+  if (!user) {
+    await ctx.reply(i18n.t('en', 'error-please-start'));
+    return;
+  }
+
+  const language: Language = (user.language as Language) || 'en';
+  const t: TranslateFn = (key, params) => i18n.t(language, key, params);
+
+  // Dates are compared as calendar days in the user's timezone
+  const today = getTodayInTimezone(user.timezone);
+
+  // Step 1: First day
+  await ctx.reply(t('summary-range-start'), {
+    parse_mode: 'Markdown',
+    reply_markup: createCancelKeyboard(t),
+  });
+
+  const start = await waitForDate(conversation, ctx, today, null, t);
+  if (!start) return;
+
+  // Step 2: Last day
+  await ctx.reply(
+    t('summary-range-end', { start: formatDate(start, language) }),
+    {
+      parse_mode: 'Markdown',
+      reply_markup: new InlineKeyboard()
+        .text(t('btn-today'), 'summary_range:today')
+        .row()
+        .text(t('btn-cancel'), 'action:cancel'),
+    }
+  );
+
+  const end = await waitForDate(conversation, ctx, today, start, t);
+  if (!end) return;
+
+  // Step 3: Generate and deliver
+  const range: DateRange = { start, end };
+  const delivery = userService.getUserSummaryDelivery(user);
+  const prompt = await conversation.external(() =>
+    generateAnalysisPrompt(user, range)
+  );
+  const readyText = await conversation.external(() =>
+    getSummaryReadyText(user, delivery, t)
+  );
+
+  await ctx.reply(readyText, {
+    parse_mode: 'Markdown',
+    reply_markup: createSummaryReadyKeyboard(
+      formatSummaryRangePeriod(range),
+      delivery,
+      userService.getAvailableSummaryDeliveries(),
+      t
+    ),
+  });
+
+  await sendSummaryPrompt(ctx, user, prompt, delivery, t);
+}
+
+/**
+ * Wait for a valid date that is not in the future and, when a start date
+ * is given, not before it. Returns null if the user cancels.
+ */
+async function waitForDate(
+  conversation: BotConversation,
+  ctx: BotContext,
+  today: Date,
+  start: Date | null,
+  t: TranslateFn
+): Promise<Date | null> {
+  while (true) {
+    const response = await conversation.waitFor([
+      'message:text',
+      'callback_query:data',
+    ]);
+
+    const action = response.callbackQuery?.data;
+
+    if (action === 'action:cancel') {
+      await response.answerCallbackQuery(t('msg-cancelled'));
+      await ctx.reply(`❌ ${t('msg-cancelled')}`);
+      return null;
+    }
+
+    if (action === 'summary_range:today' && start) {
+      await response.answerCallbackQuery();
+      return today;
+    }
+
+    if (action) {
+      await response.answerCallbackQuery();
+      continue;
+    }
+
+    const validation = validateDate(response.message?.text?.trim() ?? '');
+
+    if (!validation.success) {
+      await ctx.reply(`⚠️ ${validation.error}`);
+      continue;
+    }
+
+    const date = validation.data;
+
+    if (date > today) {
+      await ctx.reply(`⚠️ ${t('summary-range-error-future')}`);
+      continue;
+    }
+
+    if (start && date < start) {
+      await ctx.reply(`⚠️ ${t('summary-range-error-order')}`);
+      continue;
+    }
+
+    return date;
+  }
+}
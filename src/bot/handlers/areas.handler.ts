@@ -1,11 +1,16 @@
 import type { BotContext } from '../../types/index.js';
 import * as userService from '../../services/user.service.js';
 import * as areasService from '../../services/areas.service.js';
-import { getUserStatistics, getLastProgressDate } from '../../services/statistics.service.js';
+import {
+  getUserStatistics,
+  getLastProgressDate,
+} from '../../services/statistics.service.js';
 import { formatPinnedMessage } from '../utils/message-formatter.js';
+import { VALIDATION_LIMITS } from '../utils/validators.js';
 import {
   createAreasListKeyboard,
   createAreaActionsKeyboard,
+  createArchivedAreaActionsKeyboard,
   createDeleteConfirmKeyboard,
   createAreasOverviewKeyboard,
 } from '../keyboards/areas.keyboard.js';
@@ -39,6 +44,19 @@ function formatAreasListLocalized(
     .join('\n\n');
 }
 
+/**
+ * Format the archived areas section (empty if there are none).
+ */
+function formatArchivedSection(
+  archived: { emoji: string | null; title: string }[],
+  t: TranslateFn
+): string {
+  if (archived.length === 0) return '';
+
+  const lines = archived.map((area) => `${area.emoji ?? '•'} ${area.title}`);
+  return `\n\n${t('areas-archived-title')}\n${lines.join('\n')}`;
+}
+
 /**
  * Handle /areas command - show areas overview.
  */
@@ -53,10 +71,12 @@ export async function handleAreasCommand(ctx: BotContext): Promise<void> {
   }
 
   const areas = await areasService.getUserAreas(user.id);
+  const archived = await areasService.getArchivedAreas(user.id);
   const areasText = formatAreasListLocalized(areas, t);
+  const archivedText = formatArchivedSection(archived, t);
 
-  await ctx.reply(`${t('areas-title')}\n\n${areasText}`, {
-    reply_markup: createAreasOverviewKeyboard(areas.length, t),
+  await ctx.reply(`${t('areas-title')}\n\n${areasText}${archivedText}`, {
+    reply_markup: createAreasOverviewKeyboard(areas.length, t, archived.length),
   });
 }
 
@@ -90,7 +110,10 @@ export async function handleEditAreas(ctx: BotContext): Promise<void> {
 /**
  * Handle area selection - show actions for selected area.
  */
-export async function handleAreaSelect(ctx: BotContext, areaId: string): Promise<void> {
+export async function handleAreaSelect(
+  ctx: BotContext,
+  areaId: string
+): Promise<void> {
   const t: TranslateFn = (key, params) => ctx.t(key, params);
   const area = await areasService.getAreaById(areaId);
 
@@ -102,16 +125,243 @@ export async function handleAreaSelect(ctx: BotContext, areaId: string): Promise
   const emoji = area.emoji ?? '📌';
   const body = area.body ? `\n→ ${area.body}` : '';
 
-  await ctx.editMessageText(`${emoji} *${area.title}*${body}\n\n${t('areas-what-to-do')}`, {
-    parse_mode: 'Markdown',
-    reply_markup: createAreaActionsKeyboard(areaId, t),
+  if (area.archivedAt) {
+    await ctx.editMessageText(
+      `${emoji} *${area.title}*${body}\n\n${t('areas-archived-label')}\n\n${t('areas-what-to-do')}`,
+      {
+        parse_mode: 'Markdown',
+        reply_markup: createArchivedAreaActionsKeyboard(areaId, t),
+      }
+    );
+    return;
+  }
+
+  const areas = await areasService.getUserAreas(area.userId);
+  const index = areas.findIndex((a) => a.id === areaId);
+  const position = t('areas-position', {
+    position: index + 1,
+    total: areas.length,
   });
+
+  await ctx.editMessageText(
+    `${emoji} *${area.title}*${body}\n\n${position}\n\n${t('areas-what-to-do')}`,
+    {
+      parse_mode: 'Markdown',
+      reply_markup: createAreaActionsKeyboard(areaId, t, {
+        canMoveUp: index > 0,
+        canMoveDown: index < areas.length - 1,
+      }),
+    }
+  );
+}
+
+/**
+ * Handle move area action - move the area one position up or down.
+ */
+export async function handleMoveArea(
+  ctx: BotContext,
+  areaId: string,
+  direction: 'up' | 'down'
+): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  const area = await areasService.getAreaById(areaId);
+
+  if (!area) {
+    await ctx.answerCallbackQuery(t('error-area-not-found'));
+    return;
+  }
+
+  // Verify ownership
+  if (area.userId !== user.id) {
+    await ctx.answerCallbackQuery(t('error-access-denied'));
+    return;
+  }
+
+  const areas = await areasService.getUserAreas(user.id);
+  const position = areas.findIndex((a) => a.id === areaId) + 1;
+  const toPosition = direction === 'up' ? position - 1 : position + 1;
+  const moved =
+    position > 0 && (await areasService.moveArea(areaId, toPosition));
+
+  if (!moved) {
+    await ctx.reply(t('error-area-not-found'));
+    return;
+  }
+
+  await handleAreaSelect(ctx, areaId);
+
+  // Update pinned message
+  await updatePinnedMessage(
+    ctx,
+    user.id,
+    user.timezone,
+    user.pinnedMessageId,
+    user.language
+  );
+}
+
+/**
+ * Handle archived areas action - show archived areas for selection.
+ */
+export async function handleArchivedAreas(ctx: BotContext): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  const archived = await areasService.getArchivedAreas(user.id);
+
+  if (archived.length === 0) {
+    const areas = await areasService.getUserAreas(user.id);
+    await ctx.editMessageText(t('areas-archived-empty'), {
+      reply_markup: createAreasOverviewKeyboard(areas.length, t),
+    });
+    return;
+  }
+
+  await ctx.editMessageText(t('areas-archived-select'), {
+    reply_markup: createAreasListKeyboard(archived, 'area:select', t),
+  });
+}
+
+/**
+ * Handle archive area action - hide the area but keep its history.
+ */
+export async function handleArchiveArea(
+  ctx: BotContext,
+  areaId: string
+): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  const area = await areasService.getAreaById(areaId);
+
+  if (!area) {
+    await ctx.answerCallbackQuery(t('error-area-not-found'));
+    return;
+  }
+
+  // Verify ownership
+  if (area.userId !== user.id) {
+    await ctx.answerCallbackQuery(t('error-access-denied'));
+    return;
+  }
+
+  await areasService.archiveArea(areaId);
+
+  const areas = await areasService.getUserAreas(user.id);
+  const archived = await areasService.getArchivedAreas(user.id);
+  const areasText = formatAreasListLocalized(areas, t);
+
+  await ctx.editMessageText(
+    `✅ ${t('areas-archived-success', { title: area.title })}\n\n${t('areas-title')}\n\n${areasText}`,
+    {
+      reply_markup: createAreasOverviewKeyboard(
+        areas.length,
+        t,
+        archived.length
+      ),
+    }
+  );
+
+  // Update pinned message
+  await updatePinnedMessage(
+    ctx,
+    user.id,
+    user.timezone,
+    user.pinnedMessageId,
+    user.language
+  );
+}
+
+/**
+ * Handle restore area action - bring an archived area back.
+ */
+export async function handleRestoreArea(
+  ctx: BotContext,
+  areaId: string
+): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  const area = await areasService.getAreaById(areaId);
+
+  if (!area) {
+    await ctx.answerCallbackQuery(t('error-area-not-found'));
+    return;
+  }
+
+  // Verify ownership
+  if (area.userId !== user.id) {
+    await ctx.answerCallbackQuery(t('error-access-denied'));
+    return;
+  }
+
+  if (!(await areasService.canAddArea(user.id))) {
+    await ctx.reply(
+      `⚠️ ${t('error-restore-max-areas', { max: VALIDATION_LIMITS.MAX_AREAS_PER_USER })}`
+    );
+    return;
+  }
+
+  await areasService.restoreArea(areaId);
+
+  const areas = await areasService.getUserAreas(user.id);
+  const archived = await areasService.getArchivedAreas(user.id);
+  const areasText = formatAreasListLocalized(areas, t);
+
+  await ctx.editMessageText(
+    `✅ ${t('areas-restored-success', { title: area.title })}\n\n${t('areas-title')}\n\n${areasText}`,
+    {
+      reply_markup: createAreasOverviewKeyboard(
+        areas.length,
+        t,
+        archived.length
+      ),
+    }
+  );
+
+  // Update pinned message
+  await updatePinnedMessage(
+    ctx,
+    user.id,
+    user.timezone,
+    user.pinnedMessageId,
+    user.language
+  );
 }
 
 /**
  * Handle delete area action - show confirmation.
  */
-export async function handleDeleteArea(ctx: BotContext, areaId: string): Promise<void> {
+export async function handleDeleteArea(
+  ctx: BotContext,
+  areaId: string
+): Promise<void> {
   const t: TranslateFn = (key, params) => ctx.t(key, params);
   const area = await areasService.getAreaById(areaId);
 
@@ -128,7 +378,10 @@ export async function handleDeleteArea(ctx: BotContext, areaId: string): Promise
 /**
  * Handle confirm delete - actually delete the area.
  */
-export async function handleConfirmDelete(ctx: BotContext, areaId: string): Promise<void> {
+export async function handleConfirmDelete(
+  ctx: BotContext,
+  areaId: string
+): Promise<void> {
   const telegramId = BigInt(ctx.from?.id ?? 0);
   const user = await userService.getUserByTelegramId(telegramId);
   const t: TranslateFn = (key, params) => ctx.t(key, params);
@@ -156,21 +409,34 @@ export async function handleConfirmDelete(ctx: BotContext, areaId: string): Prom
 
   // Update the message with remaining areas
   const areas = await areasService.getUserAreas(user.id);
+  const archived = await areasService.getArchivedAreas(user.id);
 
   if (areas.length === 0) {
     await ctx.editMessageText(`✅ ${t('areas-deleted-no-remaining')}`, {
-      reply_markup: createAreasOverviewKeyboard(0, t),
+      reply_markup: createAreasOverviewKeyboard(0, t, archived.length),
     });
   } else {
     const areasText = formatAreasListLocalized(areas, t);
     await ctx.editMessageText(
       `✅ ${t('areas-deleted-success')}\n\n${t('areas-remaining')}\n\n${areasText}`,
-      { reply_markup: createAreasOverviewKeyboard(areas.length, t) }
+      {
+        reply_markup: createAreasOverviewKeyboard(
+          areas.length,
+          t,
+          archived.length
+        ),
+      }
     );
   }
 
   // Update pinned message
-  await updatePinnedMessage(ctx, user.id, user.timezone, user.pinnedMessageId, user.language);
+  await updatePinnedMessage(
+    ctx,
+    user.id,
+    user.timezone,
+    user.pinnedMessageId,
+    user.language
+  );
 }
 
 /**
@@ -192,6 +458,26 @@ export async function handleAreaCallbacks(ctx: BotContext): Promise<void> {
       if (areaId) await handleAreaSelect(ctx, areaId);
       break;
 
+    case 'move_up':
+      if (areaId) await handleMoveArea(ctx, areaId, 'up');
+      break;
+
+    case 'move_down':
+      if (areaId) await handleMoveArea(ctx, areaId, 'down');
+      break;
+
+    case 'archived':
+      await handleArchivedAreas(ctx);
+      break;
+
+    case 'archive':
+      if (areaId) await handleArchiveArea(ctx, areaId);
+      break;
+
+    case 'restore':
+      if (areaId) await handleRestoreArea(ctx, areaId);
+      break;
+
     case 'delete':
       if (areaId) await handleDeleteArea(ctx, areaId);
       break;
@@ -226,12 +512,23 @@ async function updatePinnedMessage(
   const lastProgress = await getLastProgressDate(userId);
   const t = (key: string, params?: Record<string, any>) => ctx.t(key, params);
 
-  const messageText = formatPinnedMessage(areas, stats, lastProgress, timezone, language);
+  const messageText = formatPinnedMessage(
+    areas,
+    stats,
+    lastProgress,
+    timezone,
+    language
+  );
 
   try {
-    await ctx.api.editMessageText(ctx.chat?.id ?? 0, Number(pinnedMessageId), messageText, {
-      reply_markup: createMainMenuKeyboard(t),
-    });
+    await ctx.api.editMessageText(
+      ctx.chat?.id ?? 0,
+      Number(pinnedMessageId),
+      messageText,
+      {
+        reply_markup: createMainMenuKeyboard(t),
+      }
+    );
   } catch {
     // Edit might fail, that's okay
   }
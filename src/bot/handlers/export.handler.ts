@@ -0,0 +1,68 @@
+import { InlineKeyboard, InputFile } from 'grammy';
+import type { BotContext, ExportFormat } from '../../types/index.js';
+import * as userService from '../../services/user.service.js';
+import { exportUserData } from '../../services/export.service.js';
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'md'];
+
+/**
+ * Handle /export command - choose an export format.
+ */
+export async function handleExportCommand(ctx: BotContext): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.reply(t('error-please-start'));
+    return;
+  }
+
+  await ctx.reply(`${t('export-title')}\n\n${t('export-choose-format')}`, {
+    parse_mode: 'Markdown',
+    reply_markup: new InlineKeyboard()
+      .text(t('btn-export-json'), 'export:json')
+      .text(t('btn-export-csv'), 'export:csv')
+      .text(t('btn-export-md'), 'export:md')
+      .row()
+      .text(t('btn-back'), 'action:back'),
+  });
+}
+
+/**
+ * Handle export callbacks - build the file and send it as a document.
+ */
+export async function handleExportCallbacks(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!data?.startsWith('export:')) return;
+
+  const exportFormat = data.replace('export:', '') as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(exportFormat)) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  await ctx.answerCallbackQuery(t('export-generating'));
+
+  const { filename, content } = await exportUserData(user, exportFormat);
+
+  await ctx.replyWithDocument(
+    new InputFile(Buffer.from(content, 'utf-8'), filename),
+    { caption: t('export-ready') }
+  );
+
+  ctx.logger.info({ format: exportFormat }, 'Data exported');
+}
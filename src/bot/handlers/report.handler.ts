@@ -0,0 +1,109 @@
+import { InlineKeyboard } from 'grammy';
+import type { BotContext, ReportPeriod } from '../../types/index.js';
+import * as userService from '../../services/user.service.js';
+import {
+  generateReport,
+  getReportRange,
+} from '../../services/report.service.js';
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+const REPORT_PERIODS: ReportPeriod[] = ['month', 'year'];
+
+/**
+ * Create the keyboard for switching between this and last month/year.
+ * Callback data: report:<month|year>:<offset> (0 = current, 1 = previous).
+ */
+function createReportKeyboard(t: TranslateFn): InlineKeyboard {
+  return new InlineKeyboard()
+    .text(t('btn-report-this-month'), 'report:month:0')
+    .text(t('btn-report-last-month'), 'report:month:1')
+    .row()
+    .text(t('btn-report-this-year'), 'report:year:0')
+    .text(t('btn-report-last-year'), 'report:year:1');
+}
+
+/**
+ * Handle /report command - show the retrospective for the current
+ * month (default) or year: /report month|year.
+ */
+export async function handleReportCommand(ctx: BotContext): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.reply(t('error-please-start'));
+    return;
+  }
+
+  const arg = (typeof ctx.match === 'string' ? ctx.match : '')
+    .trim()
+    .toLowerCase();
+  const period = arg
+    ? REPORT_PERIODS.find((option) => option === arg)
+    : 'month';
+
+  if (!period) {
+    await ctx.reply(t('report-usage'), { parse_mode: 'Markdown' });
+    return;
+  }
+
+  const report = await generateReport(
+    user,
+    period,
+    getReportRange(period, user.timezone)
+  );
+
+  await ctx.reply(report, {
+    parse_mode: 'Markdown',
+    reply_markup: createReportKeyboard(t),
+  });
+
+  ctx.logger.info({ period }, 'Report generated');
+}
+
+/**
+ * Handle report callbacks - replace the report with another period.
+ */
+export async function handleReportCallbacks(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  // Format: report:<month|year>:<offset>
+  const [, periodValue, offsetValue] = data?.split(':') ?? [];
+  const period = REPORT_PERIODS.find((option) => option === periodValue);
+  const offset = offsetValue === '1' ? 1 : offsetValue === '0' ? 0 : null;
+
+  if (!period || offset === null) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const report = await generateReport(
+    user,
+    period,
+    getReportRange(period, user.timezone, offset)
+  );
+
+  try {
+    await ctx.editMessageText(report, {
+      parse_mode: 'Markdown',
+      reply_markup: createReportKeyboard(t),
+    });
+  } catch {
+    // Same period tapped again: the message is unchanged
+  }
+
+  ctx.logger.info({ period, offset }, 'Report generated');
+}
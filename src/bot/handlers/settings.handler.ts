@@ -1,6 +1,7 @@
 import type { BotContext } from '../../types/index.js';
 import * as userService from '../../services/user.service.js';
 import { validateTimezone, validateTime } from '../utils/validators.js';
+import { formatWeekday } from '../utils/date-formatter.js';
 import {
   createSettingsMenuKeyboard,
   createTimezoneKeyboard,
@@ -8,36 +9,133 @@ import {
   createDigestTimesKeyboard,
   createResetConfirmKeyboard,
   createLanguageKeyboard,
+  createSummaryDeliveryKeyboard,
+  createWeeklyReviewKeyboard,
+  createReportsKeyboard,
+  createStreakWarningTimeKeyboard,
+  createRestDaysKeyboard,
 } from '../keyboards/settings.keyboard.js';
 import { isValidLanguage, LANGUAGE_NAMES } from '../../locales/index.js';
+import type { Language } from '../../locales/index.js';
 
 type TranslateFn = (key: string, params?: Record<string, any>) => string;
 
+/**
+ * Format the weekly review schedule, e.g. "Sun at 19:00" (or "Off").
+ */
+function formatWeeklyReviewSchedule(
+  user: {
+    language: string;
+    weeklyReviewDay: number;
+    weeklyReviewTime: string | null;
+  },
+  t: TranslateFn
+): string {
+  if (!user.weeklyReviewTime) return t('weekly-review-off');
+  const day = formatWeekday(
+    user.weeklyReviewDay,
+    (user.language || 'en') as Language
+  );
+  return t('weekly-review-schedule', { day, time: user.weeklyReviewTime });
+}
+
+/**
+ * Format the streak warning settings screen.
+ */
+function formatStreakWarningSettings(
+  time: string | null,
+  t: TranslateFn
+): string {
+  return `${t('streak-warning-title')}\n\n${t('streak-warning-description')}\n\n${t('streak-warning-current', { time: time ?? t('streak-warning-off') })}`;
+}
+
+/**
+ * Format planned rest days, e.g. "Sat, Sun" (or "None").
+ */
+function formatRestDays(
+  restDays: number[],
+  language: Language,
+  t: TranslateFn
+): string {
+  if (restDays.length === 0) return t('rest-days-none');
+  return restDays.map((day) => formatWeekday(day, language)).join(', ');
+}
+
+/**
+ * Format the rest days settings screen.
+ */
+function formatRestDaysSettings(
+  restDays: number[],
+  language: Language,
+  t: TranslateFn
+): string {
+  return `${t('rest-days-title')}\n\n${t('rest-days-description', { max: userService.MAX_REST_DAYS })}\n\n${t('rest-days-current', { days: formatRestDays(restDays, language, t) })}`;
+}
+
+/**
+ * Format the retrospective reports settings screen.
+ */
+function formatReportsSettings(enabled: boolean, t: TranslateFn): string {
+  return `${t('reports-title')}\n\n${t('reports-description')}\n\n${t('reports-current', { status: t(enabled ? 'reports-on' : 'reports-off') })}`;
+}
+
 /**
  * Format settings menu using i18n.
  */
 function formatSettingsMenuLocalized(
-  user: { timezone: string; progressReminderTime: string | null; language: string },
+  user: {
+    timezone: string;
+    progressReminderTime: string | null;
+    streakWarningTime: string | null;
+    restDays: string | null;
+    language: string;
+    summaryDelivery: string;
+    weeklyReviewDay: number;
+    weeklyReviewTime: string | null;
+    retrospectiveReports: boolean;
+  },
   digestTimes: string[],
   t: TranslateFn
 ): string {
   const lines: string[] = [t('settings-title'), ''];
 
-  lines.push(`🌍 *${t('settings-language')}:* ${user.language === 'ru' ? 'Русский' : 'English'}`);
+  lines.push(
+    `🌍 *${t('settings-language')}:* ${user.language === 'ru' ? 'Русский' : 'English'}`
+  );
   lines.push(`🌐 *${t('settings-timezone')}:* ${user.timezone}`);
 
   if (digestTimes.length > 0) {
     lines.push(`📋 *${t('settings-digest')}:* ${digestTimes.join(', ')}`);
   } else {
-    lines.push(`📋 *${t('settings-digest')}:* ${t('digest-current', { times: 'none' })}`);
+    lines.push(
+      `📋 *${t('settings-digest')}:* ${t('digest-current', { times: 'none' })}`
+    );
   }
 
   if (user.progressReminderTime) {
     lines.push(`📝 *${t('settings-reminder')}:* ${user.progressReminderTime}`);
   } else {
-    lines.push(`📝 *${t('settings-reminder')}:* ${t('reminder-current', { time: 'none' })}`);
+    lines.push(
+      `📝 *${t('settings-reminder')}:* ${t('reminder-current', { time: 'none' })}`
+    );
   }
 
+  lines.push(
+    `🛡 *${t('settings-streak-warning')}:* ${user.streakWarningTime ?? t('streak-warning-off')}`
+  );
+  lines.push(
+    `🛌 *${t('settings-rest-days')}:* ${formatRestDays(userService.parseRestDays(user.restDays), (user.language || 'en') as Language, t)}`
+  );
+  lines.push(
+    `📅 *${t('settings-weekly-review')}:* ${formatWeeklyReviewSchedule(user, t)}`
+  );
+  lines.push(
+    `📆 *${t('settings-reports')}:* ${t(user.retrospectiveReports ? 'reports-on' : 'reports-off')}`
+  );
+  lines.push(
+    `📄 *${t('settings-summary-delivery')}:* ${t(`summary-delivery-${user.summaryDelivery}`)}`
+  );
+
   return lines.join('\n');
 }
 
@@ -81,18 +179,19 @@ export async function handleSettingsNavigation(ctx: BotContext): Promise<void> {
 
   switch (data) {
     case 'action:settings':
-      await ctx.editMessageText(formatSettingsMenuLocalized(user, digestTimes, t), {
-        parse_mode: 'Markdown',
-        reply_markup: createSettingsMenuKeyboard(t),
-      });
+      await ctx.editMessageText(
+        formatSettingsMenuLocalized(user, digestTimes, t),
+        {
+          parse_mode: 'Markdown',
+          reply_markup: createSettingsMenuKeyboard(t),
+        }
+      );
       break;
 
     case 'settings:language':
       const currentLang = user.language || 'en';
       const langName =
-        currentLang === 'en'
-          ? LANGUAGE_NAMES.en.en
-          : LANGUAGE_NAMES.ru.ru;
+        currentLang === 'en' ? LANGUAGE_NAMES.en.en : LANGUAGE_NAMES.ru.ru;
       await ctx.editMessageText(
         `${t('language-title')}\n\n${t('language-current', { language: langName })}\n\n${t('language-select')}`,
         {
@@ -103,10 +202,13 @@ export async function handleSettingsNavigation(ctx: BotContext): Promise<void> {
       break;
 
     case 'settings:timezone':
-      await ctx.editMessageText(`${t('timezone-title')}\n\n${t('timezone-current', { timezone: user.timezone })}`, {
-        parse_mode: 'Markdown',
-        reply_markup: createTimezoneKeyboard(t),
-      });
+      await ctx.editMessageText(
+        `${t('timezone-title')}\n\n${t('timezone-current', { timezone: user.timezone })}`,
+        {
+          parse_mode: 'Markdown',
+          reply_markup: createTimezoneKeyboard(t),
+        }
+      );
       break;
 
     case 'settings:digest':
@@ -129,6 +231,76 @@ export async function handleSettingsNavigation(ctx: BotContext): Promise<void> {
       );
       break;
 
+    case 'settings:streak_warning':
+      await ctx.editMessageText(
+        formatStreakWarningSettings(user.streakWarningTime, t),
+        {
+          parse_mode: 'Markdown',
+          reply_markup: createStreakWarningTimeKeyboard(
+            user.streakWarningTime,
+            t
+          ),
+        }
+      );
+      break;
+
+    case 'settings:rest_days':
+      await ctx.editMessageText(
+        formatRestDaysSettings(
+          userService.parseRestDays(user.restDays),
+          (user.language || 'en') as Language,
+          t
+        ),
+        {
+          parse_mode: 'Markdown',
+          reply_markup: createRestDaysKeyboard(
+            userService.parseRestDays(user.restDays),
+            (user.language || 'en') as Language,
+            t
+          ),
+        }
+      );
+      break;
+
+    case 'settings:weekly_review':
+      await ctx.editMessageText(
+        `${t('weekly-review-title')}\n\n${t('weekly-review-description')}\n\n${t('weekly-review-current', { schedule: formatWeeklyReviewSchedule(user, t) })}`,
+        {
+          parse_mode: 'Markdown',
+          reply_markup: createWeeklyReviewKeyboard(
+            user.weeklyReviewDay,
+            user.weeklyReviewTime,
+            (user.language || 'en') as Language,
+            t
+          ),
+        }
+      );
+      break;
+
+    case 'settings:reports':
+      await ctx.editMessageText(
+        formatReportsSettings(user.retrospectiveReports, t),
+        {
+          parse_mode: 'Markdown',
+          reply_markup: createReportsKeyboard(user.retrospectiveReports, t),
+        }
+      );
+      break;
+
+    case 'settings:summary_delivery':
+      await ctx.editMessageText(
+        `${t('summary-delivery-title')}\n\n${t('summary-delivery-description')}`,
+        {
+          parse_mode: 'Markdown',
+          reply_markup: createSummaryDeliveryKeyboard(
+            userService.getAvailableSummaryDeliveries(),
+            userService.getUserSummaryDelivery(user),
+            t
+          ),
+        }
+      );
+      break;
+
     case 'settings:reset':
       await ctx.editMessageText(
         `${t('reset-title')}\n\n${t('reset-warning')}\n${t('reset-warning-areas')}\n${t('reset-warning-progress')}\n${t('reset-warning-settings')}`,
@@ -275,7 +447,10 @@ export async function handleTimeSelection(ctx: BotContext): Promise<void> {
   const time = parts.slice(2).join(':'); // Handle HH:mm format
 
   if (time === 'custom') {
-    const promptKey = type === 'evening' ? 'settings.reminder-prompt' : 'settings.digest-prompt';
+    const promptKey =
+      type === 'evening'
+        ? 'settings.reminder-prompt'
+        : 'settings.digest-prompt';
     await ctx.editMessageText(t(promptKey), { parse_mode: 'Markdown' });
     return;
   }
@@ -344,6 +519,253 @@ export async function handleTimeSelection(ctx: BotContext): Promise<void> {
   }
 }
 
+/**
+ * Handle streak warning time changes: time (turns it on) and disable.
+ */
+export async function handleStreakWarningActions(
+  ctx: BotContext
+): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user || !data?.startsWith('streak_warning:')) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  // Format: streak_warning:<time|disable>[:<HH:mm>]
+  const [, action, ...rest] = data.split(':');
+  const value = rest.join(':'); // Handle HH:mm format
+
+  let updatedUser;
+
+  if (action === 'time') {
+    if (!validateTime(value).success) {
+      await ctx.answerCallbackQuery(t('error-invalid-time'));
+      return;
+    }
+    updatedUser = await userService.updateStreakWarningTime(user.id, value);
+  } else if (action === 'disable') {
+    updatedUser = await userService.updateStreakWarningTime(user.id, null);
+  } else {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const status = updatedUser.streakWarningTime
+    ? t('streak-warning-updated', { time: updatedUser.streakWarningTime })
+    : t('streak-warning-disabled');
+
+  await ctx.editMessageText(
+    `✅ ${status}\n\n${formatStreakWarningSettings(updatedUser.streakWarningTime, t)}`,
+    {
+      parse_mode: 'Markdown',
+      reply_markup: createStreakWarningTimeKeyboard(
+        updatedUser.streakWarningTime,
+        t
+      ),
+    }
+  );
+
+  ctx.logger.info(
+    { time: updatedUser.streakWarningTime },
+    'Streak warning time updated'
+  );
+}
+
+/**
+ * Handle weekly review schedule changes: day, time (turns it on) and disable.
+ */
+export async function handleWeeklyReviewActions(
+  ctx: BotContext
+): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user || !data?.startsWith('weekly_review:')) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  // Format: weekly_review:<day|time|disable>[:<value>]
+  const [, action, ...rest] = data.split(':');
+  const value = rest.join(':'); // Handle HH:mm format
+
+  let updatedUser;
+
+  if (action === 'day') {
+    const day = parseInt(value, 10);
+    if (isNaN(day) || day < 1 || day > 7) {
+      await ctx.answerCallbackQuery(t('error-something-wrong'));
+      return;
+    }
+    updatedUser = await userService.updateWeeklyReview(user.id, { day });
+  } else if (action === 'time') {
+    if (!validateTime(value).success) {
+      await ctx.answerCallbackQuery(t('error-invalid-time'));
+      return;
+    }
+    updatedUser = await userService.updateWeeklyReview(user.id, {
+      time: value,
+    });
+  } else if (action === 'disable') {
+    updatedUser = await userService.updateWeeklyReview(user.id, { time: null });
+  } else {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const schedule = formatWeeklyReviewSchedule(updatedUser, t);
+  const status = updatedUser.weeklyReviewTime
+    ? `✅ ${t('weekly-review-updated', { schedule })}`
+    : action === 'disable'
+      ? `✅ ${t('weekly-review-disabled')}`
+      : t('weekly-review-pick-time');
+
+  await ctx.editMessageText(
+    `${status}\n\n${t('weekly-review-title')}\n\n${t('weekly-review-description')}\n\n${t('weekly-review-current', { schedule })}`,
+    {
+      parse_mode: 'Markdown',
+      reply_markup: createWeeklyReviewKeyboard(
+        updatedUser.weeklyReviewDay,
+        updatedUser.weeklyReviewTime,
+        (updatedUser.language || 'en') as Language,
+        t
+      ),
+    }
+  );
+
+  ctx.logger.info(
+    { day: updatedUser.weeklyReviewDay, time: updatedUser.weeklyReviewTime },
+    'Weekly review schedule updated'
+  );
+}
+
+/**
+ * Handle rest day toggles.
+ */
+export async function handleRestDaysActions(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  // Format: rest_days:toggle:<isoDay>
+  const day = parseInt(data?.replace('rest_days:toggle:', '') ?? '', 10);
+
+  if (
+    !user ||
+    !data?.startsWith('rest_days:toggle:') ||
+    isNaN(day) ||
+    day < 1 ||
+    day > 7
+  ) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  const result = await userService.toggleRestDay(user.id, day);
+
+  if (!result.success) {
+    await ctx.answerCallbackQuery(
+      t('rest-days-max', { max: userService.MAX_REST_DAYS })
+    );
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const restDays = userService.parseRestDays(result.user.restDays);
+  const language = (result.user.language || 'en') as Language;
+
+  await ctx.editMessageText(
+    `✅ ${t('rest-days-updated')}\n\n${formatRestDaysSettings(restDays, language, t)}`,
+    {
+      parse_mode: 'Markdown',
+      reply_markup: createRestDaysKeyboard(restDays, language, t),
+    }
+  );
+
+  ctx.logger.info({ restDays }, 'Rest days updated');
+}
+
+/**
+ * Handle retrospective reports on/off.
+ */
+export async function handleReportsActions(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user || (data !== 'reports:on' && data !== 'reports:off')) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const enabled = data === 'reports:on';
+  const updatedUser = await userService.updateRetrospectiveReports(
+    user.id,
+    enabled
+  );
+
+  await ctx.editMessageText(
+    `✅ ${t(enabled ? 'reports-enabled' : 'reports-disabled')}\n\n${formatReportsSettings(enabled, t)}`,
+    {
+      parse_mode: 'Markdown',
+      reply_markup: createReportsKeyboard(updatedUser.retrospectiveReports, t),
+    }
+  );
+
+  ctx.logger.info({ enabled }, 'Retrospective reports updated');
+}
+
+/**
+ * Handle summary prompt delivery selection.
+ */
+export async function handleSummaryDeliverySelection(
+  ctx: BotContext
+): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  const delivery = userService
+    .getAvailableSummaryDeliveries()
+    .find((option) => `summary_delivery:${option}` === data);
+
+  if (!user || !delivery) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const updatedUser = await userService.updateSummaryDelivery(
+    user.id,
+    delivery
+  );
+  const digestTimes = userService.getUserDigestTimes(updatedUser);
+  await ctx.editMessageText(
+    `✅ ${t('summary-delivery-updated')}\n\n${formatSettingsMenuLocalized(updatedUser, digestTimes, t)}`,
+    {
+      parse_mode: 'Markdown',
+      reply_markup: createSettingsMenuKeyboard(t),
+    }
+  );
+}
+
 /**
  * Handle reset confirmation.
  */
@@ -453,6 +875,16 @@ export async function handleSettingsCallbacks(ctx: BotContext): Promise<void> {
     await handleTimeSelection(ctx);
   } else if (data.startsWith('digest:')) {
     await handleDigestTimeActions(ctx);
+  } else if (data.startsWith('streak_warning:')) {
+    await handleStreakWarningActions(ctx);
+  } else if (data.startsWith('rest_days:')) {
+    await handleRestDaysActions(ctx);
+  } else if (data.startsWith('weekly_review:')) {
+    await handleWeeklyReviewActions(ctx);
+  } else if (data.startsWith('reports:')) {
+    await handleReportsActions(ctx);
+  } else if (data.startsWith('summary_delivery:')) {
+    await handleSummaryDeliverySelection(ctx);
   } else if (data.startsWith('reset:')) {
     await handleResetConfirmation(ctx);
   }
@@ -0,0 +1,286 @@
+import { InputFile, InputMediaBuilder } from 'grammy';
+import type { Area } from '@prisma/client';
+import type {
+  BotContext,
+  DetailedStats,
+  Heatmap,
+  Language,
+} from '../../types/index.js';
+import * as userService from '../../services/user.service.js';
+import * as areasService from '../../services/areas.service.js';
+import { getDetailedStats } from '../../services/statistics.service.js';
+import { generateHeatmap } from '../../services/heatmap.service.js';
+import {
+  createHeatmapKeyboard,
+  createStatsKeyboard,
+  STATS_PERIOD_DAYS,
+} from '../keyboards/stats.keyboard.js';
+import { formatDate, formatWeekday } from '../utils/date-formatter.js';
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+/**
+ * Default /stats period in days.
+ */
+const DEFAULT_STATS_DAYS = 30;
+
+/**
+ * Format a 0-1 ratio as a whole percentage.
+ */
+function toPercent(ratio: number): number {
+  return Math.round(ratio * 100);
+}
+
+/**
+ * Format the /stats message for a period, overall or for one area.
+ */
+function formatStatsMessage(
+  stats: DetailedStats,
+  area: Area | null,
+  days: number,
+  language: Language,
+  t: TranslateFn
+): string {
+  const title = area
+    ? `${area.emoji ?? '📌'} ${area.title}`
+    : t('stats-all-areas');
+  const streakKey = stats.streakUnit === 'weeks' ? 'stats-weeks' : 'stats-days';
+
+  const lines: string[] = [
+    `${t('stats-title')} — ${title}`,
+    `_${t('stats-period', { days })} · ${formatDate(stats.range.start, language)} – ${formatDate(stats.range.end, language)}_`,
+    '',
+    t('stats-current-streak', {
+      value: t(streakKey, { count: stats.currentStreak }),
+    }),
+    t('stats-longest-streak', {
+      value: t(streakKey, { count: stats.longestStreak }),
+    }),
+    stats.completionRate !== null
+      ? t('stats-completion', { rate: toPercent(stats.completionRate) })
+      : t('stats-completion-none'),
+    t('stats-entries', {
+      entries: stats.totalEntries,
+      days: stats.activeDays,
+    }),
+  ];
+
+  if (stats.averageEntriesPerDay !== null) {
+    lines.push(
+      t('stats-average', {
+        average: Math.round(stats.averageEntriesPerDay * 10) / 10,
+      })
+    );
+  }
+
+  if (stats.bestWeekday !== null && stats.worstWeekday !== null) {
+    lines.push(
+      t('stats-weekdays', {
+        best: formatWeekday(stats.bestWeekday, language),
+        worst: formatWeekday(stats.worstWeekday, language),
+      })
+    );
+  }
+
+  if (stats.checkInRatio !== null) {
+    lines.push(
+      t('stats-check-in-ratio', { rate: toPercent(stats.checkInRatio) })
+    );
+  }
+
+  if (stats.frozenDays > 0) {
+    lines.push(t('stats-frozen-days', { count: stats.frozenDays }));
+  }
+
+  if (stats.areaShares.length > 0) {
+    lines.push('', t('stats-shares'));
+    stats.areaShares.forEach(({ area: shareArea, entries, share }) => {
+      lines.push(
+        `${shareArea.emoji ?? '📌'} ${shareArea.title}: ${toPercent(share)}% (${entries})`
+      );
+    });
+  }
+
+  if (stats.totalEntries === 0) {
+    lines.push('', t('stats-no-entries'));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Handle /stats command - show detailed statistics for the last 30 days.
+ */
+export async function handleStatsCommand(ctx: BotContext): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.reply(t('error-please-start'));
+    return;
+  }
+
+  const language = (user.language || 'en') as Language;
+  const [areas, stats] = await Promise.all([
+    areasService.getUserAreas(user.id),
+    getDetailedStats(user.id, user.timezone, DEFAULT_STATS_DAYS),
+  ]);
+
+  await ctx.reply(
+    formatStatsMessage(stats, null, DEFAULT_STATS_DAYS, language, t),
+    {
+      parse_mode: 'Markdown',
+      reply_markup: createStatsKeyboard(areas, DEFAULT_STATS_DAYS, null, t),
+    }
+  );
+}
+
+/**
+ * Handle stats callbacks - switch the period or area in place.
+ */
+export async function handleStatsCallbacks(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  // Format: stats:<days>:<all|areaId>
+  const [, daysValue, target] = data?.split(':') ?? [];
+  const days = STATS_PERIOD_DAYS.find((period) => `${period}` === daysValue);
+
+  if (!user || !days || !target) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  const area = target === 'all' ? null : await areasService.getAreaById(target);
+
+  if (target !== 'all' && area?.userId !== user.id) {
+    await ctx.answerCallbackQuery(t('error-area-not-found'));
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const language = (user.language || 'en') as Language;
+  const [areas, stats] = await Promise.all([
+    areasService.getUserAreas(user.id),
+    getDetailedStats(user.id, user.timezone, days, area?.id),
+  ]);
+
+  try {
+    await ctx.editMessageText(
+      formatStatsMessage(stats, area, days, language, t),
+      {
+        parse_mode: 'Markdown',
+        reply_markup: createStatsKeyboard(areas, days, area?.id ?? null, t),
+      }
+    );
+  } catch {
+    // Same selection tapped again: the message is unchanged
+  }
+}
+
+/**
+ * Format the heatmap caption: what it shows, its period and a legend
+ * with the number of days of each kind.
+ */
+function formatHeatmapCaption(
+  heatmap: Heatmap,
+  area: Area | null,
+  language: Language,
+  t: TranslateFn
+): string {
+  const title = area
+    ? `${area.emoji ?? '📌'} ${area.title}`
+    : t('heatmap-all-areas');
+
+  const lines = [
+    `${t('heatmap-title')} — ${title}`,
+    `_${formatDate(heatmap.range.start, language)} – ${formatDate(heatmap.range.end, language)}_`,
+    '',
+    t('heatmap-progress-days', { count: heatmap.progressDays }),
+    t('heatmap-check-in-days', { count: heatmap.checkInDays }),
+  ];
+
+  // Freezes are rare, so they're only in the legend when there are any
+  if (heatmap.frozenDays > 0) {
+    lines.push(t('heatmap-frozen-days', { count: heatmap.frozenDays }));
+  }
+
+  lines.push(t('heatmap-no-activity'));
+
+  return lines.join('\n');
+}
+
+/**
+ * Handle /heatmap command - send the activity heatmap for all areas.
+ */
+export async function handleHeatmapCommand(ctx: BotContext): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.reply(t('error-please-start'));
+    return;
+  }
+
+  const language = (user.language || 'en') as Language;
+  const [areas, heatmap] = await Promise.all([
+    areasService.getUserAreas(user.id),
+    generateHeatmap(user.id, user.timezone),
+  ]);
+
+  await ctx.replyWithPhoto(new InputFile(heatmap.image, 'heatmap.png'), {
+    caption: formatHeatmapCaption(heatmap, null, language, t),
+    parse_mode: 'Markdown',
+    reply_markup: createHeatmapKeyboard(areas, null, t),
+  });
+
+  ctx.logger.info('Heatmap generated');
+}
+
+/**
+ * Handle heatmap callbacks - replace the image with another area's heatmap.
+ */
+export async function handleHeatmapCallbacks(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  // Format: heatmap:<all|areaId>
+  const target = data?.replace('heatmap:', '');
+
+  if (!user || !target) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  const area = target === 'all' ? null : await areasService.getAreaById(target);
+
+  if (target !== 'all' && area?.userId !== user.id) {
+    await ctx.answerCallbackQuery(t('error-area-not-found'));
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const language = (user.language || 'en') as Language;
+  const [areas, heatmap] = await Promise.all([
+    areasService.getUserAreas(user.id),
+    generateHeatmap(user.id, user.timezone, area?.id),
+  ]);
+
+  await ctx.editMessageMedia(
+    InputMediaBuilder.photo(new InputFile(heatmap.image, 'heatmap.png'), {
+      caption: formatHeatmapCaption(heatmap, area, language, t),
+      parse_mode: 'Markdown',
+    }),
+    { reply_markup: createHeatmapKeyboard(areas, area?.id ?? null, t) }
+  );
+
+  ctx.logger.info({ areaId: area?.id }, 'Heatmap generated');
+}
@@ -0,0 +1,201 @@
+import { format } from 'date-fns';
+import type { BotContext, FreezeStatus } from '../../types/index.js';
+import * as userService from '../../services/user.service.js';
+import * as progressService from '../../services/progress.service.js';
+import { calculateStreak } from '../../services/statistics.service.js';
+import {
+  applyFreezes,
+  getFreezeStatus,
+  FREEZE_EARN_DAYS,
+  MAX_FREEZES,
+} from '../../services/freeze.service.js';
+import { createFreezeKeyboard } from '../keyboards/progress.keyboard.js';
+import { formatDate, formatWeekday } from '../utils/date-formatter.js';
+import type { Language } from '../../locales/index.js';
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+/**
+ * Handle streak warning buttons: a quick check-in (keeps the streak
+ * without logging areas) or logging today's progress right away.
+ * A check-in only counts on the day of the warning.
+ */
+export async function handleStreakCallbacks(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  if (data === 'streak:log') {
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageReplyMarkup();
+    await ctx.conversation.enter('logProgress');
+    return;
+  }
+
+  // Buttons sent before warnings carried their date have no date
+  const match = /^streak:checkin(?::(\d{4}-\d{2}-\d{2}))?$/.exec(data ?? '');
+  if (!match) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  // The streak at risk was that day's: once it's over, a check-in can't save it
+  const today = progressService.getTodayInTimezone(user.timezone);
+  if (match[1] !== format(today, 'yyyy-MM-dd')) {
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageText(`⌛ ${t('streak-warning-expired')}`);
+    return;
+  }
+
+  const hadActivity = await progressService.hasProgressToday(
+    user.id,
+    user.timezone
+  );
+
+  if (!hadActivity) {
+    await progressService.createCheckIn(user.id, today);
+  }
+
+  await ctx.answerCallbackQuery();
+
+  const streak = await calculateStreak(user.id, user.timezone);
+  const message = hadActivity
+    ? t('streak-already-active', { days: streak })
+    : t('streak-checked-in', { days: streak });
+
+  // Editing drops the buttons, so the check-in can't be tapped twice
+  await ctx.editMessageText(`✅ ${message}`, { parse_mode: 'Markdown' });
+
+  ctx.logger.info({ checkedIn: !hadActivity }, 'Streak warning check-in');
+}
+
+/**
+ * Format the /freeze message: balance, rest days and the missed days
+ * a freeze could cover.
+ */
+function formatFreezeMessage(
+  status: FreezeStatus,
+  restDays: number[],
+  language: Language,
+  t: TranslateFn
+): string {
+  const lines = [
+    t('freeze-title'),
+    '',
+    t('freeze-available', { count: status.available, max: MAX_FREEZES }),
+    status.daysToNext !== null
+      ? t('freeze-next', { days: status.daysToNext })
+      : t('freeze-max'),
+    restDays.length > 0
+      ? t('freeze-rest-days', {
+          days: restDays.map((day) => formatWeekday(day, language)).join(', '),
+        })
+      : t('freeze-no-rest-days'),
+    '',
+  ];
+
+  const missed = status.missedDays.length;
+  if (missed === 0) {
+    lines.push(t('freeze-nothing-missed'));
+  } else if (missed > status.available) {
+    lines.push(t('freeze-not-enough'));
+  } else {
+    lines.push(
+      t('freeze-missed', {
+        count: missed,
+        dates: status.missedDays
+          .map((day) => formatDate(day, language))
+          .join(', '),
+      })
+    );
+  }
+
+  lines.push(
+    '',
+    t('freeze-hint', { days: FREEZE_EARN_DAYS, max: MAX_FREEZES })
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Handle /freeze command - show streak freezes and offer to cover
+ * missed days with them.
+ */
+export async function handleFreezeCommand(ctx: BotContext): Promise<void> {
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.reply(t('error-please-start'));
+    return;
+  }
+
+  const status = await getFreezeStatus(user.id, user.timezone);
+  const missed = status.missedDays.length;
+  const canFreeze = missed > 0 && missed <= status.available;
+
+  await ctx.reply(
+    formatFreezeMessage(
+      status,
+      userService.parseRestDays(user.restDays),
+      (user.language || 'en') as Language,
+      t
+    ),
+    {
+      parse_mode: 'Markdown',
+      reply_markup: canFreeze ? createFreezeKeyboard(missed, t) : undefined,
+    }
+  );
+}
+
+/**
+ * Handle freeze callbacks - cover the missed days with freezes.
+ */
+export async function handleFreezeCallbacks(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  if (data !== 'freeze:apply') {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
+
+  const result = await applyFreezes(user.id, user.timezone);
+
+  if (!result.success) {
+    await ctx.answerCallbackQuery(t(`freeze-error-${result.error}`));
+    await ctx.editMessageReplyMarkup();
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+
+  // Editing drops the button, so the freezes can't be applied twice
+  await ctx.editMessageText(
+    t('freeze-applied', {
+      count: result.frozenDays.length,
+      days: result.streak,
+    }),
+    { parse_mode: 'Markdown' }
+  );
+
+  ctx.logger.info(
+    { frozenDays: result.frozenDays.length },
+    'Streak freezes applied'
+  );
+}
@@ -1,10 +1,45 @@
-import type { BotContext } from '../../types/index.js';
+import type { User } from '@prisma/client';
+import type {
+  BotContext,
+  BuiltInTemplateKey,
+  DateRange,
+  ResolvedPromptTemplate,
+  SummaryDelivery,
+  SummaryPreset,
+} from '../../types/index.js';
+import { SUMMARY_DELIVERY_OPTIONS } from '../../types/index.js';
 import * as userService from '../../services/user.service.js';
-import { generateAnalysisPrompt } from '../../services/prompt.service.js';
-import { InlineKeyboard } from 'grammy';
+import {
+  generateAnalysisPrompt,
+  getSummaryDateRange,
+} from '../../services/prompt.service.js';
+import * as templateService from '../../services/template.service.js';
+import {
+  requestAnalysis,
+  getRemainingAnalyses,
+} from '../../services/analysis.service.js';
+import {
+  createSummaryPeriodKeyboard,
+  createSummaryReadyKeyboard,
+  createTemplateListKeyboard,
+  getBuiltInTemplateLabelKey,
+} from '../keyboards/summary.keyboard.js';
+import {
+  VALIDATION_LIMITS,
+  TEMPLATE_PLACEHOLDER_LIST,
+} from '../utils/validators.js';
+import { Api, InputFile } from 'grammy';
+import { format, parse, isValid } from 'date-fns';
 
 type TranslateFn = (key: string, params?: Record<string, any>) => string;
 
+const SUMMARY_PRESETS: SummaryPreset[] = [
+  'all',
+  'this_month',
+  'last_month',
+  'this_quarter',
+];
+
 /**
  * Handle /summary command - generate AI analysis prompt.
  */
@@ -18,24 +53,69 @@ export async function handleSummaryCommand(ctx: BotContext): Promise<void> {
     return;
   }
 
+  const template = await templateService.getSelectedTemplate(user);
+
   // Show options for time range
   await ctx.reply(`${t('summary-title')}\n\n${t('summary-period')}`, {
     parse_mode: 'Markdown',
-    reply_markup: new InlineKeyboard()
-      .text(t('summary-7days'), 'summary:7')
-      .text(t('summary-14days'), 'summary:14')
-      .row()
-      .text(t('summary-30days'), 'summary:30')
-      .text(t('summary-all'), 'summary:all')
-      .row()
-      .text(t('btn-back'), 'action:back'),
+    reply_markup: createSummaryPeriodKeyboard(getTemplateLabel(template, t), t),
   });
 }
 
 /**
- * Handle summary generation with specific day range.
+ * Get the display name of a template (built-in names are localized).
+ */
+function getTemplateLabel(
+  template: ResolvedPromptTemplate,
+  t: TranslateFn
+): string {
+  return (
+    template.name ??
+    t(getBuiltInTemplateLabelKey(template.key as BuiltInTemplateKey))
+  );
+}
+
+/**
+ * Format a custom date range as a callback data period ("yyyyMMdd-yyyyMMdd").
+ */
+export function formatSummaryRangePeriod(range: DateRange): string {
+  return `${format(range.start, 'yyyyMMdd')}-${format(range.end, 'yyyyMMdd')}`;
+}
+
+/**
+ * Parse a callback data period: number of days, preset or custom range.
+ */
+function parseSummaryPeriod(
+  period: string
+): number | SummaryPreset | DateRange | null {
+  const preset = SUMMARY_PRESETS.find((p) => p === period);
+  if (preset) return preset;
+
+  const rangeMatch = /^(\d{8})-(\d{8})$/.exec(period);
+  if (rangeMatch) {
+    const start = parse(rangeMatch[1] ?? '', 'yyyyMMdd', new Date());
+    const end = parse(rangeMatch[2] ?? '', 'yyyyMMdd', new Date());
+    if (!isValid(start) || !isValid(end) || start > end) return null;
+    return { start, end };
+  }
+
+  const days = parseInt(period, 10);
+  return isNaN(days) || days < 1 ? null : days;
+}
+
+/**
+ * Handle summary generation for a period from callback data.
+ * The prompt is delivered in the user's preferred way unless another
+ * delivery is requested explicitly (from the buttons under the result).
+ * The info message replaces the menu, or is sent as a new message when
+ * the button belongs to a message that should stay (e.g. a weekly review).
  */
-export async function handleSummaryGeneration(ctx: BotContext, days: number | 'all'): Promise<void> {
+export async function handleSummaryGeneration(
+  ctx: BotContext,
+  period: string,
+  requestedDelivery?: SummaryDelivery,
+  asNewMessage = false
+): Promise<void> {
   const telegramId = BigInt(ctx.from?.id ?? 0);
   const user = await userService.getUserByTelegramId(telegramId);
   const t: TranslateFn = (key, params) => ctx.t(key, params);
@@ -45,52 +125,199 @@ export async function handleSummaryGeneration(ctx: BotContext, days: number | 'a
     return;
   }
 
-  await ctx.answerCallbackQuery(t('summary-generating'));
+  const parsed = parseSummaryPeriod(period);
 
-  // Generate the prompt (pass 0 for "all time")
-  const daysNum = days === 'all' ? 0 : days;
-  const prompt = await generateAnalysisPrompt(user, daysNum);
+  if (parsed === null) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
+    return;
+  }
 
-  // Send info message
-  await ctx.editMessageText(t('summary-ready'), {
-    parse_mode: 'Markdown',
-    reply_markup: new InlineKeyboard()
-      .text('🔄', 'action:summary')
-      .text(t('btn-back'), 'action:back'),
-  });
+  await ctx.answerCallbackQuery(t('summary-generating'));
+
+  const range =
+    typeof parsed === 'object'
+      ? parsed
+      : await getSummaryDateRange(user, parsed);
+  const prompt = await generateAnalysisPrompt(user, range);
+  const delivery =
+    requestedDelivery ?? userService.getUserSummaryDelivery(user);
 
-  // Send the actual prompt in a code block for easy copying
-  // Split into chunks if too long (Telegram limit is 4096 chars)
-  const maxLength = 4000;
+  // Send info message with buttons to get the same prompt the other way
+  const readyText = await getSummaryReadyText(user, delivery, t);
+  const readyOptions = {
+    parse_mode: 'Markdown' as const,
+    reply_markup: createSummaryReadyKeyboard(
+      period,
+      delivery,
+      userService.getAvailableSummaryDeliveries(),
+      t
+    ),
+  };
 
-  if (prompt.length <= maxLength) {
-    await ctx.reply(`\`\`\`\n${prompt}\n\`\`\``, { parse_mode: 'Markdown' });
+  if (asNewMessage) {
+    await ctx.reply(readyText, readyOptions);
   } else {
-    // Split into chunks
-    const chunks: string[] = [];
-    let currentChunk = '';
+    await ctx.editMessageText(readyText, readyOptions);
+  }
+
+  await sendSummaryPrompt(ctx, user, prompt, delivery, t);
+}
+
+/**
+ * Get the text of the message shown above a generated prompt.
+ */
+export async function getSummaryReadyText(
+  user: User,
+  delivery: SummaryDelivery,
+  t: TranslateFn
+): Promise<string> {
+  switch (delivery) {
+    case 'inline':
+      return t('summary-ready');
+    case 'llm':
+      return t('summary-ready-llm', {
+        remaining: await getRemainingAnalyses(user),
+      });
+    default:
+      return t('summary-ready-file');
+  }
+}
+
+/**
+ * Send a generated prompt as code blocks or as a document,
+ * or start a direct LLM analysis.
+ */
+export async function sendSummaryPrompt(
+  ctx: BotContext,
+  user: User,
+  prompt: string,
+  delivery: SummaryDelivery,
+  t: TranslateFn
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (chatId === undefined) return;
+
+  if (delivery === 'llm') {
+    // The LLM may take up to LLM_TIMEOUT_SECONDS, so don't hold up the
+    // update. A standalone API client keeps working after the update
+    // (or conversation) that started the analysis has been handled.
+    const api = new Api(ctx.api.token, ctx.api.options);
+    sendAnalysis(api, chatId, user, prompt, t).catch((error) => {
+      ctx.logger.error({ err: error }, 'Error while sending analysis');
+    });
+    return;
+  }
+
+  await sendPromptFile(ctx.api, chatId, prompt, delivery, t);
+}
+
+/**
+ * Send the prompt in a copy-paste format: code blocks or a document.
+ */
+async function sendPromptFile(
+  api: Api,
+  chatId: number,
+  prompt: string,
+  delivery: Exclude<SummaryDelivery, 'llm'>,
+  t: TranslateFn
+): Promise<void> {
+  if (delivery === 'inline') {
+    await sendPromptInline(api, chatId, prompt);
+    // Send copy instruction
+    await api.sendMessage(chatId, t('summary-copy-instruction'));
+    return;
+  }
+
+  const filename = `goals-prompt-${format(new Date(), 'yyyy-MM-dd')}.${delivery}`;
+  await api.sendDocument(
+    chatId,
+    new InputFile(Buffer.from(prompt, 'utf-8'), filename),
+    { caption: t('summary-file-instruction') }
+  );
+}
+
+/**
+ * Run the prompt through the configured LLM and reply with the analysis.
+ * Falls back to the copy-paste flow when the quota is used up or the
+ * request fails.
+ */
+async function sendAnalysis(
+  api: Api,
+  chatId: number,
+  user: User,
+  prompt: string,
+  t: TranslateFn
+): Promise<void> {
+  await api.sendChatAction(chatId, 'typing');
 
-    const lines = prompt.split('\n');
-    for (const line of lines) {
-      if (currentChunk.length + line.length + 1 > maxLength) {
+  const result = await requestAnalysis(user, prompt);
+
+  if (!result.success) {
+    await api.sendMessage(
+      chatId,
+      `⚠️ ${t(`summary-llm-error-${result.error}`)}`
+    );
+    await sendPromptFile(api, chatId, prompt, 'inline', t);
+    return;
+  }
+
+  // Plain text: model output isn't guaranteed to be valid Telegram Markdown
+  for (const chunk of splitIntoChunks(result.text, 4000)) {
+    await api.sendMessage(chatId, chunk);
+  }
+
+  await api.sendMessage(
+    chatId,
+    t('summary-llm-remaining', { remaining: result.remaining })
+  );
+}
+
+/**
+ * Split text into chunks of at most maxLength characters, on line breaks
+ * where possible (Telegram limit is 4096 chars per message).
+ */
+function splitIntoChunks(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let currentChunk = '';
+
+  for (const line of text.split('\n')) {
+    // Hard-wrap lines that don't fit into a message on their own
+    for (let i = 0; i < line.length || i === 0; i += maxLength) {
+      const part = line.slice(i, i + maxLength);
+      if (currentChunk && currentChunk.length + part.length + 1 > maxLength) {
         chunks.push(currentChunk);
-        currentChunk = line;
+        currentChunk = part;
       } else {
-        currentChunk += (currentChunk ? '\n' : '') + line;
+        currentChunk += (currentChunk ? '\n' : '') + part;
       }
     }
-    if (currentChunk) {
-      chunks.push(currentChunk);
-    }
-
-    for (let i = 0; i < chunks.length; i++) {
-      const header = chunks.length > 1 ? `Part ${i + 1}/${chunks.length}\n` : '';
-      await ctx.reply(`${header}\`\`\`\n${chunks[i]}\n\`\`\``, { parse_mode: 'Markdown' });
-    }
+  }
+  if (currentChunk) {
+    chunks.push(currentChunk);
   }
 
-  // Send copy instruction
-  await ctx.reply(t('summary-copy-instruction'));
+  return chunks;
+}
+
+/**
+ * Send the prompt as Markdown code blocks for easy copying.
+ * Splits into chunks if too long (Telegram limit is 4096 chars).
+ */
+async function sendPromptInline(
+  api: Api,
+  chatId: number,
+  prompt: string
+): Promise<void> {
+  // A triple backtick inside an entry would close the code block early
+  const text = prompt.replace(/```/g, "'''");
+  const chunks = splitIntoChunks(text, 4000);
+
+  for (let i = 0; i < chunks.length; i++) {
+    const header = chunks.length > 1 ? `Part ${i + 1}/${chunks.length}\n` : '';
+    await api.sendMessage(chatId, `${header}\`\`\`\n${chunks[i]}\n\`\`\``, {
+      parse_mode: 'Markdown',
+    });
+  }
 }
 
 /**
@@ -102,19 +329,135 @@ export async function handleSummaryCallbacks(ctx: BotContext): Promise<void> {
 
   if (!data?.startsWith('summary:')) return;
 
-  const daysStr = data.replace('summary:', '');
+  // Format: summary:<period>[:<delivery>]
+  const [, period, deliveryStr] = data.split(':');
+  const delivery = SUMMARY_DELIVERY_OPTIONS.find(
+    (option) => option === deliveryStr
+  );
 
-  if (daysStr === 'all') {
-    await handleSummaryGeneration(ctx, 'all');
+  if (!period || (deliveryStr !== undefined && !delivery)) {
+    await ctx.answerCallbackQuery(t('error-something-wrong'));
     return;
   }
 
-  const days = parseInt(daysStr, 10);
+  await handleSummaryGeneration(ctx, period, delivery);
+}
+
+/**
+ * Handle weekly review callbacks.
+ * "Summary for this week" keeps the review and sends the prompt below it.
+ */
+export async function handleWeeklyReviewCallbacks(
+  ctx: BotContext
+): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
 
-  if (isNaN(days)) {
+  // Format: review:summary:<period>
+  const [, action, period] = data?.split(':') ?? [];
+
+  if (action !== 'summary' || !period) {
     await ctx.answerCallbackQuery(t('error-something-wrong'));
     return;
   }
 
-  await handleSummaryGeneration(ctx, days);
+  await handleSummaryGeneration(ctx, period, undefined, true);
+}
+
+/**
+ * Show the prompt template list in place of the current message.
+ */
+async function showTemplateList(
+  ctx: BotContext,
+  userId: string,
+  t: TranslateFn
+): Promise<void> {
+  const user = await userService.getUserById(userId);
+  if (!user) return;
+
+  const [customTemplates, selected] = await Promise.all([
+    templateService.getUserTemplates(user.id),
+    templateService.getSelectedTemplate(user),
+  ]);
+
+  await ctx.editMessageText(
+    `${t('template-list-title')}\n\n${t('template-list-description', { placeholders: TEMPLATE_PLACEHOLDER_LIST })}`,
+    {
+      parse_mode: 'Markdown',
+      reply_markup: createTemplateListKeyboard(
+        templateService.BUILT_IN_TEMPLATE_KEYS,
+        customTemplates,
+        selected.key,
+        customTemplates.length < VALIDATION_LIMITS.MAX_TEMPLATES_PER_USER,
+        t
+      ),
+    }
+  );
+}
+
+/**
+ * Handle prompt template callbacks: list, select and delete.
+ * Uploading a template is a conversation (see add-template.ts).
+ */
+export async function handleTemplateCallbacks(ctx: BotContext): Promise<void> {
+  const data = ctx.callbackQuery?.data;
+  const t: TranslateFn = (key, params) => ctx.t(key, params);
+
+  if (!data?.startsWith('template:')) return;
+
+  const telegramId = BigInt(ctx.from?.id ?? 0);
+  const user = await userService.getUserByTelegramId(telegramId);
+
+  if (!user) {
+    await ctx.answerCallbackQuery(t('error-please-start'));
+    return;
+  }
+
+  // Format: template:<action>[:<key>]
+  const [, action, key] = data.split(':');
+
+  if (action === 'list') {
+    await ctx.answerCallbackQuery();
+    await showTemplateList(ctx, user.id, t);
+    return;
+  }
+
+  if (action === 'select' && key) {
+    const selected = await templateService.selectTemplate(user.id, key);
+
+    if (!selected) {
+      await ctx.answerCallbackQuery(t('error-something-wrong'));
+      return;
+    }
+
+    await ctx.answerCallbackQuery(t('template-selected'));
+
+    // Back to the period selection with the new template
+    const updatedUser = await userService.getUserById(user.id);
+    if (updatedUser) {
+      const template = await templateService.getSelectedTemplate(updatedUser);
+      await ctx.editMessageText(
+        `${t('summary-title')}\n\n${t('summary-period')}`,
+        {
+          parse_mode: 'Markdown',
+          reply_markup: createSummaryPeriodKeyboard(
+            getTemplateLabel(template, t),
+            t
+          ),
+        }
+      );
+    }
+    return;
+  }
+
+  if (action === 'delete' && key) {
+    await templateService.deleteTemplate(user.id, key);
+    await ctx.answerCallbackQuery(t('template-deleted'));
+    await showTemplateList(ctx, user.id, t);
+
+    ctx.logger.info('Prompt template deleted');
+    return;
+  }
+
+  await ctx.answerCallbackQuery(t('error-something-wrong'));
 }
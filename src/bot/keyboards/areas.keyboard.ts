@@ -1,6 +1,8 @@
 import { InlineKeyboard } from 'grammy';
 import type { Area } from '@prisma/client';
 import { VALIDATION_LIMITS } from '../utils/validators.js';
+import { formatWeekday } from '../utils/date-formatter.js';
+import type { Language } from '../../types/index.js';
 
 /**
  * Area-related keyboard factory functions.
@@ -33,21 +35,56 @@ export function createAreasListKeyboard(
 
 /**
  * Create an area management keyboard.
- * Shows options to edit or delete a selected area.
+ * Shows options to edit, archive or move a selected area.
+ * Move buttons are only shown when the area can move in that direction.
  */
-export function createAreaActionsKeyboard(areaId: string, t?: TranslateFn): InlineKeyboard {
+export function createAreaActionsKeyboard(
+  areaId: string,
+  t?: TranslateFn,
+  options: { canMoveUp?: boolean; canMoveDown?: boolean } = {}
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
-  return new InlineKeyboard()
+  const keyboard = new InlineKeyboard()
     .text(translate('btn-edit'), `area:edit:${areaId}`)
-    .text(translate('btn-delete'), `area:delete:${areaId}`)
+    .text(translate('btn-archive'), `area:archive:${areaId}`)
+    .row();
+
+  if (options.canMoveUp) {
+    keyboard.text(translate('btn-move-up'), `area:move_up:${areaId}`);
+  }
+  if (options.canMoveDown) {
+    keyboard.text(translate('btn-move-down'), `area:move_down:${areaId}`);
+  }
+  if (options.canMoveUp || options.canMoveDown) {
+    keyboard.row();
+  }
+
+  return keyboard.text(translate('btn-back'), 'action:edit_areas');
+}
+
+/**
+ * Create an archived area management keyboard.
+ * Shows options to restore or permanently delete the area.
+ */
+export function createArchivedAreaActionsKeyboard(
+  areaId: string,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  return new InlineKeyboard()
+    .text(translate('btn-restore'), `area:restore:${areaId}`)
+    .text(translate('btn-delete-permanently'), `area:delete:${areaId}`)
     .row()
-    .text(translate('btn-back'), 'action:edit_areas');
+    .text(translate('btn-back'), 'area:archived');
 }
 
 /**
  * Create a delete confirmation keyboard for an area.
  */
-export function createDeleteConfirmKeyboard(areaId: string, t?: TranslateFn): InlineKeyboard {
+export function createDeleteConfirmKeyboard(
+  areaId: string,
+  t?: TranslateFn
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
   return new InlineKeyboard()
     .text(translate('btn-confirm-delete'), `area:confirm_delete:${areaId}`)
@@ -57,22 +94,32 @@ export function createDeleteConfirmKeyboard(areaId: string, t?: TranslateFn): In
 /**
  * Create an edit area field selection keyboard.
  */
-export function createEditFieldKeyboard(areaId: string, t?: TranslateFn): InlineKeyboard {
+export function createEditFieldKeyboard(
+  areaId: string,
+  t?: TranslateFn
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
   return new InlineKeyboard()
     .text(translate('btn-edit-title'), `area:edit_title:${areaId}`)
     .text(translate('btn-edit-description'), `area:edit_body:${areaId}`)
     .row()
     .text(translate('btn-edit-emoji'), `area:edit_emoji:${areaId}`)
+    .text(translate('btn-edit-metric'), `area:edit_metric:${areaId}`)
+    .row()
+    .text(translate('btn-edit-schedule'), `area:edit_cadence:${areaId}`)
     .row()
     .text(translate('btn-back'), `area:select:${areaId}`);
 }
 
 /**
  * Create an areas overview keyboard with add option.
- * Shows if user can add more areas.
+ * Shows if user can add more areas, and the archive if it's not empty.
  */
-export function createAreasOverviewKeyboard(currentCount: number, t?: TranslateFn): InlineKeyboard {
+export function createAreasOverviewKeyboard(
+  currentCount: number,
+  t?: TranslateFn,
+  archivedCount: number = 0
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
   const keyboard = new InlineKeyboard();
 
@@ -84,6 +131,15 @@ export function createAreasOverviewKeyboard(currentCount: number, t?: TranslateF
     keyboard.text(translate('btn-edit-areas'), 'action:edit_areas');
   }
 
+  if (archivedCount > 0) {
+    keyboard
+      .row()
+      .text(
+        translate('btn-archived-areas', { count: archivedCount }),
+        'area:archived'
+      );
+  }
+
   keyboard.row().text(translate('btn-back'), 'action:back');
 
   return keyboard;
@@ -92,13 +148,19 @@ export function createAreasOverviewKeyboard(currentCount: number, t?: TranslateF
 /**
  * Create an "Add more areas?" keyboard during onboarding.
  */
-export function createAddMoreAreasKeyboard(currentCount: number, t?: TranslateFn): InlineKeyboard {
+export function createAddMoreAreasKeyboard(
+  currentCount: number,
+  t?: TranslateFn
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
   const keyboard = new InlineKeyboard();
 
   if (currentCount < VALIDATION_LIMITS.MAX_AREAS_PER_USER) {
     const remaining = VALIDATION_LIMITS.MAX_AREAS_PER_USER - currentCount;
-    keyboard.text(translate('btn-add-another', { remaining }), 'onboarding:add_more');
+    keyboard.text(
+      translate('btn-add-another', { remaining }),
+      'onboarding:add_more'
+    );
   }
 
   keyboard.row().text(translate('btn-done-continue'), 'onboarding:done_areas');
@@ -127,3 +189,63 @@ export function createSkipEmojiKeyboard(t?: TranslateFn): InlineKeyboard {
     .row()
     .text(translate('btn-cancel'), 'action:cancel');
 }
+
+/**
+ * Create a target cadence type selection keyboard.
+ */
+export function createCadenceTypeKeyboard(t?: TranslateFn): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  return new InlineKeyboard()
+    .text(translate('btn-cadence-daily'), 'cadence:daily')
+    .row()
+    .text(translate('btn-cadence-weekly'), 'cadence:weekly')
+    .row()
+    .text(translate('btn-cadence-weekdays'), 'cadence:weekdays')
+    .row()
+    .text(translate('btn-cancel'), 'action:cancel');
+}
+
+/**
+ * Create a "times per week" selection keyboard (1-6, daily covers 7).
+ */
+export function createTimesPerWeekKeyboard(t?: TranslateFn): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  for (let count = 1; count <= 6; count++) {
+    keyboard.text(
+      translate('btn-times-per-week', { count }),
+      `cadence:times:${count}`
+    );
+    if (count === 3) keyboard.row();
+  }
+
+  return keyboard.row().text(translate('btn-cancel'), 'action:cancel');
+}
+
+/**
+ * Create a weekday toggle keyboard for specific-days cadences.
+ * Selected days are marked with a check.
+ */
+export function createWeekdaysKeyboard(
+  selected: number[],
+  language: Language,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  for (let day = 1; day <= 7; day++) {
+    const mark = selected.includes(day) ? '✅ ' : '';
+    keyboard.text(
+      `${mark}${formatWeekday(day, language)}`,
+      `cadence:day:${day}`
+    );
+    if (day === 4) keyboard.row();
+  }
+
+  return keyboard
+    .row()
+    .text(translate('btn-done'), 'cadence:done')
+    .text(translate('btn-cancel'), 'action:cancel');
+}
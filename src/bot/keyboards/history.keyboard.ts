@@ -0,0 +1,89 @@
+import { InlineKeyboard } from 'grammy';
+import type { Area } from '@prisma/client';
+
+/**
+ * Progress history keyboard factory functions.
+ * Used to view, edit and delete already-logged entries for a day.
+ */
+
+type TranslateFn = (key: string, params?: Record<string, any>) => string;
+
+/**
+ * Create a keyboard listing the entries logged on a day.
+ * Each button opens the actions for that entry.
+ */
+export function createHistoryEntriesKeyboard(
+  entries: Array<{ id: string; label: string }>,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  for (const entry of entries) {
+    keyboard.text(entry.label, `history:entry:${entry.id}`).row();
+  }
+
+  keyboard.text(translate('btn-back'), 'history:close');
+
+  return keyboard;
+}
+
+/**
+ * Create the actions keyboard for a single entry.
+ * Check-ins have no content or area, so they can only be deleted.
+ */
+export function createHistoryEntryActionsKeyboard(
+  entryId: string,
+  isCheckIn: boolean,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  if (!isCheckIn) {
+    keyboard
+      .text(translate('btn-history-edit-content'), `history:edit:${entryId}`)
+      .text(translate('btn-history-change-area'), `history:move:${entryId}`)
+      .row();
+  }
+
+  keyboard
+    .text(translate('btn-delete'), `history:delete:${entryId}`)
+    .row()
+    .text(translate('btn-back'), 'history:list');
+
+  return keyboard;
+}
+
+/**
+ * Create a keyboard for moving an entry to another area.
+ */
+export function createHistoryAreaSelectionKeyboard(
+  areas: Area[],
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  for (const area of areas) {
+    const emoji = area.emoji ?? '📌';
+    keyboard.text(`${emoji} ${area.title}`, `history:area:${area.id}`).row();
+  }
+
+  keyboard.text(translate('btn-cancel'), 'history:list');
+
+  return keyboard;
+}
+
+/**
+ * Create a delete confirmation keyboard for an entry.
+ */
+export function createHistoryDeleteConfirmKeyboard(
+  entryId: string,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  return new InlineKeyboard()
+    .text(translate('btn-confirm-delete'), `history:confirm_delete:${entryId}`)
+    .text(translate('btn-cancel'), 'history:list');
+}
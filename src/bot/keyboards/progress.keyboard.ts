@@ -40,7 +40,9 @@ export function createAllLoggedKeyboard(t?: TranslateFn): InlineKeyboard {
 /**
  * Create a progress complete keyboard.
  */
-export function createProgressCompleteKeyboard(t?: TranslateFn): InlineKeyboard {
+export function createProgressCompleteKeyboard(
+  t?: TranslateFn
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
   return new InlineKeyboard()
     .text(translate('btn-generate-summary'), 'action:summary')
@@ -51,7 +53,9 @@ export function createProgressCompleteKeyboard(t?: TranslateFn): InlineKeyboard
  * Create a keyboard for selecting progress date.
  * Shows options: Today, Past Period, Back
  */
-export function createProgressDateSelectionKeyboard(t?: TranslateFn): InlineKeyboard {
+export function createProgressDateSelectionKeyboard(
+  t?: TranslateFn
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
   return new InlineKeyboard()
     .text(translate('btn-today'), 'progress:date:today')
@@ -82,3 +86,32 @@ export function createPastDateSelectionKeyboard(
 
   return keyboard;
 }
+
+/**
+ * Create the streak warning keyboard: a one-tap check-in that keeps the
+ * streak, or start logging today's progress.
+ * The check-in carries the warning's local date (yyyy-MM-dd).
+ */
+export function createStreakWarningKeyboard(
+  date: string,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  return new InlineKeyboard()
+    .text(translate('btn-quick-check-in'), `streak:checkin:${date}`)
+    .text(translate('btn-log-now'), 'streak:log');
+}
+
+/**
+ * Create the /freeze keyboard: use freezes to cover the missed days.
+ */
+export function createFreezeKeyboard(
+  count: number,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  return new InlineKeyboard().text(
+    translate('btn-freeze-apply', { count }),
+    'freeze:apply'
+  );
+}
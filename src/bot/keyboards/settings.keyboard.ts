@@ -1,5 +1,8 @@
 import { InlineKeyboard } from 'grammy';
 import { TIMEZONE_OPTIONS } from '../../types/index.js';
+import type { SummaryDelivery } from '../../types/index.js';
+import type { Language } from '../../locales/index.js';
+import { formatWeekday } from '../utils/date-formatter.js';
 
 /**
  * Settings-related keyboard factory functions.
@@ -21,6 +24,16 @@ export function createSettingsMenuKeyboard(t?: TranslateFn): InlineKeyboard {
     .row()
     .text(translate('btn-progress-reminder'), 'settings:progress_reminder')
     .row()
+    .text(translate('btn-streak-warning'), 'settings:streak_warning')
+    .row()
+    .text(translate('btn-rest-days'), 'settings:rest_days')
+    .row()
+    .text(translate('btn-weekly-review'), 'settings:weekly_review')
+    .row()
+    .text(translate('btn-reports'), 'settings:reports')
+    .row()
+    .text(translate('btn-summary-delivery'), 'settings:summary_delivery')
+    .row()
     .text(translate('btn-reset-all'), 'settings:reset')
     .row()
     .text(translate('btn-back'), 'action:back');
@@ -84,7 +97,10 @@ export function createTimeSelectionKeyboard(
     keyboard.text(translate('btn-disable'), `${prefix}:disable`).row();
   }
 
-  keyboard.text(translate('btn-back'), settingType === 'digest' ? 'settings:digest' : 'action:settings');
+  keyboard.text(
+    translate('btn-back'),
+    settingType === 'digest' ? 'settings:digest' : 'action:settings'
+  );
 
   return keyboard;
 }
@@ -93,7 +109,10 @@ export function createTimeSelectionKeyboard(
  * Create a keyboard for managing digest times.
  * Shows current times with remove buttons, and add option if under limit.
  */
-export function createDigestTimesKeyboard(currentTimes: string[], t?: TranslateFn): InlineKeyboard {
+export function createDigestTimesKeyboard(
+  currentTimes: string[],
+  t?: TranslateFn
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
   const keyboard = new InlineKeyboard();
   const MAX_TIMES = 3;
@@ -118,6 +137,152 @@ export function createDigestTimesKeyboard(currentTimes: string[], t?: TranslateF
   return keyboard;
 }
 
+/**
+ * Create a keyboard for the streak warning time (late evening options).
+ * The current time is marked with a check; picking a time turns the warning on.
+ */
+export function createStreakWarningTimeKeyboard(
+  time: string | null,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  ['21:00', '21:30', '22:00', '22:30', '23:00', '23:30'].forEach(
+    (option, index) => {
+      keyboard.text(
+        option === time ? `${option} ✓` : option,
+        `streak_warning:time:${option}`
+      );
+      if (index === 2) keyboard.row();
+    }
+  );
+  keyboard.row();
+
+  if (time) {
+    keyboard.text(translate('btn-disable'), 'streak_warning:disable').row();
+  }
+
+  keyboard.text(translate('btn-back'), 'action:settings');
+
+  return keyboard;
+}
+
+/**
+ * Create a keyboard for the weekly review schedule.
+ * Weekdays and times are marked with a check; picking a time turns the review on.
+ */
+export function createWeeklyReviewKeyboard(
+  day: number,
+  time: string | null,
+  language: Language,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  for (let isoDay = 1; isoDay <= 7; isoDay++) {
+    const label = formatWeekday(isoDay, language);
+    keyboard.text(
+      isoDay === day ? `${label} ✓` : label,
+      `weekly_review:day:${isoDay}`
+    );
+    if (isoDay === 4) keyboard.row();
+  }
+  keyboard.row();
+
+  ['09:00', '12:00', '18:00', '19:00', '20:00', '21:00'].forEach(
+    (option, index) => {
+      keyboard.text(
+        option === time ? `${option} ✓` : option,
+        `weekly_review:time:${option}`
+      );
+      if (index === 2) keyboard.row();
+    }
+  );
+  keyboard.row();
+
+  if (time) {
+    keyboard.text(translate('btn-disable'), 'weekly_review:disable').row();
+  }
+
+  keyboard.text(translate('btn-back'), 'action:settings');
+
+  return keyboard;
+}
+
+/**
+ * Create a keyboard for planned rest days: each weekday toggles on or off.
+ * Rest days are marked with a check.
+ */
+export function createRestDaysKeyboard(
+  restDays: number[],
+  language: Language,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  for (let isoDay = 1; isoDay <= 7; isoDay++) {
+    const label = formatWeekday(isoDay, language);
+    keyboard.text(
+      restDays.includes(isoDay) ? `${label} ✓` : label,
+      `rest_days:toggle:${isoDay}`
+    );
+    if (isoDay === 4) keyboard.row();
+  }
+  keyboard.row();
+
+  keyboard.text(translate('btn-back'), 'action:settings');
+
+  return keyboard;
+}
+
+/**
+ * Create a keyboard for choosing how the /summary prompt is delivered.
+ * The current choice is marked with a check.
+ */
+export function createSummaryDeliveryKeyboard(
+  options: SummaryDelivery[],
+  currentDelivery: string,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  options.forEach((delivery) => {
+    const label = translate(`summary-delivery-${delivery}`);
+    keyboard
+      .text(
+        delivery === currentDelivery ? `${label} ✓` : label,
+        `summary_delivery:${delivery}`
+      )
+      .row();
+  });
+
+  keyboard.text(translate('btn-back'), 'action:settings');
+
+  return keyboard;
+}
+
+/**
+ * Create the retrospective reports keyboard: turn on or off.
+ */
+export function createReportsKeyboard(
+  enabled: boolean,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const on = translate('btn-reports-on');
+  const off = translate('btn-reports-off');
+
+  return new InlineKeyboard()
+    .text(enabled ? `${on} ✓` : on, 'reports:on')
+    .text(enabled ? off : `${off} ✓`, 'reports:off')
+    .row()
+    .text(translate('btn-back'), 'action:settings');
+}
+
 /**
  * Create a reset confirmation keyboard.
  */
@@ -135,14 +300,21 @@ export function createResetConfirmKeyboard(t?: TranslateFn): InlineKeyboard {
  * Create a language selection keyboard.
  * Language names are intentionally not translated - shown in their native form.
  */
-export function createLanguageKeyboard(currentLanguage: string, t?: TranslateFn): InlineKeyboard {
+export function createLanguageKeyboard(
+  currentLanguage: string,
+  t?: TranslateFn
+): InlineKeyboard {
   const translate = t || ((key: string) => key);
   const keyboard = new InlineKeyboard();
 
   const enLabel = currentLanguage === 'en' ? '🇬🇧 English ✓' : '🇬🇧 English';
   const ruLabel = currentLanguage === 'ru' ? '🇷🇺 Русский ✓' : '🇷🇺 Русский';
 
-  keyboard.text(enLabel, 'language:en').row().text(ruLabel, 'language:ru').row();
+  keyboard
+    .text(enLabel, 'language:en')
+    .row()
+    .text(ruLabel, 'language:ru')
+    .row();
 
   keyboard.text(translate('btn-back'), 'action:settings');
 
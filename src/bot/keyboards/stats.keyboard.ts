@@ -0,0 +1,93 @@
+import { InlineKeyboard } from 'grammy';
+import type { Area } from '@prisma/client';
+
+/**
+ * Stats-related keyboard factory functions.
+ */
+
+type TranslateFn = (
+  key: string,
+  params?: Record<string, string | number>
+) => string;
+
+/**
+ * Periods (in days) offered by /stats.
+ */
+export const STATS_PERIOD_DAYS = [30, 90, 365];
+
+/**
+ * Create the /stats keyboard: period buttons, then all areas plus one
+ * button per area, two per row. The current selection is marked with a check.
+ * Callback data: stats:<days>:<all|areaId>.
+ */
+export function createStatsKeyboard(
+  areas: Area[],
+  days: number,
+  selectedAreaId: string | null,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const mark = (label: string, selected: boolean): string =>
+    selected ? `${label} ✓` : label;
+  const areaKey = selectedAreaId ?? 'all';
+
+  const keyboard = new InlineKeyboard();
+
+  STATS_PERIOD_DAYS.forEach((period) => {
+    keyboard.text(
+      mark(translate('btn-stats-days', { days: period }), period === days),
+      `stats:${period}:${areaKey}`
+    );
+  });
+
+  keyboard
+    .row()
+    .text(
+      mark(translate('btn-stats-all'), selectedAreaId === null),
+      `stats:${days}:all`
+    )
+    .row();
+
+  areas.forEach((area, index) => {
+    if (index > 0 && index % 2 === 0) keyboard.row();
+    const emoji = area.emoji ?? '📌';
+    keyboard.text(
+      mark(`${emoji} ${area.title}`, area.id === selectedAreaId),
+      `stats:${days}:${area.id}`
+    );
+  });
+
+  return keyboard;
+}
+
+/**
+ * Create the heatmap keyboard: all areas plus one button per area,
+ * two per row. The shown heatmap is marked with a check.
+ */
+export function createHeatmapKeyboard(
+  areas: Area[],
+  selectedAreaId: string | null,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const mark = (label: string, selected: boolean): string =>
+    selected ? `${label} ✓` : label;
+
+  const keyboard = new InlineKeyboard()
+    .text(
+      mark(translate('btn-heatmap-all'), selectedAreaId === null),
+      'heatmap:all'
+    )
+    .row();
+
+  areas.forEach((area, index) => {
+    if (index > 0 && index % 2 === 0) keyboard.row();
+    const emoji = area.emoji ?? '📌';
+    keyboard.text(
+      mark(`${emoji} ${area.title}`, area.id === selectedAreaId),
+      `heatmap:${area.id}`
+    );
+  });
+
+  return keyboard;
+}
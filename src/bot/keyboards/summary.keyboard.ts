@@ -0,0 +1,138 @@
+import { InlineKeyboard } from 'grammy';
+import type { PromptTemplate } from '@prisma/client';
+import type { BuiltInTemplateKey, SummaryDelivery } from '../../types/index.js';
+
+/**
+ * Summary-related keyboard factory functions.
+ * Periods are passed in callback data as "summary:<period>[:<delivery>]",
+ * where period is a number of days, a preset name or "yyyyMMdd-yyyyMMdd".
+ */
+
+type TranslateFn = (key: string, params?: Record<string, string>) => string;
+
+/**
+ * Create the /summary period selection keyboard.
+ * The last row shows the selected prompt template and opens the template list.
+ */
+export function createSummaryPeriodKeyboard(
+  templateName: string,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  return new InlineKeyboard()
+    .text(translate('summary-7days'), 'summary:7')
+    .text(translate('summary-14days'), 'summary:14')
+    .row()
+    .text(translate('summary-30days'), 'summary:30')
+    .text(translate('summary-all'), 'summary:all')
+    .row()
+    .text(translate('summary-this-month'), 'summary:this_month')
+    .text(translate('summary-last-month'), 'summary:last_month')
+    .row()
+    .text(translate('summary-this-quarter'), 'summary:this_quarter')
+    .text(translate('summary-custom-range'), 'summary:custom')
+    .row()
+    .text(
+      translate('btn-summary-template', { name: templateName }),
+      'template:list'
+    )
+    .row()
+    .text(translate('btn-back'), 'action:back');
+}
+
+/**
+ * Create the keyboard shown with a generated prompt.
+ * Offers the same period delivered the other available ways, a restart
+ * and back.
+ */
+export function createSummaryReadyKeyboard(
+  period: string,
+  delivery: SummaryDelivery,
+  options: SummaryDelivery[],
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+
+  options
+    .filter((option) => option !== delivery)
+    .forEach((option, index) => {
+      if (index > 0 && index % 2 === 0) keyboard.row();
+      keyboard.text(
+        translate(`btn-summary-as-${option}`),
+        `summary:${period}:${option}`
+      );
+    });
+
+  return keyboard
+    .row()
+    .text('🔄', 'action:summary')
+    .text(translate('btn-back'), 'action:back');
+}
+
+/**
+ * Create the keyboard sent with the weekly review.
+ * Generates the /summary prompt for the reviewed week.
+ */
+export function createWeeklyReviewKeyboard(
+  period: string,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  return new InlineKeyboard().text(
+    translate('btn-weekly-review-summary'),
+    `review:summary:${period}`
+  );
+}
+
+/**
+ * Get the locale key with the name of a built-in template.
+ */
+export function getBuiltInTemplateLabelKey(key: BuiltInTemplateKey): string {
+  return `template-${key.replace(/_/g, '-')}`;
+}
+
+/**
+ * Create the prompt template list keyboard.
+ * Built-in templates first, then custom ones with a delete button.
+ * The selected template is marked with a check.
+ */
+export function createTemplateListKeyboard(
+  builtInKeys: BuiltInTemplateKey[],
+  customTemplates: PromptTemplate[],
+  selectedKey: string,
+  canUpload: boolean,
+  t?: TranslateFn
+): InlineKeyboard {
+  const translate = t ?? ((key: string) => key);
+  const keyboard = new InlineKeyboard();
+  const mark = (label: string, key: string): string =>
+    key === selectedKey ? `${label} ✓` : label;
+
+  builtInKeys.forEach((key) => {
+    keyboard
+      .text(
+        mark(translate(getBuiltInTemplateLabelKey(key)), key),
+        `template:select:${key}`
+      )
+      .row();
+  });
+
+  customTemplates.forEach((template) => {
+    keyboard
+      .text(
+        mark(`📝 ${template.name}`, template.id),
+        `template:select:${template.id}`
+      )
+      .text('🗑', `template:delete:${template.id}`)
+      .row();
+  });
+
+  if (canUpload) {
+    keyboard.text(translate('btn-template-upload'), 'template:upload').row();
+  }
+
+  keyboard.text(translate('btn-back'), 'action:summary');
+
+  return keyboard;
+}
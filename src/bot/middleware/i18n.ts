@@ -21,7 +21,7 @@ export function languageMiddleware(): MiddlewareFn<BotContext> {
       }
     } catch (error) {
       // Silently fail - will use default language
-      console.error('Error loading user language:', error);
+      ctx.logger.error({ err: error }, 'Error loading user language');
     }
 
     return next();
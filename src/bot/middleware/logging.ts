@@ -0,0 +1,39 @@
+import type { MiddlewareFn, NextFunction } from 'grammy';
+import { createLogger } from '../../config/logger.js';
+import type { BotContext } from '../../types/index.js';
+
+const botLogger = createLogger('bot');
+
+/**
+ * Middleware to attach a request-scoped logger to the context.
+ * Every line carries the update_id and Telegram user id.
+ * Should be applied first so all later middleware can use ctx.logger.
+ */
+export function loggingMiddleware(): MiddlewareFn<BotContext> {
+  return async (ctx: BotContext, next: NextFunction) => {
+    ctx.logger = botLogger.child({
+      update_id: ctx.update.update_id,
+      telegram_user_id: ctx.from?.id,
+    });
+
+    const startedAt = Date.now();
+    await next();
+    ctx.logger.debug({ duration_ms: Date.now() - startedAt }, 'Update handled');
+  };
+}
+
+/**
+ * Middleware to tag the context logger with conversations active in the chat.
+ * Must be applied after conversations() so ctx.conversation exists.
+ */
+export function conversationLoggingMiddleware(): MiddlewareFn<BotContext> {
+  return async (ctx: BotContext, next: NextFunction) => {
+    const active = Object.keys(ctx.conversation.active());
+
+    if (active.length > 0) {
+      ctx.logger = ctx.logger.child({ conversation: active.join(',') });
+    }
+
+    return next();
+  };
+}
@@ -0,0 +1,34 @@
+import type { MiddlewareFn, NextFunction } from 'grammy';
+import { updatesHandled, conversationEntries } from '../../server/metrics.js';
+import type { BotContext } from '../../types/index.js';
+
+/**
+ * Middleware to count handled updates by type.
+ * Should be applied first so every update is counted.
+ */
+export function updateMetricsMiddleware(): MiddlewareFn<BotContext> {
+  return async (ctx: BotContext, next: NextFunction) => {
+    const type =
+      Object.keys(ctx.update).find((key) => key !== 'update_id') ?? 'unknown';
+    updatesHandled.inc({ type });
+
+    return next();
+  };
+}
+
+/**
+ * Middleware to count conversation entries by name.
+ * Must be applied after conversations() so ctx.conversation exists.
+ */
+export function conversationMetricsMiddleware(): MiddlewareFn<BotContext> {
+  return async (ctx: BotContext, next: NextFunction) => {
+    const enter = ctx.conversation.enter.bind(ctx.conversation);
+
+    ctx.conversation.enter = async (name: string, ...args: unknown[]) => {
+      conversationEntries.inc({ name });
+      return enter(name, ...args);
+    };
+
+    return next();
+  };
+}
@@ -1,4 +1,5 @@
 import { format, formatDistanceToNow } from 'date-fns';
+import type { Day } from 'date-fns';
 import { enUS, ru } from 'date-fns/locale';
 import type { Language } from '../../locales/index.js';
 
@@ -39,9 +40,40 @@ export function formatDate(date: Date, language: Language): string {
   return format(date, 'PP', { locale });
 }
 
+/**
+ * Format month and year (e.g., "October 2026" / "Октябрь 2026")
+ */
+export function formatMonthYear(date: Date, language: Language): string {
+  const locale = localeMap[language];
+  const text = format(date, 'LLLL yyyy', { locale });
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Format a short month name (e.g., "Oct" / "окт.")
+ */
+export function formatMonthShort(date: Date, language: Language): string {
+  const locale = localeMap[language];
+  return format(date, 'LLL', { locale });
+}
+
 /**
  * Format time only (e.g., "09:00")
  */
 export function formatTime(date: Date): string {
   return format(date, 'HH:mm');
 }
+
+/**
+ * Format an ISO weekday (1=Mon..7=Sun) as a short name (e.g., "Mon" / "пн"),
+ * or a two-letter one with width "short" (e.g., "Mo" / "пн")
+ */
+export function formatWeekday(
+  isoDay: number,
+  language: Language,
+  width: 'abbreviated' | 'short' = 'abbreviated'
+): string {
+  const locale = localeMap[language];
+  // date-fns localizes days with 0=Sunday
+  return locale.localize.day((isoDay % 7) as Day, { width });
+}
@@ -0,0 +1,27 @@
+import type { Api } from 'grammy';
+import { env } from '../../config/env.js';
+
+/**
+ * Timeout for downloading a file from Telegram.
+ */
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+
+/**
+ * Download a document sent to the bot and return its text content.
+ */
+export async function downloadTextFile(
+  api: Api,
+  fileId: string
+): Promise<string> {
+  const file = await api.getFile(fileId);
+  const url = `https://api.telegram.org/file/bot${env.TELEGRAM_BOT_TOKEN}/${file.file_path}`;
+  const res = await fetch(url, {
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+
+  if (!res.ok) {
+    throw new Error(`File download failed with status ${res.status}`);
+  }
+
+  return res.text();
+}
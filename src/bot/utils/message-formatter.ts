@@ -1,6 +1,12 @@
 import type { Area } from '@prisma/client';
-import type { UserStatistics, Language } from '../../types/index.js';
-import { formatDateTime } from './date-formatter.js';
+import type {
+  UserStatistics,
+  Language,
+  AreaCadence,
+  AreaStreak,
+} from '../../types/index.js';
+import { parseAreaCadence } from '../../services/areas.service.js';
+import { formatDateTime, formatWeekday } from './date-formatter.js';
 
 /**
  * Message formatter utility for bot messages.
@@ -31,11 +37,32 @@ export function formatPinnedMessage(
       : 'No areas yet. Add your first focus area!';
     lines.push(emptyMsg);
   } else {
+    const behind = new Set(stats.behindTargetAreaIds);
+    const streaks = new Map(stats.areaStreaks.map((s) => [s.areaId, s]));
     areas.forEach((area, index) => {
       const emoji = area.emoji ?? '•';
+      const cadence = formatCadence(parseAreaCadence(area), lang);
+      const schedule = cadence ? ` (${cadence})` : '';
+      const areaStreak = streaks.get(area.id);
+      const streak =
+        areaStreak && areaStreak.current > 0
+          ? ` 🔥${formatAreaStreak(areaStreak.current, areaStreak.unit, lang)}`
+          : '';
+      const flag = behind.has(area.id) ? ' ⚠️' : '';
       const body = area.body ? `\n   → ${area.body}` : '';
-      lines.push(`${index + 1}. ${emoji} ${area.title}${body}`);
+      lines.push(
+        `${index + 1}. ${emoji} ${area.title}${schedule}${streak}${flag}${body}`
+      );
     });
+
+    if (behind.size > 0) {
+      lines.push('');
+      lines.push(
+        isRu
+          ? '⚠️ — отставание от цели на этой неделе'
+          : '⚠️ — behind target this week'
+      );
+    }
   }
 
   lines.push('');
@@ -76,7 +103,9 @@ export function formatPinnedMessage(
     lines.push(`${lastLabel}: ${lastUpdateText}`);
   } else if (stats.totalEntries > 0) {
     // User has entries but no lastProgressDate (shouldn't happen, but handle gracefully)
-    const hasEntries = isRu ? 'Есть записи прогресса' : 'Progress entries exist';
+    const hasEntries = isRu
+      ? 'Есть записи прогресса'
+      : 'Progress entries exist';
     lines.push(hasEntries);
   } else {
     // Truly no progress entries at all
@@ -86,9 +115,70 @@ export function formatPinnedMessage(
     lines.push(noProgress);
   }
 
+  if (stats.longestStreak > 0) {
+    const best = stats.longestStreak;
+    const bestLabel = isRu ? 'Рекорд' : 'Best';
+    const dayWord = isRu
+      ? best % 10 === 1 && best % 100 !== 11
+        ? 'день'
+        : best % 10 >= 2 &&
+            best % 10 <= 4 &&
+            (best % 100 < 10 || best % 100 >= 20)
+          ? 'дня'
+          : 'дней'
+      : best === 1
+        ? 'day'
+        : 'days';
+    lines.push(`🏆 ${bestLabel}: ${best} ${dayWord}`);
+  }
+
   return lines.join('\n');
 }
 
+/**
+ * Format an area's target cadence (e.g., "3×/week", "Mon, Wed, Fri").
+ * Returns an empty string for daily areas (the default).
+ */
+export function formatCadence(
+  cadence: AreaCadence,
+  language: Language
+): string {
+  if (cadence.type === 'weekly') {
+    return language === 'ru'
+      ? `${cadence.timesPerWeek} р/нед`
+      : `${cadence.timesPerWeek}×/week`;
+  }
+
+  if (cadence.type === 'weekdays') {
+    return cadence.weekdays.map((d) => formatWeekday(d, language)).join(', ');
+  }
+
+  return '';
+}
+
+/**
+ * Format a streak length compactly, e.g. "5d" or "3w".
+ */
+export function formatAreaStreak(
+  length: number,
+  unit: AreaStreak['unit'],
+  language: Language
+): string {
+  if (language === 'ru') {
+    return `${length}${unit === 'weeks' ? 'н' : 'д'}`;
+  }
+  return `${length}${unit === 'weeks' ? 'w' : 'd'}`;
+}
+
+/**
+ * Format a metric value with its unit, e.g. "5.5 km".
+ * Rounds to at most two decimals and drops trailing zeros.
+ */
+export function formatMetricValue(value: number, unit: string | null): string {
+  const rounded = Number(value.toFixed(2)).toString();
+  return unit ? `${rounded} ${unit}` : rounded;
+}
+
 /**
  * Escape special characters for Telegram MarkdownV2.
  * Use this for user-provided content that might contain special chars.
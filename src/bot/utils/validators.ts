@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PROMPT_TEMPLATE_PLACEHOLDERS } from '../../types/index.js';
 
 /**
  * Validation constants for the application.
@@ -9,6 +10,11 @@ export const VALIDATION_LIMITS = {
   AREA_BODY_MAX: 200,
   PROGRESS_CONTENT_MAX: 200,
   MAX_AREAS_PER_USER: 7,
+  AREA_UNIT_MAX: 20,
+  METRIC_VALUE_MAX: 1_000_000,
+  TEMPLATE_NAME_MAX: 30,
+  TEMPLATE_BODY_MAX: 10_000,
+  MAX_TEMPLATES_PER_USER: 5,
 } as const;
 
 /**
@@ -62,6 +68,46 @@ export const progressContentSchema = z
     `Progress entry must be ${VALIDATION_LIMITS.PROGRESS_CONTENT_MAX} characters or less`
   );
 
+/**
+ * Schema for area metric unit (e.g. "km", "pages", "minutes").
+ * Required when defining a metric, 1-20 characters, trimmed.
+ */
+export const areaUnitSchema = z
+  .string()
+  .trim()
+  .min(1, 'Unit is required')
+  .max(
+    VALIDATION_LIMITS.AREA_UNIT_MAX,
+    `Unit must be ${VALIDATION_LIMITS.AREA_UNIT_MAX} characters or less`
+  );
+
+/**
+ * Schema for a numeric metric value or target.
+ * Accepts both "5.5" and "5,5", must be between 0 and 1,000,000.
+ */
+export const metricValueSchema = z
+  .string()
+  .trim()
+  .regex(/^\d+([.,]\d+)?$/, 'Please enter a number (e.g., 5 or 2.5)')
+  .transform((str) => parseFloat(str.replace(',', '.')))
+  .refine((value) => value <= VALIDATION_LIMITS.METRIC_VALUE_MAX, {
+    message: `Number must be ${VALIDATION_LIMITS.METRIC_VALUE_MAX} or less`,
+  });
+
+/**
+ * Schema for a metric progress entry: a number, optionally followed
+ * by the unit and a note (e.g. "5", "5 km", "5.2 km easy run").
+ */
+export const metricProgressSchema = z
+  .string()
+  .trim()
+  .regex(/^\d+([.,]\d+)?/, 'Please start with a number (e.g., 5 or 2.5)')
+  .transform((str) => {
+    const [, number = '', rest = ''] =
+      /^(\d+(?:[.,]\d+)?)([\s\S]*)$/.exec(str) ?? [];
+    return { number, rest: rest.trim() };
+  });
+
 /**
  * Schema for IANA timezone string.
  * Validates that the timezone is recognized by the system.
@@ -84,7 +130,10 @@ export const timezoneSchema = z.string().refine(
  */
 export const timeSchema = z
   .string()
-  .regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Time must be in HH:mm format (e.g., 09:00, 21:30)');
+  .regex(
+    /^([01]\d|2[0-3]):([0-5]\d)$/,
+    'Time must be in HH:mm format (e.g., 09:00, 21:30)'
+  );
 
 /**
  * Schema for creating a new area.
@@ -108,6 +157,63 @@ export const updateAreaSchema = z
     message: 'At least one field must be provided for update',
   });
 
+/**
+ * Placeholder in a prompt template, e.g. {{log}} or {{ log }}.
+ */
+export const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Available placeholders for display, e.g. "{{areas}}, {{log}}, ...".
+ */
+export const TEMPLATE_PLACEHOLDER_LIST = PROMPT_TEMPLATE_PLACEHOLDERS.map(
+  (name) => `{{${name}}}`
+).join(', ');
+
+/**
+ * Schema for a custom prompt template name.
+ * Required, 1-30 characters, trimmed.
+ */
+export const templateNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(
+    VALIDATION_LIMITS.TEMPLATE_NAME_MAX,
+    `Name must be ${VALIDATION_LIMITS.TEMPLATE_NAME_MAX} characters or less`
+  );
+
+/**
+ * Schema for a custom prompt template body.
+ * Must use at least one placeholder, and only known ones.
+ */
+export const templateBodySchema = z
+  .string()
+  .trim()
+  .min(1, 'Template is empty')
+  .max(
+    VALIDATION_LIMITS.TEMPLATE_BODY_MAX,
+    `Template must be ${VALIDATION_LIMITS.TEMPLATE_BODY_MAX} characters or less`
+  )
+  .superRefine((body, ctx) => {
+    const known: readonly string[] = PROMPT_TEMPLATE_PLACEHOLDERS;
+    const used = [...body.matchAll(TEMPLATE_PLACEHOLDER_PATTERN)].map(
+      (match) => match[1] ?? ''
+    );
+    const unknown = used.find((name) => !known.includes(name));
+
+    if (unknown !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown placeholder {{${unknown}}}. Available: ${TEMPLATE_PLACEHOLDER_LIST}`,
+      });
+    } else if (used.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Template must use at least one placeholder: ${TEMPLATE_PLACEHOLDER_LIST}`,
+      });
+    }
+  });
+
 /**
  * Validation result type for consistent error handling.
  */
@@ -162,10 +268,73 @@ export function validateEmoji(
 /**
  * Validates progress entry content.
  */
-export function validateProgressContent(input: string): ValidationResult<string> {
+export function validateProgressContent(
+  input: string
+): ValidationResult<string> {
   return validate(progressContentSchema, input);
 }
 
+/**
+ * Validates area unit input.
+ */
+export function validateAreaUnit(input: string): ValidationResult<string> {
+  return validate(areaUnitSchema, input);
+}
+
+/**
+ * Validates a numeric metric value or target.
+ */
+export function validateMetricValue(input: string): ValidationResult<number> {
+  return validate(metricValueSchema, input);
+}
+
+/**
+ * Validates a metric progress entry for an area with a unit.
+ * The unit after the number is optional; anything else becomes the note.
+ */
+export function validateMetricProgress(
+  input: string,
+  unit: string
+): ValidationResult<{ value: number; note: string | null }> {
+  const parsed = validate(metricProgressSchema, input);
+  if (!parsed.success) return parsed;
+
+  const value = validateMetricValue(parsed.data.number);
+  if (!value.success) return value;
+
+  // Strip a leading unit (e.g. "5 km easy run" -> "easy run")
+  let note = parsed.data.rest;
+  if (note.toLowerCase().startsWith(unit.toLowerCase())) {
+    const afterUnit = note.slice(unit.length);
+    if (afterUnit === '' || /^\s/.test(afterUnit)) {
+      note = afterUnit.trim();
+    }
+  }
+
+  if (note.length === 0) {
+    return { success: true, data: { value: value.data, note: null } };
+  }
+
+  const content = validateProgressContent(note);
+  if (!content.success) return content;
+
+  return { success: true, data: { value: value.data, note: content.data } };
+}
+
+/**
+ * Validates a custom prompt template name.
+ */
+export function validateTemplateName(input: string): ValidationResult<string> {
+  return validate(templateNameSchema, input);
+}
+
+/**
+ * Validates a custom prompt template body.
+ */
+export function validateTemplateBody(input: string): ValidationResult<string> {
+  return validate(templateBodySchema, input);
+}
+
 /**
  * Validates timezone string.
  */
@@ -182,11 +351,14 @@ export function validateTime(input: string): ValidationResult<string> {
 
 /**
  * Schema for date in DD.MM.YY format.
- * Validates that date is in the past and not more than 7 days ago.
+ * Only checks that the date exists (e.g., no 31.02.26).
  */
-export const pastDateSchema = z
+export const dateSchema = z
   .string()
-  .regex(/^(\d{2})\.(\d{2})\.(\d{2})$/, 'Date must be in DD.MM.YY format (e.g., 01.02.26)')
+  .regex(
+    /^(\d{2})\.(\d{2})\.(\d{2})$/,
+    'Date must be in DD.MM.YY format (e.g., 01.02.26)'
+  )
   .transform((str, ctx) => {
     const parts = str.split('.');
     const day = parseInt(parts[0] ?? '0', 10);
@@ -197,7 +369,7 @@ export const pastDateSchema = z
     const fullYear = year < 50 ? 2000 + year : 1900 + year;
 
     const date = new Date(fullYear, month, day);
-    
+
     // Validate date is valid
     if (
       date.getDate() !== day ||
@@ -212,13 +384,23 @@ export const pastDateSchema = z
     }
 
     return date;
-  })
+  });
+
+/**
+ * Schema for date in DD.MM.YY format.
+ * Validates that date is in the past and not more than 7 days ago.
+ */
+export const pastDateSchema = dateSchema
   .refine(
     (date) => {
       const now = new Date();
       const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const selectedDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-      
+      const selectedDate = new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate()
+      );
+
       // Date must be in the past (not today or future)
       return selectedDate < today;
     },
@@ -228,15 +410,29 @@ export const pastDateSchema = z
     (date) => {
       const now = new Date();
       const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const selectedDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-      const daysDiff = Math.floor((today.getTime() - selectedDate.getTime()) / (1000 * 60 * 60 * 24));
-      
+      const selectedDate = new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate()
+      );
+      const daysDiff = Math.floor(
+        (today.getTime() - selectedDate.getTime()) / (1000 * 60 * 60 * 24)
+      );
+
       // Date must be within last 7 days
       return daysDiff <= 7;
     },
     { message: 'Date must be within the last 7 days' }
   );
 
+/**
+ * Validates date string in DD.MM.YY format without range limits.
+ * Returns validated Date object if valid.
+ */
+export function validateDate(input: string): ValidationResult<Date> {
+  return validate(dateSchema, input);
+}
+
 /**
  * Validates date string in DD.MM.YY format.
  * Returns validated Date object if valid.
@@ -1,14 +1,50 @@
 import { z } from 'zod';
 import 'dotenv/config';
 
-const envSchema = z.object({
-  TELEGRAM_BOT_TOKEN: z.string().min(1, 'TELEGRAM_BOT_TOKEN is required'),
-  DATABASE_URL: z.string().default('file:./data/app.db'),
-  NODE_ENV: z
-    .enum(['development', 'production', 'test'])
-    .default('development'),
-  DEFAULT_TIMEZONE: z.string().default('UTC'),
-});
+const envSchema = z
+  .object({
+    TELEGRAM_BOT_TOKEN: z.string().min(1, 'TELEGRAM_BOT_TOKEN is required'),
+    DATABASE_URL: z.string().default('file:./data/app.db'),
+    NODE_ENV: z
+      .enum(['development', 'production', 'test'])
+      .default('development'),
+    DEFAULT_TIMEZONE: z.string().default('UTC'),
+    LOG_LEVEL: z
+      .enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'])
+      .default('info'),
+    // How long (minutes) a missed digest/reminder may still be sent late
+    NOTIFICATION_GRACE_MINUTES: z.coerce.number().int().min(0).default(120),
+    // Webhook mode: set WEBHOOK_URL to receive updates via HTTP instead of polling
+    WEBHOOK_URL: z.url().optional(),
+    // Sent by Telegram in X-Telegram-Bot-Api-Secret-Token (1-256 chars: A-Z, a-z, 0-9, _ and -)
+    WEBHOOK_SECRET: z
+      .string()
+      .regex(/^[A-Za-z0-9_-]{1,256}$/, 'WEBHOOK_SECRET has invalid format')
+      .optional(),
+    PORT: z.coerce.number().int().positive().default(3000),
+    // Bearer token for /metrics (the route is off while it is unset)
+    METRICS_TOKEN: z
+      .string()
+      .min(16, 'METRICS_TOKEN must be at least 16 characters')
+      .optional(),
+    // Direct analysis: set LLM_BASE_URL to send /summary prompts to an
+    // OpenAI-compatible chat-completions API (e.g. https://api.openai.com/v1)
+    LLM_BASE_URL: z.url().optional(),
+    LLM_MODEL: z.string().min(1).optional(),
+    // Sent as "Authorization: Bearer <key>" (local servers may not need one)
+    LLM_API_KEY: z.string().min(1).optional(),
+    LLM_TIMEOUT_SECONDS: z.coerce.number().int().positive().default(60),
+    // Successful analyses per user per day (in the user's timezone)
+    LLM_DAILY_QUOTA: z.coerce.number().int().min(0).default(5),
+  })
+  .refine((data) => !data.WEBHOOK_URL || !!data.WEBHOOK_SECRET, {
+    message: 'WEBHOOK_SECRET is required when WEBHOOK_URL is set',
+    path: ['WEBHOOK_SECRET'],
+  })
+  .refine((data) => !data.LLM_BASE_URL || !!data.LLM_MODEL, {
+    message: 'LLM_MODEL is required when LLM_BASE_URL is set',
+    path: ['LLM_MODEL'],
+  });
 
 const parsed = envSchema.safeParse(process.env);
 
@@ -25,3 +61,4 @@ export const env = parsed.data;
 
 export const isDev = env.NODE_ENV === 'development';
 export const isProd = env.NODE_ENV === 'production';
+export const isLlmEnabled = !!env.LLM_BASE_URL && env.LLM_DAILY_QUOTA > 0;
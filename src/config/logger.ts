@@ -0,0 +1,32 @@
+import pino from 'pino';
+import type { Logger } from 'pino';
+import { env, isDev } from './env.js';
+
+/**
+ * Shared application logger.
+ * Pretty output in development, JSON lines otherwise.
+ * Subsystems get child loggers tagged with a module name, and add
+ * correlation fields (update_id, telegram_user_id, conversation, job) as needed.
+ */
+export const logger: Logger = pino({
+  level: env.LOG_LEVEL,
+  transport: isDev
+    ? {
+        target: 'pino-pretty',
+        options: {
+          colorize: true,
+          translateTime: 'SYS:HH:MM:ss',
+          ignore: 'pid,hostname',
+        },
+      }
+    : undefined,
+});
+
+/**
+ * Create a child logger for a subsystem.
+ */
+export function createLogger(module: string): Logger {
+  return logger.child({ module });
+}
+
+export type { Logger };
@@ -0,0 +1,79 @@
+import type { StorageAdapter } from 'grammy';
+import prisma from './client.js';
+
+/**
+ * Prisma-backed storage adapter for grammY sessions and conversations.
+ * Values are stored as JSON. BigInt and Date values (e.g. Prisma records
+ * returned from conversation.external) are tagged so they survive a round trip.
+ */
+
+interface TaggedValue {
+  __type: 'bigint' | 'date';
+  value: string;
+}
+
+function isTaggedValue(value: unknown): value is TaggedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '__type' in value &&
+    'value' in value &&
+    typeof value.value === 'string'
+  );
+}
+
+/**
+ * Serialize a value to JSON, tagging BigInt and Date values.
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: unknown, key, current) {
+    // Date.toJSON runs before the replacer, so check the raw value
+    const raw = (this as Record<string, unknown>)[key];
+
+    if (raw instanceof Date) {
+      return { __type: 'date', value: raw.toISOString() };
+    }
+    if (typeof current === 'bigint') {
+      return { __type: 'bigint', value: current.toString() };
+    }
+    return current as unknown;
+  });
+}
+
+/**
+ * Deserialize JSON produced by serialize, restoring BigInt and Date values.
+ */
+export function deserialize<T>(json: string): T {
+  return JSON.parse(json, (_key, current: unknown) => {
+    if (isTaggedValue(current)) {
+      if (current.__type === 'bigint') return BigInt(current.value);
+      if (current.__type === 'date') return new Date(current.value);
+    }
+    return current;
+  }) as T;
+}
+
+/**
+ * Create a storage adapter that keeps values in the sessions table.
+ */
+export function createPrismaStorage<T>(): StorageAdapter<T> {
+  return {
+    async read(key: string): Promise<T | undefined> {
+      const session = await prisma.session.findUnique({ where: { key } });
+      return session ? deserialize<T>(session.value) : undefined;
+    },
+
+    async write(key: string, value: T): Promise<void> {
+      const data = serialize(value);
+      await prisma.session.upsert({
+        where: { key },
+        update: { value: data },
+        create: { key, value: data },
+      });
+    },
+
+    async delete(key: string): Promise<void> {
+      await prisma.session.deleteMany({ where: { key } });
+    },
+  };
+}
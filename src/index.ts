@@ -1,15 +1,31 @@
-import { env, isDev } from './config/env.js';
+import { env } from './config/env.js';
+import { createLogger } from './config/logger.js';
 import { bot } from './bot/bot.js';
 import { prisma } from './db/client.js';
 import { startScheduler } from './scheduler/jobs.js';
+import { startHttpServer, stopHttpServer } from './server/http.js';
+import { setupWebhook, removeWebhook } from './server/webhook.js';
+import { registerHealthRoutes, setDatabaseReady } from './server/health.js';
+import { registerMetricsRoute } from './server/metrics.js';
+
+const log = createLogger('app');
 
 async function main(): Promise<void> {
+  // HTTP server for health checks and metrics (and webhook updates)
+  registerHealthRoutes();
+  if (env.METRICS_TOKEN) {
+    registerMetricsRoute(env.METRICS_TOKEN);
+  }
+  await startHttpServer(env.PORT);
+  log.info(`HTTP server listening on port ${env.PORT}`);
+
   // Test database connection
   try {
     await prisma.$connect();
-    console.log('Database connected successfully');
+    setDatabaseReady(true);
+    log.info('Database connected successfully');
   } catch (error) {
-    console.error('Failed to connect to database:', error);
+    log.fatal({ err: error }, 'Failed to connect to database');
     process.exit(1);
   }
 
@@ -17,21 +33,17 @@ async function main(): Promise<void> {
   startScheduler();
 
   // Start bot
-  console.log(`Starting bot in ${env.NODE_ENV} mode...`);
+  log.info(`Starting bot in ${env.NODE_ENV} mode...`);
 
-  if (isDev) {
-    // Development: use long polling
-    await bot.start({
-      onStart: (botInfo) => {
-        console.log(`Bot @${botInfo.username} started successfully!`);
-      },
-    });
+  if (env.WEBHOOK_URL && env.WEBHOOK_SECRET) {
+    // Webhook mode: receive updates via the built-in HTTP server
+    await setupWebhook(env.WEBHOOK_URL, env.WEBHOOK_SECRET);
+    log.info(`Bot @${bot.botInfo.username} started with webhook!`);
   } else {
-    // Production: could use webhooks
-    // For now, use polling in production too
+    // Polling mode: use long polling
     await bot.start({
       onStart: (botInfo) => {
-        console.log(`Bot @${botInfo.username} started successfully!`);
+        log.info(`Bot @${botInfo.username} started successfully!`);
       },
     });
   }
@@ -39,8 +51,20 @@ async function main(): Promise<void> {
 
 // Graceful shutdown
 async function shutdown(): Promise<void> {
-  console.log('Shutting down...');
-  bot.stop();
+  log.info('Shutting down...');
+
+  if (env.WEBHOOK_URL) {
+    try {
+      await removeWebhook();
+    } catch (error) {
+      log.error({ err: error }, 'Failed to remove webhook');
+    }
+  } else {
+    await bot.stop();
+  }
+
+  await stopHttpServer();
+  setDatabaseReady(false);
   await prisma.$disconnect();
   process.exit(0);
 }
@@ -50,6 +74,6 @@ process.on('SIGTERM', shutdown);
 
 // Run
 main().catch((error) => {
-  console.error('Fatal error:', error);
+  log.fatal({ err: error }, 'Fatal error');
   process.exit(1);
 });
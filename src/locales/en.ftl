@@ -22,6 +22,11 @@ add-area-emoji-prompt =
   Examples: 💼 🏃 📚 👨‍👩‍👧 💰
   
   Type /skip to skip.
+add-area-unit-prompt = 
+  Is this area measured in numbers? 📏
+  
+  Enter a unit (e.g. km, pages, minutes) to log a number each day, or skip to log free text.
+add-area-target-prompt = Enter a daily target in { $unit } (optional):
 add-area-success = 
   Focus area added! ✅
   
@@ -39,6 +44,11 @@ edit-area-emoji = 🎨 Edit Emoji
 edit-area-title-prompt = Enter new title (max 50 characters):
 edit-area-body-prompt = Enter new description (max 200 characters) or /remove to remove:
 edit-area-emoji-prompt = Enter new emoji or /remove to remove:
+edit-area-unit-prompt = Enter a unit (e.g. km, pages, minutes) or /remove to log free text:
+edit-area-target-prompt = Enter a daily target in { $unit } or /remove to remove it:
+edit-area-cadence-prompt = How often do you want to work on this area?
+edit-area-times-prompt = How many times per week?
+edit-area-weekdays-prompt = Select the days for this area, then press Done:
 edit-area-updated = Area updated successfully! ✅
 
 # Delete area
@@ -53,6 +63,7 @@ delete-area-deleted = Area "{ $title }" has been deleted.
 areas-no-areas-to-edit = No areas to edit. Add some first!
 areas-select-to-edit = Select an area to edit:
 areas-what-to-do = What would you like to do?
+areas-position = Position { $position } of { $total }
 areas-deleted-success = Area deleted.
 areas-deleted-no-remaining = Area deleted.
 
@@ -60,6 +71,15 @@ No areas remaining.
 areas-remaining = Remaining areas:
 areas-edit-coming-soon = Edit functionality coming soon...
 
+# Archive
+areas-archived-title = 🗄 Archived
+areas-archived-label = 🗄 Archived — hidden from logging and digests. Progress history is kept.
+areas-archived-select = Select an archived area to restore or delete:
+areas-archived-empty = No archived areas.
+areas-archived-success = "{ $title }" archived. Its progress history is kept — you can restore it from /areas.
+areas-restored-success = "{ $title }" restored!
+error-restore-max-areas = You already have { $max } active areas. Archive one to restore this area.
+
 # Error messages
 error-please-start = Please start the bot first with /start
 error-area-not-found = Area not found
@@ -88,6 +108,20 @@ btn-done-continue = ✅ Done, continue
 btn-edit-title = 📝 Title
 btn-edit-description = 📄 Description
 btn-edit-emoji = 😀 Emoji
+btn-edit-metric = 📏 Unit & Target
+btn-skip-no-unit = ⏭ Skip (free text)
+btn-skip-no-target = ⏭ Skip (no target)
+btn-edit-schedule = 🗓 Schedule
+btn-archive = 🗄 Archive
+btn-restore = ♻️ Restore
+btn-delete-permanently = 🗑 Delete permanently
+btn-archived-areas = 🗄 Archived ({ $count })
+btn-move-up = ⬆️ Move up
+btn-move-down = ⬇️ Move down
+btn-cadence-daily = Every day
+btn-cadence-weekly = N times per week
+btn-cadence-weekdays = Specific days
+btn-times-per-week = { $count }×
 btn-today = 📅 Today
 btn-past-period = 📆 Past Period
 btn-custom-date = 📝 Enter Date
@@ -101,6 +135,10 @@ error-max-areas = You have reached the maximum limit of 7 focus areas
 error-invalid-time = Invalid time format. Please use HH:mm (e.g., 09:00)
 error-invalid-timezone = Invalid timezone
 error-invalid-emoji = Invalid emoji. Please send a single emoji character
+error-no-weekdays = Select at least one day
+error-area-unit-too-long = Unit must not exceed 20 characters
+error-invalid-number = Please enter a number (e.g., 5 or 2.5)
+error-invalid-metric-value = Please start with a number in { $unit } (e.g., 5 or 2.5), optionally followed by a note
 error-invalid-date = Date is invalid or too far. Use DD.MM.YY format (e.g., 01.02.26). Date must be in the past and not more than a week ago.
 error-something-wrong = Something went wrong. Please try again
 
@@ -240,6 +278,8 @@ progress-area-prompt =
 
     What did you accomplish?
 
+progress-metric-hint = 📏 Enter a number in { $unit }, optionally followed by a note
+progress-metric-target = 🎯 Daily target: { $target }
 progress-skipped = Skipped
 progress-all-done = All areas completed! ✅
 
@@ -304,6 +344,31 @@ progress-custom-date-prompt =
   Date must be:
   • In the past (not today or future)
   • Not more than a week ago
+# Progress history
+history-date-selection = 
+  📖 *Select a day to review*
+
+  Which day's entries would you like to view?
+history-title = 📖 Entries for { $date }
+history-empty = No entries logged for { $date }.
+history-select-entry = Select an entry to edit or delete:
+history-what-to-do = What would you like to do with this entry?
+history-check-in = Check-in (no areas logged)
+history-freeze = Streak freeze
+history-edit-prompt = Enter the new text for this entry (max 200 characters):
+history-select-area = Move this entry to which area?
+history-no-target-areas = No other area to move this entry to: every area with the same unit already has an entry for this day.
+history-area-conflict = That area already has an entry for this day.
+history-delete-confirm = 
+  Delete this entry?
+
+  ⚠️ This cannot be undone.
+history-entry-updated = Entry updated.
+history-entry-moved = Entry moved.
+history-entry-deleted = Entry deleted.
+btn-history-edit-content = ✏️ Edit text
+btn-history-change-area = 🔀 Change area
+error-entry-not-found = Entry not found
 # Scheduler messages (digests and reminders)
 
 # Morning digest
@@ -331,6 +396,11 @@ settings-language = 🌍 Language
 settings-timezone = 🌐 Timezone
 settings-digest = 📬 Daily Digest Times
 settings-reminder = ⏰ Progress Reminder
+settings-streak-warning = 🛡 Streak Protection
+settings-rest-days = 🛌 Rest Days
+settings-weekly-review = 📅 Weekly Review
+settings-reports = 📆 Retrospectives
+settings-summary-delivery = 🤖 Summary Prompt
 
 # Language settings
 language-title = 🌍 Language Settings
@@ -368,11 +438,89 @@ reminder-prompt = Enter time for progress reminder (HH:mm, e.g., 20:00):
 reminder-updated = Progress reminder set to { $time }
 reminder-removed = Progress reminder removed
 
+# Streak warning settings
+streak-warning-title = 🛡 Streak Protection Settings
+streak-warning-description = Late in the evening the bot warns you if your streak (3+ days) is about to break because nothing was logged today. One tap checks you in or starts logging.
+streak-warning-current = Current time: { $time }
+streak-warning-off = Off
+streak-warning-updated = Streak warning set to { $time }
+streak-warning-disabled = Streak warning turned off
+
+# Streak warning buttons
+btn-quick-check-in = ✅ Quick check-in
+btn-log-now = 📝 Log now
+streak-checked-in = Checked in! Your 🔥 { $days }-day streak is safe.
+streak-already-active = You already have activity today — your 🔥 { $days }-day streak is safe.
+streak-warning-expired = This warning was for an earlier day, so a check-in can't save that streak anymore. If the day was missed, /freeze can cover it.
+
+# Rest days settings
+rest-days-title = 🛌 Rest Days Settings
+rest-days-description = Plan days off, like weekends. A rest day without activity doesn't break your streak (activity on it still counts). Up to { $max } rest days a week.
+rest-days-current = Rest days: { $days }
+rest-days-none = None
+rest-days-updated = Rest days updated
+rest-days-max = You can have up to { $max } rest days a week
+
+# Streak freezes (/freeze)
+freeze-title = 🧊 *Streak freezes*
+freeze-available = Available: { $count } of { $max }
+freeze-next = Next freeze after { $days } more { $days ->
+    [one] day
+   *[other] days
+  } of activity in a row
+freeze-max = You hold the maximum number of freezes
+freeze-rest-days = 🛌 Rest days: { $days }
+freeze-no-rest-days = 🛌 No rest days — plan them in /settings
+freeze-nothing-missed = ✅ No missed days — nothing to freeze.
+freeze-missed = You missed { $count } { $count ->
+    [one] day
+   *[other] days
+  }: { $dates }. Use freezes to keep your streak.
+freeze-not-enough = ⚠️ You missed more days than you have freezes, so this streak can't be saved.
+freeze-hint = _Earn a freeze for every { $days } days of activity in a row (up to { $max }). A freeze covers a missed day so your streak stays intact._
+freeze-applied = 🧊 { $count } { $count ->
+    [one] day
+   *[other] days
+  } frozen — your 🔥 { $days }-day streak is safe.
+freeze-error-nothing-to-freeze = Nothing to freeze
+freeze-error-not-enough-freezes = Not enough freezes
+btn-freeze-apply = 🧊 Use { $count } { $count ->
+    [one] freeze
+   *[other] freezes
+  }
+
+# Weekly review settings
+weekly-review-title = 📅 Weekly Review Settings
+weekly-review-description = Once a week the bot looks back over the past 7 days: days logged and skipped per area, streak changes and the area that needs attention most.
+weekly-review-current = Current schedule: { $schedule }
+weekly-review-schedule = { $day } at { $time }
+weekly-review-off = Off
+weekly-review-pick-time = Pick a time to turn the weekly review on.
+weekly-review-updated = Weekly review set to { $schedule }
+weekly-review-disabled = Weekly review turned off
+btn-weekly-review-summary = 🤖 Summary prompt for this week
+
+# Retrospective report settings
+reports-title = 📆 Retrospective Settings
+reports-description = On the 1st of each month at 10:00 the bot sends a retrospective of the month that just ended: activity calendar, entries per area, the longest streak and the first and last entries. On January 1st the year's retrospective follows. You can also see them any time with /report month or /report year.
+reports-current = Currently: { $status }
+reports-on = On
+reports-off = Off
+reports-enabled = Retrospectives turned on
+reports-disabled = Retrospectives turned off
+
 # Keyboard buttons
 btn-language = 🌐 Language
 btn-timezone = 🌍 Timezone
 btn-digest-reminders = 📋 Digest Reminders
 btn-progress-reminder = 📝 Progress Reminder
+btn-streak-warning = 🛡 Streak Protection
+btn-rest-days = 🛌 Rest Days
+btn-weekly-review = 📅 Weekly Review
+btn-reports = 📆 Retrospectives
+btn-reports-on = ✅ On
+btn-reports-off = 🚫 Off
+btn-summary-delivery = 🤖 Summary Prompt
 btn-reset-all = 🗑 Reset All Data
 btn-back = ← Back
 btn-other-custom = 📝 Other (type manually)
@@ -383,6 +531,15 @@ btn-clear-all = 🗑 Clear All
 btn-cancel = ← Cancel
 btn-confirm = ✅ Confirm
 
+# Summary prompt delivery settings
+summary-delivery-title = 🤖 Summary Prompt Delivery
+summary-delivery-description = How should /summary send the AI analysis prompt?
+summary-delivery-inline = 💬 Inline messages
+summary-delivery-md = 📄 Markdown file (.md)
+summary-delivery-txt = 📄 Text file (.txt)
+summary-delivery-llm = 🧠 AI analysis in chat
+summary-delivery-updated = Summary prompt delivery updated
+
 # Reset confirmation
 reset-title = 🗑 Reset All Data
 reset-warning = ⚠️ This will permanently delete all your data including:
@@ -410,6 +567,10 @@ summary-7days = Last 7 days
 summary-14days = Last 14 days
 summary-30days = Last 30 days
 summary-all = All time
+summary-this-month = This month
+summary-last-month = Last month
+summary-this-quarter = This quarter
+summary-custom-range = 📅 Custom range
 
 summary-generating = Generating prompt...
 
@@ -453,13 +614,181 @@ summary-ready =
 summary-copy-instruction =
   💡 Tip: Select all text above and copy it to your AI assistant.
 
+summary-ready-file = 
+  ✅ Prompt ready!
+  
+  Attach the file below to ChatGPT or Claude, or open it and copy the text:
+
+summary-file-instruction = 💡 Tip: attaching the whole file is easier than copying long text.
+btn-summary-as-md = 📄 As .md file
+btn-summary-as-txt = 📄 As .txt file
+btn-summary-as-inline = 💬 As messages
+btn-summary-as-llm = 🧠 Analyze here
+
+summary-ready-llm = 
+  ✅ Prompt ready!
+  
+  🧠 Sending it for analysis, the answer will appear here shortly.
+  Analyses left today: { $remaining }
+
+summary-llm-remaining = 💡 Analyses left today: { $remaining }
+summary-llm-error-disabled = Direct analysis is not available. Here's the prompt to copy into ChatGPT or Claude instead:
+summary-llm-error-quota-exceeded = You've used all analyses for today. Here's the prompt to copy into ChatGPT or Claude instead:
+summary-llm-error-timeout = The AI took too long to answer. Here's the prompt to copy into ChatGPT or Claude instead:
+summary-llm-error-http-error = Couldn't get the analysis right now. Here's the prompt to copy into ChatGPT or Claude instead:
+summary-llm-error-network = Couldn't reach the AI service. Here's the prompt to copy into ChatGPT or Claude instead:
+summary-llm-error-invalid-response = The AI service sent an unexpected answer. Here's the prompt to copy into ChatGPT or Claude instead:
+
+summary-range-start = 
+  📅 *Custom range*
+  
+  Send the first day of the period (DD.MM.YY, e.g., 01.09.26):
+summary-range-end = First day: { $start }. Now send the last day (DD.MM.YY) or tap "Today":
+summary-range-error-future = The date can't be in the future.
+summary-range-error-order = The last day can't be before the first day.
+
+# Analysis prompt templates
+btn-summary-template = 📝 Template: { $name }
+template-list-title = 📝 *Analysis prompt templates*
+template-list-description = 
+  Choose how the AI should analyze your progress, or upload your own template.
+  
+  Custom templates are plain text with these placeholders: { $placeholders }
+template-default = Standard analysis
+template-weekly-review = Weekly review
+template-neglected-areas = Neglected areas deep dive
+template-motivation-coach = Motivation coach
+template-okr-check = OKR check
+btn-template-upload = ➕ Upload template
+template-selected = Template selected
+template-deleted = Template deleted
+template-add-name = 
+  📝 *New template*
+  
+  Send a name for the template (up to 30 characters):
+template-add-body = 
+  Now send the template text, or upload it as a .md or .txt file (a file keeps Markdown formatting intact).
+  
+  Use these placeholders where your data should go: { $placeholders }
+template-error-file = Please upload a .md or .txt file of up to 100 KB.
+template-error-max = You already have { $max } custom templates (maximum). Delete one to upload another.
+template-added = Template "{ $name }" saved and selected.
+
+# Data export
+export-title = 📦 *Export your data*
+export-choose-format = 
+  Choose a format:
+  • *JSON* — complete backup (settings, areas and all entries)
+  • *CSV* — one row per entry, for spreadsheets
+  • *Markdown* — readable journal grouped by day
+btn-export-json = JSON
+btn-export-csv = CSV
+btn-export-md = Markdown
+export-generating = Preparing your export...
+export-ready = 📦 Your data export
+
+# Data import
+import-start = 
+  📥 *Import history*
+  
+  Send a file with your past logs:
+  • *JSON* — a file from /export
+  • *CSV* — a header row with `date` (YYYY-MM-DD) and `area` columns, plus optional `content`, `value`, `unit`, `emoji` and `skipped` columns (the /export CSV works too)
+  
+  Areas are matched by name (or created), and entries for the same area and day are overwritten. You will see a preview before anything is saved.
+import-error-too-large = The file is too large (max 1 MB).
+import-error-unsupported-format = Unsupported file type. Send a .json or .csv file.
+import-error-invalid-json = This JSON file is not a valid export. Use a file from /export.
+import-error-unsupported-version = This export version is not supported.
+import-error-missing-columns = The CSV file needs a header row with "date" and "area" columns.
+import-error-too-many-rows = The file has too many rows (max 10,000).
+import-error-empty = The file is empty.
+import-error-download-failed = Couldn't download the file. Please send it again.
+import-error-no-valid-rows = No valid rows found in the file.
+import-preview-title = 🔍 Import preview (nothing saved yet)
+import-preview-areas = Areas: { $matched } matched, { $created } new
+import-preview-entries = Entries: { $created } new, { $overwritten } overwritten
+import-preview-check-ins = Check-ins: { $count } new
+import-preview-freezes = Streak freezes: { $count } new
+import-preview-archived = New areas archived because of the 7-area limit: { $count }
+import-preview-settings = Settings (language, timezone, notifications, rest days, /summary) will be restored from the file.
+import-preview-unit-mismatch = Areas with a different unit than your area of the same name: { $areas } (their entries are skipped: { $entries })
+import-preview-conflicts = Existing entries for the same area and day will be replaced.
+import-preview-errors = Skipped { $count } invalid { $count ->
+    [one] row
+   *[other] rows
+  }:
+import-preview-error-row = • Row { $row }: { $message }
+import-preview-confirm = Import now?
+btn-import-confirm = 📥 Import
+import-importing = Importing...
+import-done = Import complete: { $areas } new areas, { $entries } entries, { $checkIns } check-ins.
+
+# Retrospective reports (/report)
+report-usage = Usage: `/report month` or `/report year`
+btn-report-this-month = This month
+btn-report-last-month = Last month
+btn-report-this-year = This year
+btn-report-last-year = Last year
+
+# Detailed statistics (/stats)
+stats-title = 📊 *Statistics*
+stats-all-areas = All areas
+stats-period = Last { $days } days
+stats-days = { $count } { $count ->
+    [one] day
+   *[other] days
+  }
+stats-weeks = { $count } { $count ->
+    [one] week
+   *[other] weeks
+  }
+stats-current-streak = 🔥 Current streak: { $value }
+stats-longest-streak = 🏆 Longest streak: { $value }
+stats-completion = ✅ Completion: { $rate }%
+stats-completion-none = ✅ Completion: —
+stats-entries = 📝 Entries: { $entries } · active days: { $days }
+stats-average = 📈 Entries per day with entries: { $average }
+stats-weekdays = 📅 Best weekday: { $best } · worst: { $worst }
+stats-check-in-ratio = ☑️ Check-in-only days: { $rate }%
+stats-frozen-days = 🧊 Streak freezes used: { $count }
+stats-shares = 🎯 *Share of entries*
+stats-no-entries = _No entries in this period._
+btn-stats-days = { $days } days
+btn-stats-all = 📊 All areas
+
+# Activity heatmap (/heatmap)
+heatmap-title = 🗓 *Activity heatmap*
+heatmap-all-areas = All areas
+heatmap-progress-days = 🟩 Entries: { $count } { $count ->
+    [one] day
+   *[other] days
+  }
+heatmap-check-in-days = 🟦 Check-in only: { $count } { $count ->
+    [one] day
+   *[other] days
+  }
+heatmap-frozen-days = 🟪 Streak freeze: { $count } { $count ->
+    [one] day
+   *[other] days
+  }
+heatmap-no-activity = ⬜ No activity
+btn-heatmap-all = 🗓 All areas
+
 # Help command
 help-title = 📖 *Better Goals Help*
 help-commands = *Commands:*
 help-start = /start - Start bot and see your areas
 help-areas = /areas - Manage focus areas
 help-progress = /progress - Log daily progress
+help-history = /history - View, edit or delete logged entries
 help-summary = /summary - Generate AI analysis prompt
+help-report = /report - Monthly or yearly retrospective (/report month|year)
+help-stats = /stats - Detailed statistics by period and area
+help-heatmap = /heatmap - Activity heatmap for the past year, overall or per area
+help-freeze = /freeze - Streak freezes and missed days
+help-export = /export - Download all your data (JSON, CSV or Markdown)
+help-import = /import - Import history from a JSON or CSV file
 help-settings = /settings - Configure reminders
 help-help = /help - Show this message
 help-philosophy = *Philosophy:*
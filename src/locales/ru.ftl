@@ -22,6 +22,11 @@ add-area-emoji-prompt =
   Примеры: 💼 🏃 📚 👨‍👩‍👧 💰
   
   Напишите /skip чтобы пропустить.
+add-area-unit-prompt = 
+  Эта область измеряется числами? 📏
+  
+  Введите единицу измерения (например, км, страницы, минуты), чтобы каждый день записывать число, или пропустите, чтобы писать текст.
+add-area-target-prompt = Введите дневную цель в { $unit } (необязательно):
 add-area-success = 
   Область фокуса добавлена! ✅
   
@@ -39,6 +44,11 @@ edit-area-emoji = 🎨 Изменить эмодзи
 edit-area-title-prompt = Введите новое название (максимум 50 символов):
 edit-area-body-prompt = Введите новое описание (максимум 200 символов) или /remove чтобы удалить:
 edit-area-emoji-prompt = Введите новое эмодзи или /remove чтобы удалить:
+edit-area-unit-prompt = Введите единицу измерения (например, км, страницы, минуты) или /remove чтобы писать текст:
+edit-area-target-prompt = Введите дневную цель в { $unit } или /remove чтобы удалить её:
+edit-area-cadence-prompt = Как часто вы хотите заниматься этой областью?
+edit-area-times-prompt = Сколько раз в неделю?
+edit-area-weekdays-prompt = Выберите дни для этой области и нажмите «Готово»:
 edit-area-updated = Область успешно обновлена! ✅
 
 # Удаление области
@@ -53,6 +63,7 @@ delete-area-deleted = Область "{ $title }" была удалена.
 areas-no-areas-to-edit = Нет областей для редактирования. Сначала добавьте!
 areas-select-to-edit = Выберите область для редактирования:
 areas-what-to-do = Что вы хотите сделать?
+areas-position = Позиция { $position } из { $total }
 areas-deleted-success = Область удалена.
 areas-deleted-no-remaining = Область удалена.
 
@@ -60,6 +71,15 @@ areas-deleted-no-remaining = Область удалена.
 areas-remaining = Оставшиеся области:
 areas-edit-coming-soon = Функция редактирования скоро появится...
 
+# Архив
+areas-archived-title = 🗄 Архив
+areas-archived-label = 🗄 В архиве — скрыта из записи прогресса и дайджестов. История прогресса сохранена.
+areas-archived-select = Выберите область в архиве, чтобы восстановить или удалить её:
+areas-archived-empty = В архиве нет областей.
+areas-archived-success = «{ $title }» перемещена в архив. История прогресса сохранена — восстановить можно в /areas.
+areas-restored-success = «{ $title }» восстановлена!
+error-restore-max-areas = У вас уже { $max } активных областей. Переместите одну в архив, чтобы восстановить эту.
+
 # Сообщения об ошибках
 error-please-start = Пожалуйста, сначала запустите бота командой /start
 error-area-not-found = Область не найдена
@@ -88,6 +108,20 @@ btn-done-continue = ✅ Готово, продолжить
 btn-edit-title = 📝 Название
 btn-edit-description = 📄 Описание
 btn-edit-emoji = 😀 Эмодзи
+btn-edit-metric = 📏 Единица и цель
+btn-skip-no-unit = ⏭ Пропустить (текст)
+btn-skip-no-target = ⏭ Пропустить (без цели)
+btn-edit-schedule = 🗓 Расписание
+btn-archive = 🗄 В архив
+btn-restore = ♻️ Восстановить
+btn-delete-permanently = 🗑 Удалить навсегда
+btn-archived-areas = 🗄 Архив ({ $count })
+btn-move-up = ⬆️ Выше
+btn-move-down = ⬇️ Ниже
+btn-cadence-daily = Каждый день
+btn-cadence-weekly = N раз в неделю
+btn-cadence-weekdays = Определённые дни
+btn-times-per-week = { $count }×
 btn-today = 📅 Сегодня
 btn-past-period = 📆 Прошлый период
 btn-custom-date = 📝 Указать дату
@@ -101,6 +135,10 @@ error-max-areas = Вы достигли максимального лимита
 error-invalid-time = Неверный формат времени. Используйте ЧЧ:мм (например, 09:00)
 error-invalid-timezone = Неверная временная зона
 error-invalid-emoji = Неверный эмодзи. Пожалуйста, отправьте один символ эмодзи
+error-no-weekdays = Выберите хотя бы один день
+error-area-unit-too-long = Единица измерения не должна превышать 20 символов
+error-invalid-number = Пожалуйста, введите число (например, 5 или 2.5)
+error-invalid-metric-value = Начните с числа в { $unit } (например, 5 или 2.5), затем можно добавить заметку
 error-invalid-date = Дата некорректна или слишком далеко. Используйте формат ДД.ММ.ГГ (например, 01.02.26). Дата должна быть в прошлом и не более недели назад.
 error-something-wrong = Что-то пошло не так. Попробуйте снова
 
@@ -242,6 +280,8 @@ progress-area-prompt =
 
     Чего вы достигли?
 
+progress-metric-hint = 📏 Введите число в { $unit }, затем можно добавить заметку
+progress-metric-target = 🎯 Дневная цель: { $target }
 progress-skipped = Пропущено
 progress-all-done = Все области завершены! ✅
 
@@ -310,6 +350,31 @@ progress-custom-date-prompt =
   Дата должна быть:
   • В прошлом (не сегодня и не будущая)
   • Не более недели назад
+# История прогресса
+history-date-selection = 
+  📖 *Выберите день для просмотра*
+
+  Записи за какой день вы хотите посмотреть?
+history-title = 📖 Записи за { $date }
+history-empty = За { $date } записей нет.
+history-select-entry = Выберите запись для редактирования или удаления:
+history-what-to-do = Что сделать с этой записью?
+history-check-in = Отметка (без записей по областям)
+history-freeze = Заморозка серии
+history-edit-prompt = Введите новый текст записи (максимум 200 символов):
+history-select-area = В какую область перенести запись?
+history-no-target-areas = Перенести запись некуда: у всех областей с той же единицей измерения уже есть запись за этот день.
+history-area-conflict = У этой области уже есть запись за этот день.
+history-delete-confirm = 
+  Удалить эту запись?
+
+  ⚠️ Это действие нельзя отменить.
+history-entry-updated = Запись обновлена.
+history-entry-moved = Запись перенесена.
+history-entry-deleted = Запись удалена.
+btn-history-edit-content = ✏️ Изменить текст
+btn-history-change-area = 🔀 Сменить область
+error-entry-not-found = Запись не найдена
 # Сообщения планировщика (дайджесты и напоминания)
 
 # Утренний дайджест
@@ -338,6 +403,11 @@ settings-language = 🌍 Язык
 settings-timezone = 🌐 Часовой пояс
 settings-digest = 📬 Время дайджестов
 settings-reminder = ⏰ Напоминание о прогрессе
+settings-streak-warning = 🛡 Защита серии
+settings-rest-days = 🛌 Дни отдыха
+settings-weekly-review = 📅 Итоги недели
+settings-reports = 📆 Итоги месяца и года
+settings-summary-delivery = 🤖 Промпт для анализа
 
 # Настройки языка
 language-title = 🌍 Настройки языка
@@ -375,11 +445,105 @@ reminder-prompt = Введите время для напоминания о п
 reminder-updated = Напоминание о прогрессе установлено на { $time }
 reminder-removed = Напоминание о прогрессе удалено
 
+# Настройки защиты серии
+streak-warning-title = 🛡 Настройки защиты серии
+streak-warning-description = Поздно вечером бот предупредит, если серия (от 3 дней) вот-вот прервётся, потому что сегодня ничего не записано. Одно нажатие — и вы отметились или начали запись.
+streak-warning-current = Текущее время: { $time }
+streak-warning-off = Выключено
+streak-warning-updated = Предупреждение о серии установлено на { $time }
+streak-warning-disabled = Предупреждение о серии выключено
+
+# Кнопки предупреждения о серии
+btn-quick-check-in = ✅ Быстрая отметка
+btn-log-now = 📝 Записать сейчас
+streak-checked-in = Отметка сохранена! Ваша серия 🔥 { $days } { $days ->
+    [one] день
+    [few] дня
+   *[other] дней
+  } в безопасности.
+streak-already-active = Сегодня уже есть активность — ваша серия 🔥 { $days } { $days ->
+    [one] день
+    [few] дня
+   *[other] дней
+  } в безопасности.
+streak-warning-expired = Это предупреждение было за прошлый день, и отметка уже не спасёт ту серию. Если день пропущен, его можно покрыть через /freeze.
+
+# Настройки дней отдыха
+rest-days-title = 🛌 Настройки дней отдыха
+rest-days-description = Запланируйте выходные, например субботу и воскресенье. День отдыха без активности не прерывает серию (а активность в этот день засчитывается). До { $max } дней отдыха в неделю.
+rest-days-current = Дни отдыха: { $days }
+rest-days-none = Нет
+rest-days-updated = Дни отдыха обновлены
+rest-days-max = Можно выбрать не больше { $max } дней отдыха в неделю
+
+# Заморозки серии (/freeze)
+freeze-title = 🧊 *Заморозки серии*
+freeze-available = Доступно: { $count } из { $max }
+freeze-next = Следующая заморозка — ещё через { $days } { $days ->
+    [one] день
+    [few] дня
+   *[other] дней
+  } активности подряд
+freeze-max = У вас максимальное число заморозок
+freeze-rest-days = 🛌 Дни отдыха: { $days }
+freeze-no-rest-days = 🛌 Дней отдыха нет — их можно выбрать в /settings
+freeze-nothing-missed = ✅ Пропущенных дней нет — замораживать нечего.
+freeze-missed = Пропущено { $count } { $count ->
+    [one] день
+    [few] дня
+   *[other] дней
+  }: { $dates }. Используйте заморозки, чтобы сохранить серию.
+freeze-not-enough = ⚠️ Пропущено больше дней, чем у вас заморозок, поэтому эту серию не спасти.
+freeze-hint = _Заморозка начисляется за каждые { $days } дней активности подряд (не больше { $max }). Она закрывает пропущенный день, и серия не прерывается._
+freeze-applied = 🧊 Заморожено: { $count } { $count ->
+    [one] день
+    [few] дня
+   *[other] дней
+  } — ваша серия 🔥 { $days } { $days ->
+    [one] день
+    [few] дня
+   *[other] дней
+  } в безопасности.
+freeze-error-nothing-to-freeze = Замораживать нечего
+freeze-error-not-enough-freezes = Недостаточно заморозок
+btn-freeze-apply = 🧊 Использовать { $count } { $count ->
+    [one] заморозку
+    [few] заморозки
+   *[other] заморозок
+  }
+
+# Настройки итогов недели
+weekly-review-title = 📅 Настройки итогов недели
+weekly-review-description = Раз в неделю бот подводит итоги последних 7 дней: дни с записями и пропуски по каждой области, изменения серий и область, которой больше всего не хватает внимания.
+weekly-review-current = Текущее расписание: { $schedule }
+weekly-review-schedule = { $day } в { $time }
+weekly-review-off = Выключено
+weekly-review-pick-time = Выберите время, чтобы включить итоги недели.
+weekly-review-updated = Итоги недели: { $schedule }
+weekly-review-disabled = Итоги недели выключены
+btn-weekly-review-summary = 🤖 Промпт для анализа этой недели
+
+# Настройки итогов месяца и года
+reports-title = 📆 Настройки итогов месяца и года
+reports-description = 1-го числа каждого месяца в 10:00 бот присылает итоги прошедшего месяца: календарь активности, записи по областям, самую длинную серию, первую и последнюю записи. 1 января следом приходят итоги года. Посмотреть их можно в любой момент командой /report month или /report year.
+reports-current = Сейчас: { $status }
+reports-on = Включено
+reports-off = Выключено
+reports-enabled = Итоги месяца и года включены
+reports-disabled = Итоги месяца и года выключены
+
 # Кнопки клавиатуры
 btn-language = 🌐 Язык
 btn-timezone = 🌍 Часовой пояс
 btn-digest-reminders = 📋 Напоминания дайджестов
 btn-progress-reminder = 📝 Напоминание о прогрессе
+btn-streak-warning = 🛡 Защита серии
+btn-rest-days = 🛌 Дни отдыха
+btn-weekly-review = 📅 Итоги недели
+btn-reports = 📆 Итоги месяца и года
+btn-reports-on = ✅ Включить
+btn-reports-off = 🚫 Выключить
+btn-summary-delivery = 🤖 Промпт для анализа
 btn-reset-all = 🗑 Сбросить все данные
 btn-back = ← Назад
 btn-other-custom = 📝 Другое (ввести вручную)
@@ -390,6 +554,15 @@ btn-clear-all = 🗑 Очистить всё
 btn-cancel = ← Отмена
 btn-confirm = ✅ Подтвердить
 
+# Настройки промпта для анализа
+summary-delivery-title = 🤖 Отправка промпта для анализа
+summary-delivery-description = Как /summary должна отправлять промпт для AI анализа?
+summary-delivery-inline = 💬 Сообщениями
+summary-delivery-md = 📄 Файлом Markdown (.md)
+summary-delivery-txt = 📄 Текстовым файлом (.txt)
+summary-delivery-llm = 🧠 Анализ от ИИ в чате
+summary-delivery-updated = Способ отправки промпта обновлён
+
 # Подтверждение сброса
 reset-title = 🗑 Сброс всех данных
 reset-warning = ⚠️ Это навсегда удалит все ваши данные, включая:
@@ -417,6 +590,10 @@ summary-7days = Последние 7 дней
 summary-14days = Последние 14 дней
 summary-30days = Последние 30 дней
 summary-all = Всё время
+summary-this-month = Этот месяц
+summary-last-month = Прошлый месяц
+summary-this-quarter = Этот квартал
+summary-custom-range = 📅 Свой период
 
 summary-generating = Генерирую промпт...
 
@@ -460,13 +637,191 @@ summary-ready =
 summary-copy-instruction =
   💡 Совет: Выделите весь текст выше и скопируйте его в AI ассистента.
 
+summary-ready-file = 
+  ✅ Промпт готов!
+  
+  Прикрепите файл ниже в ChatGPT или Claude либо откройте его и скопируйте текст:
+
+summary-file-instruction = 💡 Совет: прикрепить файл целиком проще, чем копировать длинный текст.
+btn-summary-as-md = 📄 Файлом .md
+btn-summary-as-txt = 📄 Файлом .txt
+btn-summary-as-inline = 💬 Сообщениями
+btn-summary-as-llm = 🧠 Анализ здесь
+
+summary-ready-llm = 
+  ✅ Промпт готов!
+  
+  🧠 Отправляю его на анализ, ответ скоро появится здесь.
+  Осталось анализов на сегодня: { $remaining }
+
+summary-llm-remaining = 💡 Осталось анализов на сегодня: { $remaining }
+summary-llm-error-disabled = Прямой анализ недоступен. Вот промпт, чтобы скопировать его в ChatGPT или Claude:
+summary-llm-error-quota-exceeded = Анализы на сегодня закончились. Вот промпт, чтобы скопировать его в ChatGPT или Claude:
+summary-llm-error-timeout = ИИ слишком долго не отвечал. Вот промпт, чтобы скопировать его в ChatGPT или Claude:
+summary-llm-error-http-error = Не удалось получить анализ. Вот промпт, чтобы скопировать его в ChatGPT или Claude:
+summary-llm-error-network = Не удалось связаться с сервисом ИИ. Вот промпт, чтобы скопировать его в ChatGPT или Claude:
+summary-llm-error-invalid-response = Сервис ИИ вернул неожиданный ответ. Вот промпт, чтобы скопировать его в ChatGPT или Claude:
+
+summary-range-start = 
+  📅 *Свой период*
+  
+  Отправьте первый день периода (ДД.ММ.ГГ, например 01.09.26):
+summary-range-end = Первый день: { $start }. Теперь отправьте последний день (ДД.ММ.ГГ) или нажмите «Сегодня»:
+summary-range-error-future = Дата не может быть в будущем.
+summary-range-error-order = Последний день не может быть раньше первого.
+
+# Шаблоны промпта для анализа
+btn-summary-template = 📝 Шаблон: { $name }
+template-list-title = 📝 *Шаблоны промпта для анализа*
+template-list-description = 
+  Выберите, как AI должен анализировать ваш прогресс, или загрузите свой шаблон.
+  
+  Свой шаблон — это обычный текст с подстановками: { $placeholders }
+template-default = Стандартный анализ
+template-weekly-review = Недельный обзор
+template-neglected-areas = Разбор заброшенных сфер
+template-motivation-coach = Мотивационный коуч
+template-okr-check = Проверка OKR
+btn-template-upload = ➕ Загрузить шаблон
+template-selected = Шаблон выбран
+template-deleted = Шаблон удалён
+template-add-name = 
+  📝 *Новый шаблон*
+  
+  Отправьте название шаблона (до 30 символов):
+template-add-body = 
+  Теперь отправьте текст шаблона или загрузите его файлом .md или .txt (в файле Markdown-разметка сохранится).
+  
+  Вставьте подстановки туда, где должны быть ваши данные: { $placeholders }
+template-error-file = Загрузите файл .md или .txt размером до 100 КБ.
+template-error-max = У вас уже { $max } своих шаблонов (максимум). Удалите один, чтобы загрузить другой.
+template-added = Шаблон «{ $name }» сохранён и выбран.
+
+# Экспорт данных
+export-title = 📦 *Экспорт данных*
+export-choose-format = 
+  Выберите формат:
+  • *JSON* — полная резервная копия (настройки, области и все записи)
+  • *CSV* — одна строка на запись, для таблиц
+  • *Markdown* — читаемый журнал по дням
+btn-export-json = JSON
+btn-export-csv = CSV
+btn-export-md = Markdown
+export-generating = Готовлю экспорт...
+export-ready = 📦 Экспорт ваших данных
+
+# Импорт данных
+import-start = 
+  📥 *Импорт истории*
+  
+  Отправьте файл с прошлыми записями:
+  • *JSON* — файл из /export
+  • *CSV* — строка заголовка со столбцами `date` (ГГГГ-ММ-ДД) и `area`, а также необязательными `content`, `value`, `unit`, `emoji` и `skipped` (CSV из /export тоже подходит)
+  
+  Области сопоставляются по названию (или создаются), записи для той же области и дня перезаписываются. Перед сохранением вы увидите предпросмотр.
+import-error-too-large = Файл слишком большой (максимум 1 МБ).
+import-error-unsupported-format = Неподдерживаемый тип файла. Отправьте файл .json или .csv.
+import-error-invalid-json = Этот JSON-файл не является корректным экспортом. Используйте файл из /export.
+import-error-unsupported-version = Эта версия экспорта не поддерживается.
+import-error-missing-columns = CSV-файлу нужна строка заголовка со столбцами "date" и "area".
+import-error-too-many-rows = В файле слишком много строк (максимум 10 000).
+import-error-empty = Файл пуст.
+import-error-download-failed = Не удалось загрузить файл. Пожалуйста, отправьте его ещё раз.
+import-error-no-valid-rows = В файле нет корректных строк.
+import-preview-title = 🔍 Предпросмотр импорта (пока ничего не сохранено)
+import-preview-areas = Области: { $matched } найдено, { $created } новых
+import-preview-entries = Записи: { $created } новых, { $overwritten } перезапишется
+import-preview-check-ins = Отметки: { $count } новых
+import-preview-freezes = Заморозки серии: { $count } новых
+import-preview-archived = Новых областей в архиве из-за лимита в 7 областей: { $count }
+import-preview-settings = Настройки (язык, часовой пояс, уведомления, дни отдыха, /summary) будут восстановлены из файла.
+import-preview-unit-mismatch = Области с другой единицей измерения, чем у вашей одноимённой области: { $areas } (их записи пропускаются: { $entries })
+import-preview-conflicts = Существующие записи для той же области и дня будут заменены.
+import-preview-errors = Пропущено некорректных строк: { $count }
+import-preview-error-row = • Строка { $row }: { $message }
+import-preview-confirm = Импортировать?
+btn-import-confirm = 📥 Импортировать
+import-importing = Импортирую...
+import-done = Импорт завершён: новых областей — { $areas }, записей — { $entries }, отметок — { $checkIns }.
+
+# Итоги месяца и года (/report)
+report-usage = Использование: `/report month` или `/report year`
+btn-report-this-month = Этот месяц
+btn-report-last-month = Прошлый месяц
+btn-report-this-year = Этот год
+btn-report-last-year = Прошлый год
+
+# Подробная статистика (/stats)
+stats-title = 📊 *Статистика*
+stats-all-areas = Все области
+stats-period = Последние { $days } { $days ->
+    [one] день
+    [few] дня
+   *[other] дней
+  }
+stats-days = { $count } { $count ->
+    [one] день
+    [few] дня
+   *[other] дней
+  }
+stats-weeks = { $count } { $count ->
+    [one] неделя
+    [few] недели
+   *[other] недель
+  }
+stats-current-streak = 🔥 Текущая серия: { $value }
+stats-longest-streak = 🏆 Самая длинная серия: { $value }
+stats-completion = ✅ Выполнение: { $rate }%
+stats-completion-none = ✅ Выполнение: —
+stats-entries = 📝 Записей: { $entries } · активных дней: { $days }
+stats-average = 📈 Записей в день с записями: { $average }
+stats-weekdays = 📅 Лучший день недели: { $best } · худший: { $worst }
+stats-check-in-ratio = ☑️ Дней только с отметкой: { $rate }%
+stats-frozen-days = 🧊 Использовано заморозок: { $count }
+stats-shares = 🎯 *Доля записей*
+stats-no-entries = _За этот период записей нет._
+btn-stats-days = { $days } { $days ->
+    [one] день
+    [few] дня
+   *[other] дней
+  }
+btn-stats-all = 📊 Все области
+
+# Тепловая карта активности (/heatmap)
+heatmap-title = 🗓 *Карта активности*
+heatmap-all-areas = Все области
+heatmap-progress-days = 🟩 Записи: { $count } { $count ->
+    [one] день
+    [few] дня
+   *[other] дней
+  }
+heatmap-check-in-days = 🟦 Только отметка: { $count } { $count ->
+    [one] день
+    [few] дня
+   *[other] дней
+  }
+heatmap-frozen-days = 🟪 Заморозка: { $count } { $count ->
+    [one] день
+    [few] дня
+   *[other] дней
+  }
+heatmap-no-activity = ⬜ Нет активности
+btn-heatmap-all = 🗓 Все области
+
 # Команда помощи
 help-title = 📖 *Помощь по Better Goals*
 help-commands = *Команды:*
 help-start = /start - Запустить бота и посмотреть области
 help-areas = /areas - Управление областями фокуса
 help-progress = /progress - Записать прогресс за день
+help-history = /history - Просмотр, изменение и удаление записей
 help-summary = /summary - Сгенерировать промпт для AI анализа
+help-report = /report - Итоги месяца или года (/report month|year)
+help-stats = /stats - Подробная статистика по периодам и областям
+help-heatmap = /heatmap - Карта активности за год, общая или по области
+help-freeze = /freeze - Заморозки серии и пропущенные дни
+help-export = /export - Скачать все данные (JSON, CSV или Markdown)
+help-import = /import - Импортировать историю из файла JSON или CSV
 help-settings = /settings - Настроить напоминания
 help-help = /help - Показать это сообщение
 help-philosophy = *Философия:*
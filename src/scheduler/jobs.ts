@@ -1,75 +1,155 @@
 import cron from 'node-cron';
+import { format, differenceInMinutes, getISODay, parseISO } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
+import type { User } from '@prisma/client';
+import type { InlineKeyboard } from 'grammy';
+import { env } from '../config/env.js';
+import { createLogger } from '../config/logger.js';
+import type { Logger } from '../config/logger.js';
 import { bot } from '../bot/bot.js';
 import * as userService from '../services/user.service.js';
 import { generateDigest } from '../services/digest.service.js';
-import { shouldSendProgressReminder, generateProgressReminder } from '../services/reminder.service.js';
+import {
+  shouldSendProgressReminder,
+  generateProgressReminder,
+  generateStreakWarning,
+} from '../services/reminder.service.js';
+import { generateWeeklyReview } from '../services/weekly-review.service.js';
+import { generateReport, getReportRange } from '../services/report.service.js';
+import {
+  wasNotificationSent,
+  recordNotification,
+} from '../services/notification.service.js';
+import type { NotificationSlot } from '../services/notification.service.js';
+import type { NotificationType, ReportPeriod } from '../types/index.js';
+import { i18n } from '../locales/index.js';
+import { createWeeklyReviewKeyboard } from '../bot/keyboards/summary.keyboard.js';
+import { createStreakWarningKeyboard } from '../bot/keyboards/progress.keyboard.js';
+import { formatSummaryRangePeriod } from '../bot/handlers/summary.handler.js';
+import {
+  notificationsTotal,
+  schedulerTickDuration,
+} from '../server/metrics.js';
+import { findDueSlots } from './slots.js';
+import type { DueSlot } from './slots.js';
 
 /**
  * Scheduler module for periodic tasks.
- * Handles digest notifications and progress reminders.
+ * Handles digest notifications, progress reminders, streak warnings,
+ * weekly reviews and monthly/yearly retrospectives.
+ * Deliveries are de-duplicated against the persistent notification ledger,
+ * so restarts don't cause duplicate sends. Slots missed during downtime are
+ * caught up (with a "late" marker) within NOTIFICATION_GRACE_MINUTES.
  */
 
+const log = createLogger('scheduler');
+
 /**
- * Track sent notifications to prevent duplicates within the same hour.
- * Key format: "userId:type:hour"
+ * How often (in minutes) the scheduler runs notification checks.
  */
-const sentNotifications = new Map<string, number>();
+const TICK_INTERVAL_MINUTES = 5;
 
 /**
- * Check if notification was already sent this hour.
+ * How far back (in minutes) a configured time still counts as due.
+ * Spans two cron ticks, so an unaligned time (e.g. 09:07) or a slightly
+ * late tick can't miss a slot. The notification ledger prevents duplicates.
  */
-function wasSentThisHour(
-  userId: string,
-  type: 'digest' | 'reminder',
-  currentHour: number
-): boolean {
-  const key = `${userId}:${type}:${currentHour}`;
-  return sentNotifications.has(key);
+const DUE_WINDOW_MINUTES = 10;
+
+/**
+ * How far back to look for slots that were missed (e.g. during downtime).
+ * Slots older than this are considered stale and skipped.
+ */
+const CATCH_UP_WINDOW_MINUTES = Math.max(
+  env.NOTIFICATION_GRACE_MINUTES,
+  DUE_WINDOW_MINUTES
+);
+
+/**
+ * Local time (HH:mm) at which retrospectives are sent on the first day
+ * of a month (and of a year).
+ */
+const RETROSPECTIVE_REPORT_TIME = '10:00';
+
+/**
+ * When the last scheduler tick completed (null until the first one).
+ */
+let lastTickAt: Date | null = null;
+
+/**
+ * Whether notification checks are in progress. A tick that starts while
+ * the previous one (or the startup catch-up pass) is still running is
+ * skipped, so two runs can't both pass the ledger check and send twice.
+ */
+let checksRunning = false;
+
+/**
+ * Check if a slot was missed rather than due right now.
+ */
+function isLateSlot(slot: DueSlot): boolean {
+  return slot.minutesLate >= DUE_WINDOW_MINUTES;
 }
 
 /**
- * Mark notification as sent for this hour.
+ * Check if a late slot should be caught up for this user.
+ * Skips slots that occurred before the user's notification settings last
+ * changed, so adding a time that has already passed today doesn't send it
+ * right away. Unrelated changes (language, pinned message...) don't count.
  */
-function markAsSent(
-  userId: string,
-  type: 'digest' | 'reminder',
-  currentHour: number
-): void {
-  const key = `${userId}:${type}:${currentHour}`;
-  sentNotifications.set(key, Date.now());
-
-  // Clean up old entries (older than 2 hours)
-  const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
-  for (const [k, timestamp] of sentNotifications.entries()) {
-    if (timestamp < twoHoursAgo) {
-      sentNotifications.delete(k);
-    }
-  }
+function shouldCatchUp(user: User, slot: DueSlot, now: Date): boolean {
+  const minutesSinceUpdate = differenceInMinutes(
+    now,
+    user.notificationSettingsUpdatedAt ?? user.createdAt
+  );
+  return slot.minutesLate < minutesSinceUpdate;
 }
 
 /**
- * Send a message to a user.
+ * Send a scheduled notification and record the outcome in the ledger.
  */
-async function sendMessage(
+async function sendNotification(
+  jobLog: Logger,
+  userId: string,
   telegramId: bigint,
   message: string,
-  type: 'digest' | 'reminder'
+  type: NotificationType,
+  slot: NotificationSlot,
+  replyMarkup?: InlineKeyboard
 ): Promise<void> {
+  const userLog = jobLog.child({ telegram_user_id: Number(telegramId) });
+  let messageId: number;
+
   try {
-    await bot.api.sendMessage(Number(telegramId), message, { parse_mode: 'Markdown' });
-    console.log(`${type} sent to user ${telegramId}`);
+    const sent = await bot.api.sendMessage(Number(telegramId), message, {
+      parse_mode: 'Markdown',
+      reply_markup: replyMarkup,
+    });
+    messageId = sent.message_id;
   } catch (error) {
-    console.error(`Failed to send ${type} to ${telegramId}:`, error);
+    userLog.error({ err: error, slot }, `Failed to send ${type}`);
+    notificationsTotal.inc({ type, status: 'failed' });
+    await recordNotification(userId, type, slot, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return;
   }
+
+  notificationsTotal.inc({ type, status: 'sent' });
+  await recordNotification(userId, type, slot, {
+    status: 'sent',
+    telegramMessageId: messageId,
+  });
+  userLog.info({ slot }, `${type} sent`);
 }
 
 /**
  * Process digest notifications for all users.
- * Digests are always sent at configured times.
+ * Digests are always sent at configured times, once per slot (HH:mm) per local day.
  */
 async function processDigests(): Promise<void> {
-  console.log('Processing digests...');
+  const jobLog = log.child({ job: 'digests' });
+  jobLog.debug('Processing digests...');
 
   try {
     const users = await userService.getUsersForDigest();
@@ -81,32 +161,36 @@ async function processDigests(): Promise<void> {
       // Get current time in user's timezone
       const now = new Date();
       const zonedNow = toZonedTime(now, user.timezone);
-      const currentHour = zonedNow.getHours();
-      const currentMinute = zonedNow.getMinutes();
-
-      // Check if current time matches any of the digest times
-      for (const digestTime of digestTimes) {
-        const [digestHour, digestMinute] = digestTime.split(':').map(Number);
-
-        // Send if current time is within 5 minutes of the configured time
-        // This accounts for cron execution delays
-        if (
-          currentHour === digestHour &&
-          currentMinute >= digestMinute &&
-          currentMinute < digestMinute + 5
-        ) {
-          // Check if already sent this hour
-          if (!wasSentThisHour(user.id, 'digest', currentHour)) {
-            const digest = await generateDigest(user);
-            await sendMessage(user.telegramId, digest, 'digest');
-            markAsSent(user.id, 'digest', currentHour);
-          }
-          break; // Only send once per hour even if multiple times configured
-        }
+
+      // Every configured time is its own slot, delivered once per local day
+      const dueSlots = findDueSlots(
+        digestTimes,
+        zonedNow,
+        CATCH_UP_WINDOW_MINUTES
+      );
+
+      for (const slot of dueSlots) {
+        const isLate = isLateSlot(slot);
+        if (isLate && !shouldCatchUp(user, slot, now)) continue;
+
+        // Check if already delivered for this slot
+        if (await wasNotificationSent(user.id, 'digest', slot)) continue;
+
+        const digest = await generateDigest(user, {
+          lateFor: isLate ? slot.time : undefined,
+        });
+        await sendNotification(
+          jobLog,
+          user.id,
+          user.telegramId,
+          digest,
+          'digest',
+          slot
+        );
       }
     }
   } catch (error) {
-    console.error('Error processing digests:', error);
+    jobLog.error({ err: error }, 'Error processing digests');
   }
 }
 
@@ -115,7 +199,8 @@ async function processDigests(): Promise<void> {
  * Only sends if user hasn't logged progress today.
  */
 async function processProgressReminders(): Promise<void> {
-  console.log('Processing progress reminders...');
+  const jobLog = log.child({ job: 'progress-reminders' });
+  jobLog.debug('Processing progress reminders...');
 
   try {
     const users = await userService.getUsersForProgressReminder();
@@ -126,59 +211,298 @@ async function processProgressReminders(): Promise<void> {
       // Get current time in user's timezone
       const now = new Date();
       const zonedNow = toZonedTime(now, user.timezone);
-      const currentHour = zonedNow.getHours();
-      const currentMinute = zonedNow.getMinutes();
-
-      // Parse user's reminder time
-      const [reminderHour, reminderMinute] = user.progressReminderTime.split(':').map(Number);
-
-      // Send if current time is within 5 minutes of the configured time
-      // This accounts for cron execution delays
-      if (
-        currentHour === reminderHour &&
-        currentMinute >= reminderMinute &&
-        currentMinute < reminderMinute + 5
-      ) {
-        // Check if already sent this hour
-        if (!wasSentThisHour(user.id, 'reminder', currentHour)) {
-          // Only send if user hasn't logged progress today
-          const shouldSend = await shouldSendProgressReminder(user);
-
-          if (shouldSend) {
-            const reminder = await generateProgressReminder(user);
-            await sendMessage(user.telegramId, reminder, 'reminder');
-            markAsSent(user.id, 'reminder', currentHour);
-          }
+
+      const dueSlots = findDueSlots(
+        [user.progressReminderTime],
+        zonedNow,
+        CATCH_UP_WINDOW_MINUTES
+      );
+
+      for (const slot of dueSlots) {
+        const isLate = isLateSlot(slot);
+        if (isLate && !shouldCatchUp(user, slot, now)) continue;
+
+        // A reminder is about "today", so a missed one from a previous day is stale
+        if (slot.date !== format(zonedNow, 'yyyy-MM-dd')) continue;
+
+        // Check if already delivered for this slot
+        if (await wasNotificationSent(user.id, 'reminder', slot)) continue;
+
+        // Only send if user hasn't logged progress today (late ones included)
+        const shouldSend = await shouldSendProgressReminder(user);
+
+        if (shouldSend) {
+          const reminder = await generateProgressReminder(user, {
+            lateFor: isLate ? slot.time : undefined,
+          });
+          await sendNotification(
+            jobLog,
+            user.id,
+            user.telegramId,
+            reminder,
+            'reminder',
+            slot
+          );
         }
       }
     }
   } catch (error) {
-    console.error('Error processing progress reminders:', error);
+    jobLog.error({ err: error }, 'Error processing progress reminders');
   }
 }
 
+/**
+ * Process streak warnings for all users who turned them on.
+ * Only sent when there's an active streak and no activity today,
+ * with buttons for a quick check-in or logging right away.
+ */
+async function processStreakWarnings(): Promise<void> {
+  const jobLog = log.child({ job: 'streak-warnings' });
+  jobLog.debug('Processing streak warnings...');
+
+  try {
+    const users = await userService.getUsersForStreakWarning();
+
+    for (const user of users) {
+      if (!user.streakWarningTime) continue;
+
+      // Get current time in user's timezone
+      const now = new Date();
+      const zonedNow = toZonedTime(now, user.timezone);
+
+      const dueSlots = findDueSlots(
+        [user.streakWarningTime],
+        zonedNow,
+        CATCH_UP_WINDOW_MINUTES
+      );
+
+      for (const slot of dueSlots) {
+        const isLate = isLateSlot(slot);
+        if (isLate && !shouldCatchUp(user, slot, now)) continue;
+
+        // The streak at risk is today's, so a missed warning from a previous day is stale
+        if (slot.date !== format(zonedNow, 'yyyy-MM-dd')) continue;
+
+        // Check if already delivered for this slot
+        if (await wasNotificationSent(user.id, 'streak_warning', slot))
+          continue;
+
+        // Null when there's no streak to protect or there's activity today
+        const warning = await generateStreakWarning(user, {
+          lateFor: isLate ? slot.time : undefined,
+        });
+        if (!warning) continue;
+
+        const language = user.language || 'en';
+        await sendNotification(
+          jobLog,
+          user.id,
+          user.telegramId,
+          warning,
+          'streak_warning',
+          slot,
+          createStreakWarningKeyboard(slot.date, (key) => i18n.t(language, key))
+        );
+      }
+    }
+  } catch (error) {
+    jobLog.error({ err: error }, 'Error processing streak warnings');
+  }
+}
+
+/**
+ * Process weekly reviews for all users who turned them on.
+ * Sent on the configured ISO weekday at the configured time, with a button
+ * that generates the /summary prompt for the reviewed week.
+ */
+async function processWeeklyReviews(): Promise<void> {
+  const jobLog = log.child({ job: 'weekly-reviews' });
+  jobLog.debug('Processing weekly reviews...');
+
+  try {
+    const users = await userService.getUsersForWeeklyReview();
+
+    for (const user of users) {
+      if (!user.weeklyReviewTime) continue;
+
+      // Get current time in user's timezone
+      const now = new Date();
+      const zonedNow = toZonedTime(now, user.timezone);
+
+      const dueSlots = findDueSlots(
+        [user.weeklyReviewTime],
+        zonedNow,
+        CATCH_UP_WINDOW_MINUTES
+      ).filter(
+        (slot) => getISODay(parseISO(slot.date)) === user.weeklyReviewDay
+      );
+
+      for (const slot of dueSlots) {
+        const isLate = isLateSlot(slot);
+        if (isLate && !shouldCatchUp(user, slot, now)) continue;
+
+        // Check if already delivered for this slot
+        if (await wasNotificationSent(user.id, 'weekly_review', slot)) continue;
+
+        // Nothing to review without active areas
+        const review = await generateWeeklyReview(user, {
+          lateFor: isLate ? slot.time : undefined,
+        });
+        if (!review) continue;
+
+        const language = user.language || 'en';
+        await sendNotification(
+          jobLog,
+          user.id,
+          user.telegramId,
+          review.text,
+          'weekly_review',
+          slot,
+          createWeeklyReviewKeyboard(
+            formatSummaryRangePeriod(review.range),
+            (key) => i18n.t(language, key)
+          )
+        );
+      }
+    }
+  } catch (error) {
+    jobLog.error({ err: error }, 'Error processing weekly reviews');
+  }
+}
+
+/**
+ * Process monthly and yearly retrospectives for all users who turned them on.
+ * The previous month's report is sent on the 1st of each month; on January 1st
+ * the previous year's report follows it.
+ */
+async function processRetrospectiveReports(): Promise<void> {
+  const jobLog = log.child({ job: 'retrospective-reports' });
+  jobLog.debug('Processing retrospective reports...');
+
+  try {
+    const users = await userService.getUsersForRetrospectiveReports();
+
+    for (const user of users) {
+      // Get current time in user's timezone
+      const now = new Date();
+      const zonedNow = toZonedTime(now, user.timezone);
+
+      const dueSlots = findDueSlots(
+        [RETROSPECTIVE_REPORT_TIME],
+        zonedNow,
+        CATCH_UP_WINDOW_MINUTES
+      ).filter((slot) => slot.date.endsWith('-01'));
+
+      for (const slot of dueSlots) {
+        if (isLateSlot(slot) && !shouldCatchUp(user, slot, now)) continue;
+
+        const periods: ReportPeriod[] = slot.date.endsWith('-01-01')
+          ? ['month', 'year']
+          : ['month'];
+
+        for (const period of periods) {
+          const type: NotificationType =
+            period === 'year' ? 'yearly_report' : 'monthly_report';
+
+          // Check if already delivered for this slot
+          if (await wasNotificationSent(user.id, type, slot)) continue;
+
+          // The slot is on the 1st, so offset 1 is the period that just ended
+          const report = await generateReport(
+            user,
+            period,
+            getReportRange(period, user.timezone, 1)
+          );
+          await sendNotification(
+            jobLog,
+            user.id,
+            user.telegramId,
+            report,
+            type,
+            slot
+          );
+        }
+      }
+    }
+  } catch (error) {
+    jobLog.error({ err: error }, 'Error processing retrospective reports');
+  }
+}
+
+/**
+ * Run all notification checks once.
+ * Each check also catches up slots missed within the grace window.
+ * Skipped while a previous run is still in flight.
+ */
+async function runNotificationChecks(): Promise<void> {
+  if (checksRunning) {
+    log.warn(
+      { job: 'notification-checks' },
+      'Previous notification checks still running, skipping this tick'
+    );
+    return;
+  }
+
+  checksRunning = true;
+  const endTimer = schedulerTickDuration.startTimer();
+
+  try {
+    await Promise.all([
+      processDigests(),
+      processProgressReminders(),
+      processStreakWarnings(),
+      processWeeklyReviews(),
+      processRetrospectiveReports(),
+    ]);
+  } finally {
+    checksRunning = false;
+  }
+
+  const durationSeconds = endTimer();
+  lastTickAt = new Date();
+  log.debug(
+    { job: 'notification-checks', duration_s: durationSeconds },
+    'Notification checks complete'
+  );
+}
+
+/**
+ * Check if the scheduler is ticking: the last tick completed
+ * within two intervals (allows one slow or skipped tick).
+ */
+export function isSchedulerTicking(): boolean {
+  if (!lastTickAt) return false;
+  const minutesSinceTick = differenceInMinutes(new Date(), lastTickAt);
+  return minutesSinceTick < TICK_INTERVAL_MINUTES * 2;
+}
+
 /**
  * Start all scheduled jobs.
  */
 export function startScheduler(): void {
-  console.log('Starting scheduler...');
+  log.info('Starting scheduler...');
 
   // Run checks every 5 minutes
   // Cron: "*/5 * * * *" = every 5 minutes
   // This allows notifications to be sent at any HH:mm time configured by users
-  cron.schedule('*/5 * * * *', async () => {
-    console.log(`[${new Date().toISOString()}] Running notification checks...`);
-    await Promise.all([processDigests(), processProgressReminders()]);
+  cron.schedule(`*/${TICK_INTERVAL_MINUTES} * * * *`, async () => {
+    log.debug({ job: 'notification-checks' }, 'Running notification checks...');
+    await runNotificationChecks();
   });
 
-  console.log('Scheduler started. Jobs will run every 5 minutes.');
+  // Catch-up pass at startup for slots missed while the bot was down
+  void runNotificationChecks();
+
+  log.info(
+    `Scheduler started. Jobs will run every ${TICK_INTERVAL_MINUTES} minutes.`
+  );
 }
 
 /**
  * Manually trigger notifications processing (for testing).
  */
 export async function runManualCheck(): Promise<void> {
-  console.log('Running manual notification check...');
-  await Promise.all([processDigests(), processProgressReminders()]);
-  console.log('Manual check complete.');
+  log.info({ job: 'manual-check' }, 'Running manual notification check...');
+  await runNotificationChecks();
+  log.info({ job: 'manual-check' }, 'Manual check complete.');
 }
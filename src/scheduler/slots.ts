@@ -0,0 +1,60 @@
+import { format, subDays, differenceInMinutes } from 'date-fns';
+import type { NotificationSlot } from '../services/notification.service.js';
+
+/**
+ * Slot helpers for the scheduler.
+ * A slot is a configured HH:mm time on a specific local date.
+ * All dates here are "zoned" dates (wall-clock time in the user's timezone).
+ */
+
+/**
+ * A slot that is due now, with how many minutes ago it occurred.
+ */
+export interface DueSlot extends NotificationSlot {
+  minutesLate: number;
+}
+
+/**
+ * Get the most recent occurrence of an HH:mm time at or before zonedNow.
+ * If the time hasn't come yet today, the occurrence is yesterday's.
+ */
+export function getLatestOccurrence(time: string, zonedNow: Date): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+
+  const occurrence = new Date(zonedNow);
+  occurrence.setHours(hours ?? 0, minutes ?? 0, 0, 0);
+
+  if (occurrence > zonedNow) {
+    return subDays(occurrence, 1);
+  }
+
+  return occurrence;
+}
+
+/**
+ * Find slots that are due: their latest occurrence falls within the
+ * last `windowMinutes` minutes (inclusive of the current minute).
+ * Each configured time yields at most one slot, keyed to its own local date.
+ */
+export function findDueSlots(
+  times: string[],
+  zonedNow: Date,
+  windowMinutes: number
+): DueSlot[] {
+  const slots: DueSlot[] = [];
+
+  for (const time of new Set(times)) {
+    const occurrence = getLatestOccurrence(time, zonedNow);
+    const minutesSince = differenceInMinutes(zonedNow, occurrence);
+
+    if (minutesSince < windowMinutes) {
+      slots.push({
+        date: format(occurrence, 'yyyy-MM-dd'),
+        time,
+        minutesLate: minutesSince,
+      });
+    }
+  }
+
+  return slots;
+}
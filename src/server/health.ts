@@ -0,0 +1,38 @@
+import { isSchedulerTicking } from '../scheduler/jobs.js';
+import { registerRoute } from './http.js';
+
+/**
+ * Health endpoints for process managers and load balancers.
+ * /healthz - the process is alive
+ * /readyz  - the database is connected and the scheduler is ticking
+ */
+
+let databaseReady = false;
+
+/**
+ * Mark the database connection as established (or lost).
+ */
+export function setDatabaseReady(ready: boolean): void {
+  databaseReady = ready;
+}
+
+/**
+ * Register /healthz and /readyz routes on the HTTP server.
+ */
+export function registerHealthRoutes(): void {
+  registerRoute('GET', '/healthz', (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ok' }));
+  });
+
+  registerRoute('GET', '/readyz', (_req, res) => {
+    const checks = {
+      database: databaseReady,
+      scheduler: isSchedulerTicking(),
+    };
+    const ready = checks.database && checks.scheduler;
+
+    res.writeHead(ready ? 200 : 503, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: ready ? 'ok' : 'unavailable', checks }));
+  });
+}
@@ -0,0 +1,93 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createLogger } from '../config/logger.js';
+
+/**
+ * Minimal built-in HTTP server.
+ * Routes are matched by exact method + path; everything else gets 404.
+ */
+
+export type RouteHandler = (
+  req: IncomingMessage,
+  res: ServerResponse
+) => void | Promise<void>;
+
+const log = createLogger('http');
+
+// Route key format: "METHOD /path"
+const routes = new Map<string, RouteHandler>();
+
+let server: Server | null = null;
+
+/**
+ * Register a route handler.
+ */
+export function registerRoute(
+  method: string,
+  path: string,
+  handler: RouteHandler
+): void {
+  routes.set(`${method.toUpperCase()} ${path}`, handler);
+}
+
+/**
+ * Handle an incoming request by dispatching to the registered route.
+ */
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const handler = routes.get(`${req.method ?? 'GET'} ${path}`);
+
+  if (!handler) {
+    res.writeHead(404).end('Not Found');
+    return;
+  }
+
+  try {
+    await handler(req, res);
+  } catch (error) {
+    log.error(
+      { err: error, method: req.method, path },
+      'Error handling request'
+    );
+    if (!res.headersSent) {
+      res.writeHead(500);
+    }
+    res.end();
+  }
+}
+
+/**
+ * Start the HTTP server on the given port.
+ */
+export async function startHttpServer(port: number): Promise<Server> {
+  const httpServer = createServer((req, res) => {
+    void handleRequest(req, res);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  server = httpServer;
+  return httpServer;
+}
+
+/**
+ * Stop the HTTP server if it is running.
+ */
+export async function stopHttpServer(): Promise<void> {
+  const httpServer = server;
+  if (!httpServer) return;
+
+  server = null;
+  await new Promise<void>((resolve) => {
+    httpServer.close(() => resolve());
+  });
+}
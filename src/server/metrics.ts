@@ -0,0 +1,104 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import {
+  Registry,
+  Counter,
+  Histogram,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { registerRoute } from './http.js';
+
+/**
+ * Prometheus metrics exposed on /metrics.
+ * Metrics are defined here and updated by the bot middleware and scheduler.
+ */
+
+const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: 'goals_bot_' });
+
+/**
+ * Telegram updates handled, by update type (message, callback_query, ...).
+ */
+export const updatesHandled = new Counter({
+  name: 'goals_bot_updates_handled_total',
+  help: 'Telegram updates handled',
+  labelNames: ['type'] as const,
+  registers: [registry],
+});
+
+/**
+ * Conversation entries, by conversation name.
+ */
+export const conversationEntries = new Counter({
+  name: 'goals_bot_conversation_entries_total',
+  help: 'Conversations entered',
+  labelNames: ['name'] as const,
+  registers: [registry],
+});
+
+/**
+ * Scheduled notifications, by type (digest, reminder, streak_warning,
+ * weekly_review, monthly_report, yearly_report) and status (sent, failed).
+ */
+export const notificationsTotal = new Counter({
+  name: 'goals_bot_notifications_total',
+  help: 'Scheduled notifications sent or failed',
+  labelNames: ['type', 'status'] as const,
+  registers: [registry],
+});
+
+/**
+ * Duration of a scheduler tick (all notification checks).
+ */
+export const schedulerTickDuration = new Histogram({
+  name: 'goals_bot_scheduler_tick_duration_seconds',
+  help: 'Duration of scheduler ticks in seconds',
+  buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry],
+});
+
+/**
+ * Direct LLM analysis requests, by status (success, failed, quota_exceeded).
+ */
+export const analysisRequestsTotal = new Counter({
+  name: 'goals_bot_analysis_requests_total',
+  help: 'Direct LLM analysis requests',
+  labelNames: ['status'] as const,
+  registers: [registry],
+});
+
+/**
+ * Duration of LLM API calls, including failed ones.
+ */
+export const analysisRequestDuration = new Histogram({
+  name: 'goals_bot_analysis_request_duration_seconds',
+  help: 'Duration of LLM API calls in seconds',
+  buckets: [1, 2.5, 5, 10, 20, 30, 60, 120],
+  registers: [registry],
+});
+
+/**
+ * Check the request's "Authorization: Bearer <token>" header.
+ */
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Register the /metrics route on the HTTP server.
+ * Requests must carry the token as a bearer token.
+ */
+export function registerMetricsRoute(token: string): void {
+  registerRoute('GET', '/metrics', async (req, res) => {
+    if (!hasBearerToken(req, token)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end();
+      return;
+    }
+
+    const body = await registry.metrics();
+    res.writeHead(200, { 'Content-Type': registry.contentType }).end(body);
+  });
+}
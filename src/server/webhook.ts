@@ -0,0 +1,46 @@
+import { webhookCallback } from 'grammy';
+import { bot } from '../bot/bot.js';
+import { registerRoute } from './http.js';
+
+/**
+ * Webhook mode: Telegram delivers updates to the built-in HTTP server.
+ * grammY's webhookCallback rejects requests whose
+ * X-Telegram-Bot-Api-Secret-Token header doesn't match the secret.
+ */
+
+/**
+ * How long Telegram waits for the reply to an update. Slower handlers
+ * (imports, exports) keep running after it: failing the request instead
+ * would make Telegram re-deliver the update and run it twice.
+ */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Register the webhook route and tell Telegram where to send updates.
+ * The route path is taken from the webhook URL.
+ */
+export async function setupWebhook(
+  webhookUrl: string,
+  secretToken: string
+): Promise<void> {
+  registerRoute(
+    'POST',
+    new URL(webhookUrl).pathname,
+    webhookCallback(bot, 'http', {
+      secretToken,
+      onTimeout: 'return',
+      timeoutMilliseconds: WEBHOOK_TIMEOUT_MS,
+    })
+  );
+
+  await bot.init();
+  await bot.api.setWebhook(webhookUrl, { secret_token: secretToken });
+}
+
+/**
+ * Unregister the webhook so Telegram stops sending updates.
+ * Pending updates are kept and delivered on the next start.
+ */
+export async function removeWebhook(): Promise<void> {
+  await bot.api.deleteWebhook();
+}
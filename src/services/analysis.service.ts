@@ -0,0 +1,123 @@
+import prisma from '../db/client.js';
+import type { User } from '@prisma/client';
+import { format } from 'date-fns';
+import { env, isLlmEnabled } from '../config/env.js';
+import { createLogger } from '../config/logger.js';
+import { getTodayInTimezone } from './progress.service.js';
+import { getLlmProvider } from './llm.service.js';
+import type { LlmError } from './llm.service.js';
+import {
+  analysisRequestsTotal,
+  analysisRequestDuration,
+} from '../server/metrics.js';
+
+/**
+ * Analysis service runs /summary prompts through the configured LLM
+ * and enforces the per-user daily quota (LLM_DAILY_QUOTA).
+ * Every request is recorded; pending and successful ones count towards
+ * the quota for the user's local day, failed ones don't.
+ */
+
+const log = createLogger('analysis');
+
+export type AnalysisError = 'disabled' | 'quota-exceeded' | LlmError;
+
+export type AnalysisResult =
+  | { success: true; text: string; remaining: number }
+  | { success: false; error: AnalysisError };
+
+/**
+ * Get today's quota key (local date) for a user.
+ */
+function getQuotaDate(user: User): string {
+  return format(getTodayInTimezone(user.timezone), 'yyyy-MM-dd');
+}
+
+/**
+ * Count requests that use up today's quota.
+ */
+async function countUsedAnalyses(
+  userId: string,
+  date: string
+): Promise<number> {
+  return prisma.analysisRequest.count({
+    where: { userId, date, status: { not: 'failed' } },
+  });
+}
+
+/**
+ * Get how many analyses the user has left today.
+ */
+export async function getRemainingAnalyses(user: User): Promise<number> {
+  if (!isLlmEnabled) return 0;
+
+  const used = await countUsedAnalyses(user.id, getQuotaDate(user));
+  return Math.max(env.LLM_DAILY_QUOTA - used, 0);
+}
+
+/**
+ * Send a prompt to the configured LLM and return its analysis.
+ * The quota slot is reserved before the call, so parallel requests
+ * can't exceed it.
+ */
+export async function requestAnalysis(
+  user: User,
+  prompt: string
+): Promise<AnalysisResult> {
+  const provider = getLlmProvider();
+
+  if (!isLlmEnabled || !provider) {
+    return { success: false, error: 'disabled' };
+  }
+
+  const date = getQuotaDate(user);
+
+  const request = await prisma.$transaction(async (tx) => {
+    const used = await tx.analysisRequest.count({
+      where: { userId: user.id, date, status: { not: 'failed' } },
+    });
+
+    if (used >= env.LLM_DAILY_QUOTA) return null;
+
+    return tx.analysisRequest.create({
+      data: { userId: user.id, date, status: 'pending', model: provider.model },
+    });
+  });
+
+  if (!request) {
+    analysisRequestsTotal.inc({ status: 'quota_exceeded' });
+    return { success: false, error: 'quota-exceeded' };
+  }
+
+  const startedAt = Date.now();
+  const result = await provider.complete(prompt);
+  const durationMs = Date.now() - startedAt;
+
+  analysisRequestDuration.observe(durationMs / 1000);
+  analysisRequestsTotal.inc({ status: result.success ? 'success' : 'failed' });
+
+  await prisma.analysisRequest.update({
+    where: { id: request.id },
+    data: {
+      status: result.success ? 'success' : 'failed',
+      durationMs,
+      error: result.success ? null : result.message,
+    },
+  });
+
+  if (!result.success) {
+    log.warn(
+      { userId: user.id, error: result.error, message: result.message },
+      'LLM analysis failed'
+    );
+    return { success: false, error: result.error };
+  }
+
+  const used = await countUsedAnalyses(user.id, date);
+
+  return {
+    success: true,
+    text: result.text,
+    remaining: Math.max(env.LLM_DAILY_QUOTA - used, 0),
+  };
+}
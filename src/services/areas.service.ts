@@ -1,21 +1,37 @@
 import prisma from '../db/client.js';
 import type { Area } from '@prisma/client';
+import { getISODay } from 'date-fns';
 import { VALIDATION_LIMITS } from '../bot/utils/validators.js';
+import type { AreaCadence } from '../types/index.js';
 
 /**
  * Areas service handles all area-related database operations.
  */
 
 /**
- * Get all areas for a user, ordered by position.
+ * Get active areas for a user, ordered by position.
+ * Pass includeArchived to also get archived areas (e.g., to display history).
  */
-export async function getUserAreas(userId: string): Promise<Area[]> {
+export async function getUserAreas(
+  userId: string,
+  options: { includeArchived?: boolean } = {}
+): Promise<Area[]> {
   return prisma.area.findMany({
-    where: { userId },
+    where: options.includeArchived ? { userId } : { userId, archivedAt: null },
     orderBy: { position: 'asc' },
   });
 }
 
+/**
+ * Get archived areas for a user, most recently archived first.
+ */
+export async function getArchivedAreas(userId: string): Promise<Area[]> {
+  return prisma.area.findMany({
+    where: { userId, archivedAt: { not: null } },
+    orderBy: { archivedAt: 'desc' },
+  });
+}
+
 /**
  * Get a single area by ID.
  */
@@ -26,11 +42,11 @@ export async function getAreaById(areaId: string): Promise<Area | null> {
 }
 
 /**
- * Get the count of areas for a user.
+ * Get the count of active areas for a user (archived areas don't count).
  */
 export async function getUserAreasCount(userId: string): Promise<number> {
   return prisma.area.count({
-    where: { userId },
+    where: { userId, archivedAt: null },
   });
 }
 
@@ -53,6 +69,8 @@ export async function createArea(
     title: string;
     body?: string;
     emoji?: string;
+    unit?: string;
+    target?: number;
   }
 ): Promise<Area> {
   const count = await getUserAreasCount(userId);
@@ -69,6 +87,8 @@ export async function createArea(
       title: data.title,
       body: data.body,
       emoji: data.emoji,
+      unit: data.unit,
+      target: data.target,
       position: count + 1,
     },
   });
@@ -76,6 +96,7 @@ export async function createArea(
 
 /**
  * Update an existing area.
+ * Removing the unit also removes the target (the area becomes free text).
  */
 export async function updateArea(
   areaId: string,
@@ -83,10 +104,12 @@ export async function updateArea(
     title?: string;
     body?: string | null;
     emoji?: string | null;
+    unit?: string | null;
+    target?: number | null;
   }
 ): Promise<Area> {
   // Build update object with only defined fields
-  const updateData: Record<string, string | null> = {};
+  const updateData: Record<string, string | number | null> = {};
 
   if (data.title !== undefined) {
     updateData.title = data.title;
@@ -97,6 +120,15 @@ export async function updateArea(
   if (data.emoji !== undefined) {
     updateData.emoji = data.emoji;
   }
+  if (data.unit !== undefined) {
+    updateData.unit = data.unit;
+    if (data.unit === null) {
+      updateData.target = null;
+    }
+  }
+  if (data.target !== undefined && data.unit !== null) {
+    updateData.target = data.target;
+  }
 
   return prisma.area.update({
     where: { id: areaId },
@@ -122,9 +154,93 @@ export async function deleteArea(areaId: string): Promise<void> {
     where: { id: areaId },
   });
 
-  // Reorder remaining areas to maintain sequential positions
+  await reorderAreas(area.userId);
+}
+
+/**
+ * Archive an area: it's hidden from logging and digests, but its
+ * progress history is kept. Archived areas don't count toward the limit.
+ */
+export async function archiveArea(areaId: string): Promise<void> {
+  const area = await prisma.area.update({
+    where: { id: areaId },
+    data: { archivedAt: new Date() },
+  });
+
+  await reorderAreas(area.userId);
+}
+
+/**
+ * Restore an archived area, placing it after the active areas.
+ * Throws an error if the user already has the maximum of active areas.
+ */
+export async function restoreArea(areaId: string): Promise<Area> {
+  const area = await prisma.area.findUnique({
+    where: { id: areaId },
+  });
+
+  if (!area) {
+    throw new Error('Area not found');
+  }
+
+  const count = await getUserAreasCount(area.userId);
+
+  if (count >= VALIDATION_LIMITS.MAX_AREAS_PER_USER) {
+    throw new Error(
+      `Maximum of ${VALIDATION_LIMITS.MAX_AREAS_PER_USER} areas reached`
+    );
+  }
+
+  return prisma.area.update({
+    where: { id: areaId },
+    data: { archivedAt: null, position: count + 1 },
+  });
+}
+
+/**
+ * Move an active area to a new 1-based position (clamped to the list).
+ * The other areas shift to make room, and all positions are renumbered
+ * in a single transaction. Returns false if the area isn't active.
+ */
+export async function moveArea(
+  areaId: string,
+  toPosition: number
+): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const area = await tx.area.findUnique({
+      where: { id: areaId },
+    });
+
+    if (!area || area.archivedAt) return false;
+
+    const areas = await tx.area.findMany({
+      where: { userId: area.userId, archivedAt: null },
+      orderBy: { position: 'asc' },
+    });
+
+    const ordered = areas.filter((a) => a.id !== areaId);
+    const index = Math.min(Math.max(toPosition, 1), areas.length) - 1;
+    ordered.splice(index, 0, area);
+
+    await Promise.all(
+      ordered.map((a, i) =>
+        tx.area.update({
+          where: { id: a.id },
+          data: { position: i + 1 },
+        })
+      )
+    );
+
+    return true;
+  });
+}
+
+/**
+ * Reorder active areas to maintain sequential positions.
+ */
+async function reorderAreas(userId: string): Promise<void> {
   const remainingAreas = await prisma.area.findMany({
-    where: { userId: area.userId },
+    where: { userId, archivedAt: null },
     orderBy: { position: 'asc' },
   });
 
@@ -139,6 +255,65 @@ export async function deleteArea(areaId: string): Promise<void> {
   );
 }
 
+/**
+ * Get the target cadence of an area.
+ * Falls back to daily if the stored cadence is incomplete.
+ */
+export function parseAreaCadence(
+  area: Pick<Area, 'cadence' | 'timesPerWeek' | 'weekdays'>
+): AreaCadence {
+  if (area.cadence === 'weekly' && area.timesPerWeek) {
+    return { type: 'weekly', timesPerWeek: area.timesPerWeek };
+  }
+
+  if (area.cadence === 'weekdays' && area.weekdays) {
+    try {
+      const parsed = JSON.parse(area.weekdays) as unknown;
+      if (Array.isArray(parsed)) {
+        const weekdays = parsed.filter(
+          (d): d is number => typeof d === 'number' && d >= 1 && d <= 7
+        );
+        if (weekdays.length > 0) {
+          return { type: 'weekdays', weekdays: weekdays.sort((a, b) => a - b) };
+        }
+      }
+    } catch {
+      // Invalid JSON, fall back to daily
+    }
+  }
+
+  return { type: 'daily' };
+}
+
+/**
+ * Check if a cadence schedules the area on a specific day.
+ * Weekly areas can be done on any day (their quota is checked separately).
+ */
+export function isScheduledOn(cadence: AreaCadence, date: Date): boolean {
+  if (cadence.type === 'weekdays') {
+    return cadence.weekdays.includes(getISODay(date));
+  }
+  return true;
+}
+
+/**
+ * Update the target cadence of an area.
+ */
+export async function updateAreaCadence(
+  areaId: string,
+  cadence: AreaCadence
+): Promise<Area> {
+  return prisma.area.update({
+    where: { id: areaId },
+    data: {
+      cadence: cadence.type,
+      timesPerWeek: cadence.type === 'weekly' ? cadence.timesPerWeek : null,
+      weekdays:
+        cadence.type === 'weekdays' ? JSON.stringify(cadence.weekdays) : null,
+    },
+  });
+}
+
 /**
  * Check if an area belongs to a specific user.
  * Useful for authorization checks.
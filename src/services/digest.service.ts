@@ -1,10 +1,26 @@
 import type { User, Area } from '@prisma/client';
 import { getUserAreas } from './areas.service.js';
-import { getUserStatistics, getLastProgressDate } from './statistics.service.js';
+import {
+  getUserStatistics,
+  getLastProgressDate,
+  getAreaMetricStats,
+} from './statistics.service.js';
+import { subDays, startOfDay } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
 import { formatDateTime } from '../bot/utils/date-formatter.js';
+import {
+  formatMetricValue,
+  formatCadence,
+} from '../bot/utils/message-formatter.js';
+import { parseAreaCadence } from './areas.service.js';
+import type { AreaMetricStats, AreaStreak } from '../types/index.js';
 import type { Language } from '../locales/index.js';
 
+/**
+ * Number of days covered by the metrics section.
+ */
+const METRICS_PERIOD_DAYS = 7;
+
 /**
  * Digest service handles digest (goals overview) generation.
  * Digests are always sent at configured times to help users stay focused.
@@ -12,11 +28,20 @@ import type { Language } from '../locales/index.js';
 
 /**
  * Format an area for display in the digest.
+ * Non-daily cadences are shown after the title; behind-target areas are flagged.
  */
-function formatArea(area: Area, index: number): string {
+function formatArea(
+  area: Area,
+  index: number,
+  isBehind: boolean,
+  lang: Language
+): string {
   const emoji = area.emoji ?? '•';
+  const cadence = formatCadence(parseAreaCadence(area), lang);
+  const schedule = cadence ? ` (${cadence})` : '';
+  const flag = isBehind ? ' ⚠️' : '';
   const body = area.body ? `\n   → ${area.body}` : '';
-  return `${index + 1}. ${emoji} ${area.title}${body}`;
+  return `${index + 1}. ${emoji} ${area.title}${schedule}${flag}${body}`;
 }
 
 /**
@@ -64,6 +89,42 @@ function t(key: string, lang: Language): string {
       en: 'Last',
       ru: 'Последнее',
     },
+    'digest-behind': {
+      en: '⚠️ _Behind target this week:',
+      ru: '⚠️ _Отставание от цели на этой неделе:',
+    },
+    'metrics-title': {
+      en: '📏 *Last 7 days*',
+      ru: '📏 *За 7 дней*',
+    },
+    'metrics-total': {
+      en: 'total',
+      ru: 'всего',
+    },
+    'metrics-avg': {
+      en: 'avg',
+      ru: 'в среднем',
+    },
+    'metrics-target': {
+      en: 'target',
+      ru: 'цель',
+    },
+    'streaks-title': {
+      en: '🔥 *Streaks*',
+      ru: '🔥 *Серии*',
+    },
+    'streaks-best': {
+      en: 'best',
+      ru: 'рекорд',
+    },
+    'stats-best': {
+      en: '🏆 best',
+      ru: '🏆 рекорд',
+    },
+    'digest-late': {
+      en: '⏰ _Delayed — scheduled for',
+      ru: '⏰ _С опозданием — запланировано на',
+    },
   };
 
   return translations[key]?.[lang] ?? translations[key]?.en ?? key;
@@ -75,18 +136,44 @@ function t(key: string, lang: Language): string {
 function getDaysWord(count: number, lang: Language): string {
   if (lang === 'ru') {
     if (count % 10 === 1 && count % 100 !== 11) return 'день';
-    if (count % 10 >= 2 && count % 10 <= 4 && (count % 100 < 10 || count % 100 >= 20)) return 'дня';
+    if (
+      count % 10 >= 2 &&
+      count % 10 <= 4 &&
+      (count % 100 < 10 || count % 100 >= 20)
+    )
+      return 'дня';
     return 'дней';
   }
   return count === 1 ? 'day' : 'days';
 }
 
+/**
+ * Get pluralized weeks string.
+ */
+function getWeeksWord(count: number, lang: Language): string {
+  if (lang === 'ru') {
+    if (count % 10 === 1 && count % 100 !== 11) return 'неделя';
+    if (
+      count % 10 >= 2 &&
+      count % 10 <= 4 &&
+      (count % 100 < 10 || count % 100 >= 20)
+    )
+      return 'недели';
+    return 'недель';
+  }
+  return count === 1 ? 'week' : 'weeks';
+}
+
 /**
  * Generate the digest message for a user.
  * Shows their focus areas and current statistics.
  * This is sent to remind users of their goals throughout the day.
+ * Pass lateFor (HH:mm) when the digest is sent after its scheduled slot.
  */
-export async function generateDigest(user: User): Promise<string> {
+export async function generateDigest(
+  user: User,
+  options: { lateFor?: string } = {}
+): Promise<string> {
   const lang = (user.language || 'en') as Language;
   const areas = await getUserAreas(user.id);
   const stats = await getUserStatistics(user.id, user.timezone);
@@ -97,29 +184,75 @@ export async function generateDigest(user: User): Promise<string> {
   const zonedNow = toZonedTime(now, user.timezone);
   const greeting = getTimeBasedGreeting(zonedNow.getHours(), lang);
 
+  const today = startOfDay(zonedNow);
+  const metrics = await getAreaMetricStats(
+    user.id,
+    subDays(today, METRICS_PERIOD_DAYS - 1),
+    today
+  );
+
   // Build the message
-  const lines: string[] = [
+  const lines: string[] = [];
+
+  if (options.lateFor) {
+    lines.push(`${t('digest-late', lang)} ${options.lateFor}_`, '');
+  }
+
+  lines.push(
     greeting,
     '',
     t('digest-review', lang),
     '',
     t('digest-areas-title', lang),
-    '',
-  ];
+    ''
+  );
 
   if (areas.length === 0) {
     lines.push(t('digest-no-areas', lang));
   } else {
+    const behind = new Set(stats.behindTargetAreaIds);
     areas.forEach((area, index) => {
-      lines.push(formatArea(area, index));
+      lines.push(formatArea(area, index, behind.has(area.id), lang));
     });
+
+    const behindTitles = areas
+      .filter((area) => behind.has(area.id))
+      .map((area) => area.title);
+    if (behindTitles.length > 0) {
+      lines.push('', `${t('digest-behind', lang)} ${behindTitles.join(', ')}_`);
+    }
+  }
+
+  // Numeric metrics for areas with a unit
+  if (metrics.length > 0) {
+    lines.push('', t('metrics-title', lang));
+    metrics.forEach((metric) => {
+      lines.push(formatMetricLine(metric, lang));
+    });
+  }
+
+  // Per-area streaks (areas with no streak history are left out)
+  const streakLines = areas.flatMap((area) => {
+    const streak = stats.areaStreaks.find((s) => s.areaId === area.id);
+    return streak && streak.longest > 0
+      ? [formatStreakLine(area, streak, lang)]
+      : [];
+  });
+  if (streakLines.length > 0) {
+    lines.push('', t('streaks-title', lang), ...streakLines);
   }
 
   lines.push('');
   lines.push('───────────────');
 
   // Stats line
-  const statsLine = buildStatsLine(stats.currentStreak, lastProgressDate, user.timezone, lang);
+  const statsLine = buildStatsLine(
+    stats.currentStreak,
+    stats.longestStreak,
+    lastProgressDate,
+    user.timezone,
+    lang
+  );
   lines.push(statsLine);
 
   lines.push('');
@@ -128,6 +261,44 @@ export async function generateDigest(user: User): Promise<string> {
   return lines.join('\n');
 }
 
+/**
+ * Format metric stats for an area: total, average and target attainment.
+ */
+function formatMetricLine(metric: AreaMetricStats, lang: Language): string {
+  const { area } = metric;
+  const emoji = area.emoji ?? '•';
+  const parts = [
+    `${formatMetricValue(metric.total, area.unit)} ${t('metrics-total', lang)}`,
+    `${t('metrics-avg', lang)} ${formatMetricValue(metric.average, area.unit)}`,
+  ];
+
+  if (area.target !== null && metric.targetMetDays !== null) {
+    const attainment = Math.round((metric.targetAttainment ?? 0) * 100);
+    parts.push(
+      `${t('metrics-target', lang)} ${formatMetricValue(area.target, area.unit)}: ` +
+        `${metric.targetMetDays}/${metric.daysLogged} ${getDaysWord(metric.daysLogged, lang)} (${attainment}%)`
+    );
+  }
+
+  return `${emoji} ${area.title}: ${parts.join(' · ')}`;
+}
+
+/**
+ * Format an area's current streak with its record, e.g. "🏃 Run: 3 days (best 10)".
+ */
+function formatStreakLine(
+  area: Area,
+  streak: AreaStreak,
+  lang: Language
+): string {
+  const emoji = area.emoji ?? '•';
+  const unitWord =
+    streak.unit === 'weeks'
+      ? getWeeksWord(streak.current, lang)
+      : getDaysWord(streak.current, lang);
+  return `${emoji} ${area.title}: ${streak.current} ${unitWord} (${t('streaks-best', lang)} ${streak.longest})`;
+}
+
 /**
  * Get a greeting based on the time of day.
  */
@@ -146,6 +317,7 @@ function getTimeBasedGreeting(hour: number, lang: Language): string {
  */
 function buildStatsLine(
   streak: number,
+  longestStreak: number,
   lastProgressDate: Date | null,
   _timezone: string,
   lang: Language
@@ -157,6 +329,10 @@ function buildStatsLine(
     parts.push(`🔥 ${streak} ${daysWord} ${t('stats-streak', lang)}`);
   }
 
+  if (longestStreak > 0) {
+    parts.push(`${t('stats-best', lang)} ${longestStreak}`);
+  }
+
   if (lastProgressDate) {
     const formattedDate = formatDateTime(lastProgressDate, lang);
     parts.push(`${t('stats-last', lang)}: ${formattedDate}`);
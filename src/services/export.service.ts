@@ -0,0 +1,292 @@
+import prisma from '../db/client.js';
+import type { User, Area, ProgressEntry } from '@prisma/client';
+import { format, setISODay } from 'date-fns';
+import { parseDigestTimes, parseRestDays } from './user.service.js';
+import { formatMetricValue } from '../bot/utils/message-formatter.js';
+import type { ExportFormat, UserExport } from '../types/index.js';
+
+/**
+ * Export service builds a user's complete history as a downloadable file.
+ * JSON is lossless (all settings, areas and every entry), CSV has one row per
+ * entry and Markdown is a readable journal grouped by day.
+ * Archived areas and their entries are always included.
+ */
+
+/**
+ * Version of the JSON export layout.
+ */
+export const EXPORT_VERSION = 1;
+
+/**
+ * Columns of the CSV export (one row per entry).
+ */
+export const CSV_COLUMNS = [
+  'date',
+  'area_id',
+  'area',
+  'emoji',
+  'type',
+  'content',
+  'value',
+  'unit',
+  'skipped',
+  'created_at',
+] as const;
+
+/**
+ * Build the complete export data for a user.
+ * Entries are ordered by date, then by area position (check-ins last).
+ */
+export async function buildUserExport(user: User): Promise<UserExport> {
+  const [areas, entries] = await Promise.all([
+    prisma.area.findMany({
+      where: { userId: user.id },
+      orderBy: [{ archivedAt: 'asc' }, { position: 'asc' }],
+    }),
+    prisma.progressEntry.findMany({
+      where: { userId: user.id },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: {
+      language: user.language,
+      timezone: user.timezone,
+      digestTimes: parseDigestTimes(user.digestTimes),
+      progressReminderTime: user.progressReminderTime,
+      streakWarningTime: user.streakWarningTime,
+      weeklyReviewDay: user.weeklyReviewDay,
+      weeklyReviewTime: user.weeklyReviewTime,
+      retrospectiveReports: user.retrospectiveReports,
+      restDays: parseRestDays(user.restDays),
+      summaryDelivery: user.summaryDelivery,
+      summaryTemplate: user.summaryTemplate,
+      createdAt: user.createdAt.toISOString(),
+    },
+    areas: areas.map(toAreaExport),
+    entries: sortEntries(entries, areas).map((entry) => ({
+      date: format(entry.date, 'yyyy-MM-dd'),
+      areaId: entry.areaId,
+      content: entry.content,
+      value: entry.value,
+      skipped: entry.skipped,
+      frozen: entry.frozen,
+      createdAt: entry.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Export a user's data in the given format.
+ * Returns the file name and its content.
+ */
+export async function exportUserData(
+  user: User,
+  exportFormat: ExportFormat
+): Promise<{ filename: string; content: string }> {
+  const data = await buildUserExport(user);
+  const filename = `goals-export-${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+  switch (exportFormat) {
+    case 'csv':
+      return { filename, content: formatCsv(data) };
+    case 'md':
+      return { filename, content: formatMarkdown(data) };
+    default:
+      return { filename, content: JSON.stringify(data, null, 2) };
+  }
+}
+
+/**
+ * Convert an area to its export shape.
+ */
+function toAreaExport(area: Area): UserExport['areas'][number] {
+  let weekdays: number[] | null = null;
+  if (area.weekdays) {
+    try {
+      weekdays = JSON.parse(area.weekdays) as number[];
+    } catch {
+      // Invalid JSON, export without weekdays
+    }
+  }
+
+  return {
+    id: area.id,
+    title: area.title,
+    body: area.body,
+    emoji: area.emoji,
+    position: area.position,
+    unit: area.unit,
+    target: area.target,
+    cadence: area.cadence,
+    timesPerWeek: area.timesPerWeek,
+    weekdays,
+    archivedAt: area.archivedAt?.toISOString() ?? null,
+    createdAt: area.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Sort entries by date, then by area order (archived areas after active
+ * ones, check-ins last).
+ */
+function sortEntries(entries: ProgressEntry[], areas: Area[]): ProgressEntry[] {
+  const order = new Map(areas.map((area, index) => [area.id, index]));
+  const rank = (entry: ProgressEntry): number =>
+    entry.areaId !== null
+      ? (order.get(entry.areaId) ?? areas.length)
+      : areas.length + 1;
+
+  return [...entries].sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || rank(a) - rank(b)
+  );
+}
+
+/**
+ * Text that spreadsheet apps would evaluate as a formula. Such CSV cells
+ * are prefixed with an apostrophe, which /import removes again.
+ */
+export const CSV_FORMULA_PATTERN = /^[=+\-@]/;
+
+/**
+ * Escape a CSV field (RFC 4180): quote fields with commas, quotes or
+ * newlines, and keep formulas in user text from being evaluated.
+ */
+function escapeCsv(field: string): string {
+  const text = CSV_FORMULA_PATTERN.test(field) ? `'${field}` : field;
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Format export data as CSV with one row per entry.
+ */
+function formatCsv(data: UserExport): string {
+  const areasById = new Map(data.areas.map((area) => [area.id, area]));
+
+  const rows = data.entries.map((entry) => {
+    const area = entry.areaId ? areasById.get(entry.areaId) : undefined;
+    return [
+      entry.date,
+      entry.areaId ?? '',
+      area?.title ?? '',
+      area?.emoji ?? '',
+      entry.areaId ? 'entry' : entry.frozen ? 'freeze' : 'check-in',
+      entry.content ?? '',
+      entry.value !== null ? String(entry.value) : '',
+      area?.unit ?? '',
+      String(entry.skipped),
+      entry.createdAt,
+    ]
+      .map(escapeCsv)
+      .join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Indent continuation lines so multi-line text stays inside its list item.
+ */
+function indentLines(text: string, indent: string): string {
+  return text.replace(/\r?\n/g, `\n${indent}`);
+}
+
+/**
+ * Get the English name of an ISO weekday (1=Monday..7=Sunday).
+ */
+function weekdayName(day: number): string {
+  return format(setISODay(new Date(), day), 'EEEE');
+}
+
+/**
+ * Format export data as a Markdown journal grouped by day.
+ */
+function formatMarkdown(data: UserExport): string {
+  const areasById = new Map(data.areas.map((area) => [area.id, area]));
+  const { user } = data;
+  const lines: string[] = [
+    '# Goals export',
+    '',
+    `Exported: ${data.exportedAt}`,
+    '',
+    '## Settings',
+    '',
+    `- Language: ${user.language}`,
+    `- Timezone: ${user.timezone}`,
+    `- Digest times: ${user.digestTimes.join(', ') || 'none'}`,
+    `- Progress reminder: ${user.progressReminderTime ?? 'none'}`,
+    `- Streak warning: ${user.streakWarningTime ?? 'none'}`,
+    `- Weekly review: ${
+      user.weeklyReviewTime
+        ? `${weekdayName(user.weeklyReviewDay)} ${user.weeklyReviewTime}`
+        : 'off'
+    }`,
+    `- Retrospective reports: ${user.retrospectiveReports ? 'on' : 'off'}`,
+    `- Rest days: ${user.restDays.map(weekdayName).join(', ') || 'none'}`,
+    `- Summary delivery: ${user.summaryDelivery}`,
+    `- Summary template: ${user.summaryTemplate}`,
+    '',
+    '## Areas',
+    '',
+  ];
+
+  if (data.areas.length === 0) {
+    lines.push('No areas.');
+  }
+
+  // Active areas are numbered by position, archived ones are listed after them
+  data.areas.forEach((area) => {
+    const marker = area.archivedAt ? '-' : `${area.position}.`;
+    const archived = area.archivedAt ? ' _(archived)_' : '';
+    const unit = area.unit ? ` — measured in ${area.unit}` : '';
+    lines.push(
+      `${marker} ${area.emoji ?? '•'} **${area.title}**${unit}${archived}`
+    );
+    if (area.body) {
+      lines.push(`   ${indentLines(area.body, '   ')}`);
+    }
+  });
+
+  lines.push('', '## Progress');
+
+  if (data.entries.length === 0) {
+    lines.push('', 'No progress entries.');
+  }
+
+  let currentDate = '';
+  for (const entry of data.entries) {
+    if (entry.date !== currentDate) {
+      currentDate = entry.date;
+      lines.push('', `### ${entry.date}`, '');
+    }
+
+    if (!entry.areaId) {
+      lines.push(entry.frozen ? '- 🧊 Streak freeze' : '- ✅ Check-in');
+      continue;
+    }
+
+    const area = areasById.get(entry.areaId);
+    const label = `${area?.emoji ?? '•'} ${area?.title ?? '?'}`;
+
+    if (entry.skipped) {
+      lines.push(`- ${label}: _skipped_`);
+    } else if (entry.value !== null) {
+      const note = entry.content
+        ? ` — ${indentLines(entry.content, '  ')}`
+        : '';
+      lines.push(
+        `- ${label}: ${formatMetricValue(entry.value, area?.unit ?? null)}${note}`
+      );
+    } else {
+      lines.push(`- ${label}: ${indentLines(entry.content ?? '', '  ')}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,177 @@
+import prisma from '../db/client.js';
+import { addDays, getISODay } from 'date-fns';
+import { getTodayInTimezone } from './progress.service.js';
+import {
+  getActivityDates,
+  getRestDays,
+  isBridgedByRestDays,
+  calculateStreak,
+} from './statistics.service.js';
+import type { ActivityDate, FreezeStatus } from '../types/index.js';
+
+/**
+ * Freeze service handles streak freezes: check-in entries (frozen = true)
+ * that cover missed days so the streak survives sickness or travel.
+ * Freezes are earned by keeping a streak going and aren't stored as a
+ * balance: it is replayed from the activity history, so deleting a
+ * freeze entry gives it back.
+ */
+
+/**
+ * Consecutive days of real activity needed to earn a freeze.
+ */
+export const FREEZE_EARN_DAYS = 7;
+
+/**
+ * Maximum number of freezes a user can hold.
+ */
+export const MAX_FREEZES = 3;
+
+export type FreezeError = 'nothing-to-freeze' | 'not-enough-freezes';
+
+export type FreezeResult =
+  | { success: true; frozenDays: Date[]; streak: number }
+  | { success: false; error: FreezeError };
+
+/**
+ * Replay the activity history (newest first, as returned by
+ * getActivityDates) to get the freeze balance.
+ * Every FREEZE_EARN_DAYS days of real activity in one streak earn a
+ * freeze (up to MAX_FREEZES), every frozen day uses one.
+ * Also returns the real activity days in the latest streak.
+ */
+export function calculateFreezeBalance(
+  activityDates: ActivityDate[],
+  restDays: number[]
+): { available: number; streakDays: number } {
+  let available = 0;
+  let streakDays = 0;
+  let previous: Date | null = null;
+
+  for (const { date, frozen } of [...activityDates].reverse()) {
+    if (previous && !isBridgedByRestDays(date, previous, restDays)) {
+      streakDays = 0;
+    }
+    previous = date;
+
+    if (frozen) {
+      available = Math.max(available - 1, 0);
+      continue;
+    }
+
+    streakDays++;
+    if (streakDays % FREEZE_EARN_DAYS === 0) {
+      available = Math.min(available + 1, MAX_FREEZES);
+    }
+  }
+
+  return { available, streakDays };
+}
+
+/**
+ * Get the missed days between the last activity and today, oldest first.
+ * Rest days and today (not over yet) aren't missed. Stops after
+ * MAX_FREEZES + 1 days: more than that can't be frozen anyway.
+ */
+export function getMissedDays(
+  activityDates: ActivityDate[],
+  restDays: number[],
+  today: Date
+): Date[] {
+  const last = activityDates.at(0)?.date;
+  if (!last) return [];
+
+  const missed: Date[] = [];
+  for (
+    let day = addDays(last, 1);
+    day < today && missed.length <= MAX_FREEZES;
+    day = addDays(day, 1)
+  ) {
+    if (!restDays.includes(getISODay(day))) {
+      missed.push(day);
+    }
+  }
+
+  return missed;
+}
+
+/**
+ * Get a user's freeze balance and the missed days a freeze could cover.
+ */
+export async function getFreezeStatus(
+  userId: string,
+  timezone: string
+): Promise<FreezeStatus> {
+  const [activityDates, restDays] = await Promise.all([
+    getActivityDates(userId),
+    getRestDays(userId),
+  ]);
+
+  const { available, streakDays } = calculateFreezeBalance(
+    activityDates,
+    restDays
+  );
+  const missedDays = getMissedDays(
+    activityDates,
+    restDays,
+    getTodayInTimezone(timezone)
+  );
+
+  // A streak that can't be restored starts over
+  const keepsStreak = missedDays.length <= available;
+  const progress = keepsStreak ? streakDays % FREEZE_EARN_DAYS : 0;
+
+  return {
+    available,
+    daysToNext: available < MAX_FREEZES ? FREEZE_EARN_DAYS - progress : null,
+    missedDays,
+  };
+}
+
+/**
+ * Freeze all missed days since the last activity, restoring the streak.
+ * All or nothing: fails if there are more missed days than freezes.
+ */
+export async function applyFreezes(
+  userId: string,
+  timezone: string
+): Promise<FreezeResult> {
+  const { available, missedDays } = await getFreezeStatus(userId, timezone);
+
+  if (missedDays.length === 0) {
+    return { success: false, error: 'nothing-to-freeze' };
+  }
+  if (missedDays.length > available) {
+    return { success: false, error: 'not-enough-freezes' };
+  }
+
+  const created = await prisma.$transaction(async (tx) => {
+    // A repeated tap may have frozen these days already
+    const existing = await tx.progressEntry.count({
+      where: { userId, date: { in: missedDays } },
+    });
+    if (existing > 0) return false;
+
+    await tx.progressEntry.createMany({
+      data: missedDays.map((date) => ({
+        userId,
+        areaId: null,
+        content: null,
+        skipped: true,
+        frozen: true,
+        date,
+      })),
+    });
+    return true;
+  });
+
+  if (!created) {
+    return { success: false, error: 'nothing-to-freeze' };
+  }
+
+  return {
+    success: true,
+    frozenDays: missedDays,
+    streak: await calculateStreak(userId, timezone),
+  };
+}
@@ -0,0 +1,185 @@
+import { deflateSync } from 'node:zlib';
+import {
+  format,
+  subWeeks,
+  startOfISOWeek,
+  eachDayOfInterval,
+  differenceInCalendarWeeks,
+  getISODay,
+} from 'date-fns';
+import { getTodayInTimezone } from './progress.service.js';
+import { getActivityCalendar } from './statistics.service.js';
+import type { ActivityKind, DateRange, Heatmap } from '../types/index.js';
+
+/**
+ * Heatmap service renders a GitHub-style activity heatmap as a PNG:
+ * one column per week (Monday on top), one cell per day.
+ * Rendering is done in-process (zlib only), no canvas or external service.
+ */
+
+/**
+ * Number of weeks shown (a year, plus the current partial week).
+ */
+const HEATMAP_WEEKS = 53;
+
+/**
+ * Cell size, gap between cells and outer padding, in pixels.
+ */
+const CELL_SIZE = 20;
+const CELL_GAP = 4;
+const PADDING = 16;
+
+type Rgb = [number, number, number];
+
+/**
+ * Cell colors. Check-in-only days and streak freezes use different hues
+ * than days with entries, so they stay apart at a glance (and in the
+ * caption legend).
+ */
+const COLORS: Record<ActivityKind | 'none' | 'background', Rgb> = {
+  progress: [64, 196, 99], // green
+  'check-in': [121, 184, 255], // blue
+  freeze: [190, 170, 240], // light purple
+  none: [235, 237, 240], // light gray
+  background: [255, 255, 255],
+};
+
+/**
+ * Get the period covered by a heatmap: whole weeks (Monday first)
+ * ending with the current week, in the user's timezone.
+ */
+export function getHeatmapRange(timezone: string): DateRange {
+  const today = getTodayInTimezone(timezone);
+  return {
+    start: startOfISOWeek(subWeeks(today, HEATMAP_WEEKS - 1)),
+    end: today,
+  };
+}
+
+/**
+ * CRC-32 lookup table (PNG chunk checksums).
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Compute the CRC-32 checksum of a buffer.
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a PNG chunk: length, type, data and CRC of type + data.
+ */
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Encode 8-bit RGB pixels (row by row) as a PNG image.
+ */
+function encodePng(width: number, height: number, pixels: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8); // bit depth
+  header.writeUInt8(2, 9); // color type: RGB
+  // compression, filter and interlace methods stay 0
+
+  // Every scanline starts with its filter type (0 = none)
+  const rowLength = width * 3;
+  const raw = Buffer.alloc((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    pixels.copy(
+      raw,
+      y * (rowLength + 1) + 1,
+      y * rowLength,
+      (y + 1) * rowLength
+    );
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Render an activity calendar as a heatmap PNG.
+ * The range should start on a Monday (see getHeatmapRange);
+ * days after the range end are left blank.
+ */
+export function renderHeatmapPng(
+  calendar: Map<string, ActivityKind>,
+  range: DateRange
+): Buffer {
+  const weeks =
+    differenceInCalendarWeeks(range.end, range.start, {
+      weekStartsOn: 1,
+    }) + 1;
+  const width = PADDING * 2 + weeks * (CELL_SIZE + CELL_GAP) - CELL_GAP;
+  const height = PADDING * 2 + 7 * (CELL_SIZE + CELL_GAP) - CELL_GAP;
+
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    pixels.set(COLORS.background, i * 3);
+  }
+
+  eachDayOfInterval(range).forEach((day, index) => {
+    const color = COLORS[calendar.get(format(day, 'yyyy-MM-dd')) ?? 'none'];
+    const left = PADDING + Math.floor(index / 7) * (CELL_SIZE + CELL_GAP);
+    const top = PADDING + (getISODay(day) - 1) * (CELL_SIZE + CELL_GAP);
+
+    for (let y = top; y < top + CELL_SIZE; y++) {
+      for (let x = left; x < left + CELL_SIZE; x++) {
+        pixels.set(color, (y * width + x) * 3);
+      }
+    }
+  });
+
+  return encodePng(width, height, pixels);
+}
+
+/**
+ * Generate the activity heatmap for a user, overall or for one area.
+ */
+export async function generateHeatmap(
+  userId: string,
+  timezone: string,
+  areaId?: string
+): Promise<Heatmap> {
+  const range = getHeatmapRange(timezone);
+  const calendar = await getActivityCalendar(
+    userId,
+    range.start,
+    range.end,
+    areaId
+  );
+
+  const kinds = [...calendar.values()];
+
+  return {
+    image: renderHeatmapPng(calendar, range),
+    range,
+    progressDays: kinds.filter((kind) => kind === 'progress').length,
+    checkInDays: kinds.filter((kind) => kind === 'check-in').length,
+    frozenDays: kinds.filter((kind) => kind === 'freeze').length,
+  };
+}
@@ -0,0 +1,828 @@
+import prisma from '../db/client.js';
+import type { Area, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { format, isValid, parse } from 'date-fns';
+import {
+  VALIDATION_LIMITS,
+  areaTitleSchema,
+  metricValueSchema,
+  timeSchema,
+  timezoneSchema,
+} from '../bot/utils/validators.js';
+import { CSV_FORMULA_PATTERN, EXPORT_VERSION } from './export.service.js';
+import {
+  MAX_DIGEST_TIMES,
+  MAX_REST_DAYS,
+  getAvailableSummaryDeliveries,
+} from './user.service.js';
+import { isBuiltInTemplate } from './template.service.js';
+import { isValidLanguage } from '../locales/index.js';
+import {
+  SUMMARY_DELIVERY_OPTIONS,
+  type AreaCadence,
+  type ImportArea,
+  type ImportData,
+  type ImportEntry,
+  type ImportPreview,
+  type ImportSettings,
+} from '../types/index.js';
+
+/**
+ * Import service reads history from an uploaded JSON or CSV file.
+ * JSON must be a /export file (see UserExport); CSV needs a header row
+ * with at least "date" and "area" columns (the /export CSV layout works).
+ * Areas are matched by id (from a previous export) or title, and created
+ * if missing. Entries are upserted by user + area + date.
+ * Settings from a JSON export replace the user's current ones.
+ */
+
+/**
+ * Maximum size of an uploaded import file.
+ */
+export const MAX_IMPORT_FILE_BYTES = 1_000_000;
+
+/**
+ * Maximum number of entries in one import.
+ */
+export const MAX_IMPORT_ROWS = 10_000;
+
+/**
+ * File-level problems that prevent an import.
+ */
+export type ImportFileError =
+  | 'unsupported-format'
+  | 'invalid-json'
+  | 'unsupported-version'
+  | 'missing-columns'
+  | 'too-many-rows'
+  | 'empty'
+  // The file couldn't be downloaded or read
+  | 'download-failed';
+
+export type ImportParseResult =
+  | { success: true; data: ImportData }
+  | { success: false; error: ImportFileError };
+
+const dateSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine((str) => isValid(parse(str, 'yyyy-MM-dd', new Date())), {
+    message: 'Invalid date',
+  });
+
+const contentSchema = z
+  .string()
+  .trim()
+  .max(
+    VALIDATION_LIMITS.PROGRESS_CONTENT_MAX,
+    `Progress entry must be ${VALIDATION_LIMITS.PROGRESS_CONTENT_MAX} characters or less`
+  )
+  .nullish()
+  .transform((val) => (val?.length ? val : null));
+
+const valueSchema = z
+  .number()
+  .min(0, 'Number must be 0 or more')
+  .max(
+    VALIDATION_LIMITS.METRIC_VALUE_MAX,
+    `Number must be ${VALIDATION_LIMITS.METRIC_VALUE_MAX} or less`
+  )
+  .nullish()
+  .transform((val) => val ?? null);
+
+const bodySchema = z
+  .string()
+  .trim()
+  .max(
+    VALIDATION_LIMITS.AREA_BODY_MAX,
+    `Description must be ${VALIDATION_LIMITS.AREA_BODY_MAX} characters or less`
+  )
+  .nullish()
+  .transform((val) => (val?.length ? val : null));
+
+const unitSchema = z
+  .string()
+  .trim()
+  .max(
+    VALIDATION_LIMITS.AREA_UNIT_MAX,
+    `Unit must be ${VALIDATION_LIMITS.AREA_UNIT_MAX} characters or less`
+  )
+  .nullish()
+  .transform((val) => (val?.length ? val : null));
+
+// Emoji are only displayed, so anything short is accepted
+const emojiFieldSchema = z
+  .string()
+  .trim()
+  .max(16)
+  .nullish()
+  .catch(null)
+  .transform((val) => (val?.length ? val : null));
+
+const jsonFileSchema = z.object({
+  version: z.number(),
+  user: z.unknown().optional(),
+  areas: z.array(z.unknown()).default([]),
+  entries: z.array(z.unknown()),
+});
+
+// Invalid settings are ignored (the current value is kept)
+const jsonSettingsSchema = z.object({
+  language: z.string().refine(isValidLanguage).optional().catch(undefined),
+  timezone: timezoneSchema.optional().catch(undefined),
+  digestTimes: z
+    .array(timeSchema)
+    .max(MAX_DIGEST_TIMES)
+    .optional()
+    .catch(undefined),
+  progressReminderTime: timeSchema.nullable().optional().catch(undefined),
+  streakWarningTime: timeSchema.nullable().optional().catch(undefined),
+  weeklyReviewDay: z.number().int().min(1).max(7).optional().catch(undefined),
+  weeklyReviewTime: timeSchema.nullable().optional().catch(undefined),
+  retrospectiveReports: z.boolean().optional().catch(undefined),
+  restDays: z
+    .array(z.number().int().min(1).max(7))
+    .max(MAX_REST_DAYS)
+    .optional()
+    .catch(undefined),
+  summaryDelivery: z.enum(SUMMARY_DELIVERY_OPTIONS).optional().catch(undefined),
+  summaryTemplate: z.string().min(1).optional().catch(undefined),
+});
+
+const jsonAreaSchema = z.object({
+  id: z.string().min(1),
+  title: areaTitleSchema,
+  body: bodySchema,
+  emoji: emojiFieldSchema,
+  unit: unitSchema,
+  target: valueSchema,
+  cadence: z.enum(['daily', 'weekly', 'weekdays']).default('daily'),
+  timesPerWeek: z.number().int().min(1).max(6).nullish(),
+  weekdays: z.array(z.number().int().min(1).max(7)).nullish(),
+  archivedAt: z.string().nullish(),
+});
+
+const jsonEntrySchema = z.object({
+  date: dateSchema,
+  areaId: z.string().min(1).nullish(),
+  content: contentSchema,
+  value: valueSchema,
+  skipped: z.boolean().default(false),
+  frozen: z.boolean().default(false),
+});
+
+const csvRowSchema = z.object({
+  date: dateSchema,
+  area_id: z.string().trim().default(''),
+  area: z.string().trim().default(''),
+  emoji: z.string().trim().default(''),
+  type: z.string().trim().default(''),
+  content: z.string().default(''),
+  value: z.string().trim().default(''),
+  unit: z.string().trim().default(''),
+  skipped: z.string().trim().default(''),
+});
+
+/**
+ * Parse and validate an import file.
+ * The format is detected from the file extension (.json or .csv).
+ * Entries dated after todayKey (yyyy-MM-dd) are rejected.
+ */
+export function parseImportFile(
+  filename: string,
+  content: string,
+  todayKey: string
+): ImportParseResult {
+  const extension = filename.toLowerCase().split('.').pop();
+  const text = content.replace(/^\uFEFF/, '');
+
+  if (extension === 'json') return parseJson(text, todayKey);
+  if (extension === 'csv') return parseCsvFile(text, todayKey);
+
+  return { success: false, error: 'unsupported-format' };
+}
+
+/**
+ * Get the first validation error message from a zod result.
+ */
+function firstIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  if (!issue) return 'Invalid row';
+  const field = issue.path.join('.');
+  return field ? `${field}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Build a cadence from exported cadence fields (falls back to daily).
+ */
+function toCadence(area: z.infer<typeof jsonAreaSchema>): AreaCadence {
+  if (area.cadence === 'weekly' && area.timesPerWeek) {
+    return { type: 'weekly', timesPerWeek: area.timesPerWeek };
+  }
+  if (area.cadence === 'weekdays' && area.weekdays?.length) {
+    return { type: 'weekdays', weekdays: [...new Set(area.weekdays)] };
+  }
+  return { type: 'daily' };
+}
+
+/**
+ * Add an entry, rejecting future dates and duplicates (the later row wins).
+ */
+function addEntry(
+  entries: Map<string, ImportEntry>,
+  errors: ImportData['errors'],
+  row: number,
+  entry: ImportEntry,
+  todayKey: string
+): void {
+  if (entry.date > todayKey) {
+    errors.push({ row, message: 'Date is in the future' });
+    return;
+  }
+
+  if (
+    entry.areaKey &&
+    !entry.skipped &&
+    entry.content === null &&
+    entry.value === null
+  ) {
+    errors.push({ row, message: 'Entry is empty' });
+    return;
+  }
+
+  const key = `${entry.areaKey ?? ''}|${entry.date}`;
+  if (entries.has(key)) {
+    entries.delete(key);
+    errors.push({ row, message: 'Duplicate area and date (this row is used)' });
+  }
+  entries.set(key, entry);
+}
+
+/**
+ * Parse a JSON file in the /export layout.
+ */
+function parseJson(text: string, todayKey: string): ImportParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'invalid-json' };
+  }
+
+  const file = jsonFileSchema.safeParse(raw);
+  if (!file.success) return { success: false, error: 'invalid-json' };
+  if (file.data.version !== EXPORT_VERSION) {
+    return { success: false, error: 'unsupported-version' };
+  }
+  if (
+    file.data.entries.length === 0 &&
+    file.data.areas.length === 0 &&
+    file.data.user === undefined
+  ) {
+    return { success: false, error: 'empty' };
+  }
+  if (file.data.entries.length > MAX_IMPORT_ROWS) {
+    return { success: false, error: 'too-many-rows' };
+  }
+
+  const errors: ImportData['errors'] = [];
+  const areas = new Map<string, ImportArea>();
+  const settings = jsonSettingsSchema.safeParse(file.data.user);
+
+  file.data.areas.forEach((rawArea, index) => {
+    const result = jsonAreaSchema.safeParse(rawArea);
+    if (!result.success) {
+      errors.push({
+        row: index + 1,
+        message: `Area: ${firstIssue(result.error)}`,
+      });
+      return;
+    }
+
+    const area = result.data;
+    areas.set(area.id, {
+      key: area.id,
+      sourceId: area.id,
+      title: area.title,
+      body: area.body,
+      emoji: area.emoji,
+      unit: area.unit,
+      target: area.unit ? area.target : null,
+      cadence: toCadence(area),
+      archived: Boolean(area.archivedAt),
+    });
+  });
+
+  const entries = new Map<string, ImportEntry>();
+
+  file.data.entries.forEach((rawEntry, index) => {
+    const row = index + 1;
+    const result = jsonEntrySchema.safeParse(rawEntry);
+    if (!result.success) {
+      errors.push({ row, message: firstIssue(result.error) });
+      return;
+    }
+
+    const { date, areaId, content, value, skipped, frozen } = result.data;
+    if (areaId && !areas.has(areaId)) {
+      errors.push({ row, message: 'Unknown area' });
+      return;
+    }
+
+    addEntry(
+      entries,
+      errors,
+      row,
+      {
+        date,
+        areaKey: areaId ?? null,
+        content: areaId ? content : null,
+        value: areaId ? value : null,
+        skipped: areaId ? skipped : true,
+        frozen: !areaId && frozen,
+      },
+      todayKey
+    );
+  });
+
+  return {
+    success: true,
+    data: {
+      format: 'json',
+      areas: [...areas.values()],
+      entries: [...entries.values()],
+      settings: settings.success ? settings.data : null,
+      errors,
+    },
+  };
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain
+ * commas, doubled quotes and line breaks).
+ */
+function splitCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Remove the apostrophe /export adds before cells that look like formulas.
+ */
+function unescapeCsvFormula(field: string): string {
+  return field.startsWith("'") && CSV_FORMULA_PATTERN.test(field.slice(1))
+    ? field.slice(1)
+    : field;
+}
+
+/**
+ * Parse a CSV file with a header row.
+ * Rows with type "check-in" (or without an area) are check-ins,
+ * rows with type "freeze" streak freezes.
+ */
+function parseCsvFile(text: string, todayKey: string): ImportParseResult {
+  const [header, ...rows] = splitCsv(text);
+
+  if (!header || rows.length === 0) {
+    return { success: false, error: 'empty' };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { success: false, error: 'too-many-rows' };
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes('date') || !columns.includes('area')) {
+    return { success: false, error: 'missing-columns' };
+  }
+
+  const errors: ImportData['errors'] = [];
+  const areas = new Map<string, ImportArea>();
+  const entries = new Map<string, ImportEntry>();
+
+  rows.forEach((fields, index) => {
+    // Row 1 is the header
+    const row = index + 2;
+    const record = Object.fromEntries(
+      columns.map((name, i) => [name, unescapeCsvFormula(fields[i] ?? '')])
+    );
+
+    const result = csvRowSchema.safeParse(record);
+    if (!result.success) {
+      errors.push({ row, message: firstIssue(result.error) });
+      return;
+    }
+
+    const data = result.data;
+    const type = data.type.toLowerCase();
+    const isFreeze = type === 'freeze';
+    const isCheckIn =
+      isFreeze || type === 'check-in' || (!data.area && !data.area_id);
+
+    if (isCheckIn) {
+      addEntry(
+        entries,
+        errors,
+        row,
+        {
+          date: data.date,
+          areaKey: null,
+          content: null,
+          value: null,
+          skipped: true,
+          frozen: isFreeze,
+        },
+        todayKey
+      );
+      return;
+    }
+
+    const title = areaTitleSchema.safeParse(data.area);
+    if (!title.success) {
+      errors.push({ row, message: `area: ${firstIssue(title.error)}` });
+      return;
+    }
+
+    const content = contentSchema.safeParse(data.content);
+    if (!content.success) {
+      errors.push({ row, message: `content: ${firstIssue(content.error)}` });
+      return;
+    }
+
+    let value: number | null = null;
+    if (data.value) {
+      const parsed = metricValueSchema.safeParse(data.value);
+      if (!parsed.success) {
+        errors.push({ row, message: `value: ${firstIssue(parsed.error)}` });
+        return;
+      }
+      value = parsed.data;
+    }
+
+    const unit = unitSchema.safeParse(data.unit);
+    const areaKey = data.area_id || title.data.toLowerCase();
+
+    if (!areas.has(areaKey)) {
+      areas.set(areaKey, {
+        key: areaKey,
+        sourceId: data.area_id || null,
+        title: title.data,
+        body: null,
+        emoji: data.emoji || null,
+        unit: unit.success ? unit.data : null,
+        target: null,
+        cadence: { type: 'daily' },
+        archived: false,
+      });
+    }
+
+    addEntry(
+      entries,
+      errors,
+      row,
+      {
+        date: data.date,
+        areaKey,
+        content: content.data,
+        value,
+        skipped: ['true', '1', 'yes'].includes(data.skipped.toLowerCase()),
+        frozen: false,
+      },
+      todayKey
+    );
+  });
+
+  return {
+    success: true,
+    data: {
+      format: 'csv',
+      areas: [...areas.values()],
+      entries: [...entries.values()],
+      settings: null,
+      errors,
+    },
+  };
+}
+
+/**
+ * How each import area maps to the user's areas.
+ */
+interface ImportPlan {
+  preview: ImportPreview;
+  // Existing areas by import key
+  matched: Map<string, Area>;
+  // Import keys of areas whose match has a different unit (entries skipped)
+  unitMismatches: Set<string>;
+  // New areas, with whether they are created archived
+  toCreate: { area: ImportArea; archived: boolean }[];
+  // Dates that already have a check-in (or streak freeze)
+  checkInDates: Set<string>;
+  // User settings to restore (null: nothing to change)
+  settings: Prisma.UserUpdateInput | null;
+}
+
+/**
+ * Turn imported settings into a user update.
+ * A custom summary template is only kept if the user still has it, and
+ * direct analysis only if it is available in this deployment.
+ */
+async function planSettings(
+  db: Prisma.TransactionClient,
+  userId: string,
+  settings: ImportSettings | null
+): Promise<Prisma.UserUpdateInput | null> {
+  if (!settings) return null;
+
+  const { digestTimes, restDays, summaryDelivery, summaryTemplate, ...rest } =
+    settings;
+  const update: Prisma.UserUpdateInput = { ...rest };
+
+  if (digestTimes) {
+    const times = [...new Set(digestTimes)].sort();
+    update.digestTimes = times.length > 0 ? JSON.stringify(times) : null;
+  }
+  if (restDays) {
+    const days = [...new Set(restDays)].sort((a, b) => a - b);
+    update.restDays = days.length > 0 ? JSON.stringify(days) : null;
+  }
+  if (
+    summaryDelivery &&
+    getAvailableSummaryDeliveries().includes(summaryDelivery)
+  ) {
+    update.summaryDelivery = summaryDelivery;
+  }
+  if (
+    summaryTemplate &&
+    (isBuiltInTemplate(summaryTemplate) ||
+      (await db.promptTemplate.count({
+        where: { id: summaryTemplate, userId },
+      })) > 0)
+  ) {
+    update.summaryTemplate = summaryTemplate;
+  }
+
+  if (Object.values(update).every((value) => value === undefined)) {
+    return null;
+  }
+
+  // Restored times apply from now on, like times changed in /settings
+  update.notificationSettingsUpdatedAt = new Date();
+  return update;
+}
+
+/**
+ * Work out what an import would change, without writing anything.
+ * Areas are matched by source id, then by title (case-insensitive,
+ * archived areas included). New areas beyond the active areas limit
+ * are created archived. A match with a different unit isn't used and its
+ * entries are skipped, so numbers never land in a text area (or vice versa).
+ */
+async function planImport(
+  db: Prisma.TransactionClient,
+  userId: string,
+  data: ImportData
+): Promise<ImportPlan> {
+  const existing = await db.area.findMany({
+    where: { userId },
+    orderBy: { position: 'asc' },
+  });
+  const byId = new Map(existing.map((area) => [area.id, area]));
+  const byTitle = new Map(
+    existing.map((area) => [area.title.toLowerCase(), area])
+  );
+
+  const matched = new Map<string, Area>();
+  const unitMismatches = new Set<string>();
+  const toCreate: ImportPlan['toCreate'] = [];
+  let activeCount = existing.filter((area) => !area.archivedAt).length;
+  let areasArchived = 0;
+
+  for (const area of data.areas) {
+    const match =
+      (area.sourceId ? byId.get(area.sourceId) : undefined) ??
+      byTitle.get(area.title.toLowerCase());
+
+    if (match && match.unit !== area.unit) {
+      unitMismatches.add(area.key);
+      continue;
+    }
+    if (match) {
+      matched.set(area.key, match);
+      continue;
+    }
+
+    const fitsLimit = activeCount < VALIDATION_LIMITS.MAX_AREAS_PER_USER;
+    if (!area.archived && fitsLimit) {
+      activeCount++;
+    } else if (!area.archived) {
+      areasArchived++;
+    }
+    toCreate.push({ area, archived: area.archived || !fitsLimit });
+  }
+
+  const existingEntries = await db.progressEntry.findMany({
+    where: { userId },
+    select: { areaId: true, date: true },
+  });
+  const existingKeys = new Set(
+    existingEntries.map(
+      (e) => `${e.areaId ?? ''}|${format(e.date, 'yyyy-MM-dd')}`
+    )
+  );
+  const checkInDates = new Set(
+    existingEntries
+      .filter((e) => e.areaId === null)
+      .map((e) => format(e.date, 'yyyy-MM-dd'))
+  );
+
+  let entriesCreated = 0;
+  let entriesOverwritten = 0;
+  let entriesSkipped = 0;
+  let checkIns = 0;
+  let freezes = 0;
+
+  for (const entry of data.entries) {
+    if (!entry.areaKey) {
+      if (checkInDates.has(entry.date)) continue;
+      if (entry.frozen) {
+        freezes++;
+      } else {
+        checkIns++;
+      }
+      continue;
+    }
+
+    if (unitMismatches.has(entry.areaKey)) {
+      entriesSkipped++;
+      continue;
+    }
+
+    const area = matched.get(entry.areaKey);
+    if (area && existingKeys.has(`${area.id}|${entry.date}`)) {
+      entriesOverwritten++;
+    } else {
+      entriesCreated++;
+    }
+  }
+
+  const settings = await planSettings(db, userId, data.settings);
+
+  return {
+    preview: {
+      areasMatched: matched.size,
+      areasCreated: toCreate.length,
+      areasArchived,
+      entriesCreated,
+      entriesOverwritten,
+      areasUnitMismatch: unitMismatches.size,
+      entriesSkipped,
+      checkIns,
+      freezes,
+      settingsRestored: settings !== null,
+    },
+    matched,
+    unitMismatches,
+    toCreate,
+    checkInDates,
+    settings,
+  };
+}
+
+/**
+ * Dry run: show what an import would change without writing anything.
+ */
+export async function previewImport(
+  userId: string,
+  data: ImportData
+): Promise<ImportPreview> {
+  const plan = await planImport(prisma, userId, data);
+  return plan.preview;
+}
+
+/**
+ * Apply an import in a single transaction.
+ * Creates missing areas, upserts entries by user + area + date, adds
+ * check-ins (and streak freezes) for days that don't have one and restores
+ * settings.
+ * Returns what was changed.
+ */
+export async function applyImport(
+  userId: string,
+  data: ImportData
+): Promise<ImportPreview> {
+  return prisma.$transaction(
+    async (tx) => {
+      const plan = await planImport(tx, userId, data);
+      const areaIds = new Map(
+        [...plan.matched].map(([key, area]) => [key, area.id])
+      );
+
+      let position = await tx.area.count({
+        where: { userId, archivedAt: null },
+      });
+
+      for (const { area, archived } of plan.toCreate) {
+        const { cadence } = area;
+        const created = await tx.area.create({
+          data: {
+            userId,
+            title: area.title,
+            body: area.body,
+            emoji: area.emoji,
+            unit: area.unit,
+            target: area.target,
+            cadence: cadence.type,
+            timesPerWeek:
+              cadence.type === 'weekly' ? cadence.timesPerWeek : null,
+            weekdays:
+              cadence.type === 'weekdays'
+                ? JSON.stringify(cadence.weekdays)
+                : null,
+            position: archived ? 0 : ++position,
+            archivedAt: archived ? new Date() : null,
+          },
+        });
+        areaIds.set(area.key, created.id);
+      }
+
+      for (const entry of data.entries) {
+        const date = parse(entry.date, 'yyyy-MM-dd', new Date());
+
+        if (!entry.areaKey) {
+          if (plan.checkInDates.has(entry.date)) continue;
+          await tx.progressEntry.create({
+            data: {
+              userId,
+              areaId: null,
+              content: null,
+              skipped: true,
+              frozen: entry.frozen,
+              date,
+            },
+          });
+          plan.checkInDates.add(entry.date);
+          continue;
+        }
+
+        const areaId = areaIds.get(entry.areaKey);
+        if (!areaId) continue;
+
+        const fields = {
+          content: entry.content,
+          value: entry.value,
+          skipped: entry.skipped,
+        };
+        await tx.progressEntry.upsert({
+          where: { userId_areaId_date: { userId, areaId, date } },
+          update: fields,
+          create: { userId, areaId, date, ...fields },
+        });
+      }
+
+      if (plan.settings) {
+        await tx.user.update({ where: { id: userId }, data: plan.settings });
+      }
+
+      return plan.preview;
+    },
+    { timeout: 60_000 }
+  );
+}
@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import { env } from '../config/env.js';
+
+/**
+ * LLM service sends prompts to an OpenAI-compatible chat-completions API.
+ * Providers are created from plain config, so any compatible server
+ * (OpenAI, OpenRouter, Ollama, a local stub) can be used.
+ * The configured provider comes from LLM_* environment variables.
+ */
+
+export interface LlmProviderConfig {
+  // API root including the version, e.g. "https://api.openai.com/v1"
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+export type LlmError =
+  | 'timeout'
+  | 'http-error'
+  | 'network'
+  | 'invalid-response';
+
+export type LlmCompletionResult =
+  | { success: true; text: string }
+  | { success: false; error: LlmError; message: string };
+
+export interface LlmProvider {
+  readonly model: string;
+  /**
+   * Send a single user message and return the assistant's reply.
+   * Never throws: timeouts, HTTP errors and malformed responses are
+   * returned as errors.
+   */
+  complete(prompt: string): Promise<LlmCompletionResult>;
+}
+
+const chatCompletionSchema = z.object({
+  choices: z
+    .array(
+      z.object({
+        message: z.object({ content: z.string().trim().min(1) }),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Create a provider for an OpenAI-compatible chat-completions endpoint.
+ */
+export function createOpenAiCompatibleProvider(
+  config: LlmProviderConfig
+): LlmProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  return {
+    model: config.model,
+
+    async complete(prompt: string): Promise<LlmCompletionResult> {
+      let response: Response;
+      let body: unknown;
+
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model: config.model,
+            messages: [{ role: 'user', content: prompt }],
+          }),
+          signal: AbortSignal.timeout(config.timeoutMs),
+        });
+
+        if (!response.ok) {
+          return {
+            success: false,
+            error: 'http-error',
+            message: `LLM API responded with ${response.status} ${response.statusText}`,
+          };
+        }
+
+        body = await response.json();
+      } catch (error) {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          return {
+            success: false,
+            error: 'timeout',
+            message: `No response within ${config.timeoutMs} ms`,
+          };
+        }
+        if (error instanceof SyntaxError) {
+          return {
+            success: false,
+            error: 'invalid-response',
+            message: 'LLM API returned invalid JSON',
+          };
+        }
+        return {
+          success: false,
+          error: 'network',
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      const parsed = chatCompletionSchema.safeParse(body);
+      const text = parsed.data?.choices[0]?.message.content;
+
+      if (!text) {
+        return {
+          success: false,
+          error: 'invalid-response',
+          message: 'LLM API response has no message content',
+        };
+      }
+
+      return { success: true, text };
+    },
+  };
+}
+
+let configuredProvider: LlmProvider | null | undefined;
+
+/**
+ * Get the provider configured in the environment, or null if direct
+ * analysis is disabled (LLM_BASE_URL not set).
+ */
+export function getLlmProvider(): LlmProvider | null {
+  if (configuredProvider === undefined) {
+    configuredProvider =
+      env.LLM_BASE_URL && env.LLM_MODEL
+        ? createOpenAiCompatibleProvider({
+            baseUrl: env.LLM_BASE_URL,
+            model: env.LLM_MODEL,
+            apiKey: env.LLM_API_KEY,
+            timeoutMs: env.LLM_TIMEOUT_SECONDS * 1000,
+          })
+        : null;
+  }
+
+  return configuredProvider;
+}
@@ -0,0 +1,103 @@
+import prisma from '../db/client.js';
+import type { NotificationLog } from '@prisma/client';
+import type { NotificationType, NotificationStatus } from '../types/index.js';
+
+/**
+ * Notification service keeps a persistent ledger of scheduled notifications.
+ * Each digest/reminder is keyed to its slot (local date + HH:mm), so restarts
+ * don't cause duplicate sends and delivery history can be queried per user.
+ */
+
+/**
+ * Scheduled slot in the user's timezone.
+ */
+export interface NotificationSlot {
+  // Local date in yyyy-MM-dd format
+  date: string;
+  // Local time in HH:mm format
+  time: string;
+}
+
+/**
+ * Check if a notification for this slot was already delivered.
+ * Failed attempts don't count, so they can be retried.
+ */
+export async function wasNotificationSent(
+  userId: string,
+  type: NotificationType,
+  slot: NotificationSlot
+): Promise<boolean> {
+  const log = await prisma.notificationLog.findUnique({
+    where: {
+      userId_type_slotDate_slotTime: {
+        userId,
+        type,
+        slotDate: slot.date,
+        slotTime: slot.time,
+      },
+    },
+    select: { status: true },
+  });
+
+  return log?.status === 'sent';
+}
+
+/**
+ * Record the outcome of a notification delivery attempt.
+ * Uses upsert so a retry overwrites an earlier failed attempt.
+ */
+export async function recordNotification(
+  userId: string,
+  type: NotificationType,
+  slot: NotificationSlot,
+  result: {
+    status: NotificationStatus;
+    telegramMessageId?: number | null;
+    error?: string | null;
+  }
+): Promise<NotificationLog> {
+  const data = {
+    status: result.status,
+    telegramMessageId: result.telegramMessageId
+      ? BigInt(result.telegramMessageId)
+      : null,
+    error: result.error ?? null,
+  };
+
+  return prisma.notificationLog.upsert({
+    where: {
+      userId_type_slotDate_slotTime: {
+        userId,
+        type,
+        slotDate: slot.date,
+        slotTime: slot.time,
+      },
+    },
+    update: data,
+    create: {
+      userId,
+      type,
+      slotDate: slot.date,
+      slotTime: slot.time,
+      ...data,
+    },
+  });
+}
+
+/**
+ * Get delivery history for a user, most recent first.
+ * Optionally filtered by notification type.
+ */
+export async function getNotificationHistory(
+  userId: string,
+  options: { type?: NotificationType; limit?: number } = {}
+): Promise<NotificationLog[]> {
+  return prisma.notificationLog.findMany({
+    where: {
+      userId,
+      ...(options.type ? { type: options.type } : {}),
+    },
+    orderBy: [{ slotDate: 'desc' }, { slotTime: 'desc' }],
+    take: options.limit ?? 50,
+  });
+}
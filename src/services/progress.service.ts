@@ -1,7 +1,8 @@
 import prisma from '../db/client.js';
 import type { ProgressEntry, Area } from '@prisma/client';
-import { startOfDay, endOfDay } from 'date-fns';
+import { startOfDay, endOfDay, startOfISOWeek, endOfISOWeek } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
+import { parseAreaCadence, isScheduledOn } from './areas.service.js';
 
 /**
  * Progress service handles all progress entry operations.
@@ -58,25 +59,70 @@ export async function getDayProgress(
 }
 
 /**
- * Get areas that don't have a progress entry for today.
+ * Get areas that are due today and don't have a progress entry yet
+ * (see getDueAreasWithoutProgressForDate). Used by reminders.
  */
 export async function getAreasWithoutTodayProgress(
   userId: string,
   timezone: string
 ): Promise<Area[]> {
   const today = getTodayInTimezone(timezone);
-  return getAreasWithoutProgressForDate(userId, today);
+  return getDueAreasWithoutProgressForDate(userId, today);
 }
 
 /**
  * Get areas that don't have a progress entry for a specific date.
+ * Every active area stays loggable (extra sessions beyond a weekly quota,
+ * or on a weekday area's day off); areas due by their cadence come first.
  */
 export async function getAreasWithoutProgressForDate(
   userId: string,
   date: Date
 ): Promise<Area[]> {
+  const [areas, due] = await Promise.all([
+    getUnloggedAreas(userId, date),
+    getDueAreasWithoutProgressForDate(userId, date),
+  ]);
+  const dueIds = new Set(due.map((area) => area.id));
+
+  return [
+    ...areas.filter((area) => dueIds.has(area.id)),
+    ...areas.filter((area) => !dueIds.has(area.id)),
+  ];
+}
+
+/**
+ * Get areas due on a date that don't have a progress entry for it.
+ * Skips areas not scheduled for that day: weekday areas on other days,
+ * and weekly areas whose quota for that week is already met.
+ */
+export async function getDueAreasWithoutProgressForDate(
+  userId: string,
+  date: Date
+): Promise<Area[]> {
+  const [areas, weekCounts] = await Promise.all([
+    getUnloggedAreas(userId, date),
+    getWeekEntryCounts(userId, date),
+  ]);
+
+  return areas.filter((area) => {
+    const cadence = parseAreaCadence(area);
+    if (!isScheduledOn(cadence, date)) return false;
+
+    if (cadence.type === 'weekly') {
+      return (weekCounts.get(area.id) ?? 0) < cadence.timesPerWeek;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Get active areas without an entry (logged or skipped) on a date.
+ */
+async function getUnloggedAreas(userId: string, date: Date): Promise<Area[]> {
   const allAreas = await prisma.area.findMany({
-    where: { userId },
+    where: { userId, archivedAt: null },
     orderBy: { position: 'asc' },
   });
 
@@ -89,6 +135,35 @@ export async function getAreasWithoutProgressForDate(
   return allAreas.filter((area) => !loggedAreaIds.has(area.id));
 }
 
+/**
+ * Count logged (non-skipped) entries per area in the ISO week of a date.
+ */
+async function getWeekEntryCounts(
+  userId: string,
+  date: Date
+): Promise<Map<string, number>> {
+  const entries = await prisma.progressEntry.findMany({
+    where: {
+      userId,
+      areaId: { not: null },
+      skipped: false,
+      date: {
+        gte: startOfISOWeek(date),
+        lte: endOfISOWeek(date),
+      },
+    },
+    select: { areaId: true },
+  });
+
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    if (!entry.areaId) continue;
+    counts.set(entry.areaId, (counts.get(entry.areaId) ?? 0) + 1);
+  }
+
+  return counts;
+}
+
 /**
  * Check if user has logged any progress today (including check-ins).
  * This is used to determine if progress reminder should be sent.
@@ -111,8 +186,13 @@ export async function hasRealProgressToday(
 ): Promise<boolean> {
   const today = getTodayInTimezone(timezone);
   const entries = await getDayProgress(userId, today);
-  // Real progress = entries with content (not skipped, not check-in)
-  return entries.some((e) => e.areaId !== null && !e.skipped && e.content);
+  // Real progress = entries with content or a value (not skipped, not check-in)
+  return entries.some(
+    (e) =>
+      e.areaId !== null &&
+      !e.skipped &&
+      (Boolean(e.content) || e.value !== null)
+  );
 }
 
 /**
@@ -148,7 +228,8 @@ export async function logProgress(
 
 /**
  * Create a check-in entry (user skipped all areas but wanted to maintain streak).
- * Only one check-in per user per day.
+ * Only one check-in per user per day; a streak freeze on that day
+ * becomes the check-in (and the freeze is given back).
  */
 export async function createCheckIn(
   userId: string,
@@ -165,6 +246,13 @@ export async function createCheckIn(
     },
   });
 
+  if (existing?.frozen) {
+    return prisma.progressEntry.update({
+      where: { id: existing.id },
+      data: { frozen: false },
+    });
+  }
+
   if (existing) {
     return existing;
   }
@@ -183,10 +271,15 @@ export async function createCheckIn(
 /**
  * Log progress for multiple areas in a single transaction.
  * If all entries are skipped, creates a check-in entry instead.
+ * Entries for areas with a unit carry a numeric value (content is an optional note).
  */
 export async function logProgressBatch(
   userId: string,
-  entries: Array<{ areaId: string; content: string }>,
+  entries: Array<{
+    areaId: string;
+    content: string | null;
+    value?: number | null;
+  }>,
   skippedCount: number,
   date: Date
 ): Promise<ProgressEntry[]> {
@@ -208,11 +301,16 @@ export async function logProgressBatch(
           date: normalizedDate,
         },
       },
-      update: { content: entry.content, skipped: false },
+      update: {
+        content: entry.content,
+        value: entry.value ?? null,
+        skipped: false,
+      },
       create: {
         userId,
         areaId: entry.areaId,
         content: entry.content,
+        value: entry.value ?? null,
         skipped: false,
         date: normalizedDate,
       },
@@ -273,6 +371,84 @@ export async function getLastProgressEntry(
   });
 }
 
+/**
+ * Get a single progress entry by ID.
+ */
+export async function getProgressEntryById(
+  entryId: string
+): Promise<ProgressEntry | null> {
+  return prisma.progressEntry.findUnique({
+    where: { id: entryId },
+  });
+}
+
+/**
+ * Update the content of an already-logged progress entry.
+ * Pass value to also update the number of a metric entry.
+ */
+export async function updateProgressContent(
+  entryId: string,
+  content: string | null,
+  value?: number
+): Promise<ProgressEntry> {
+  return prisma.progressEntry.update({
+    where: { id: entryId },
+    data: {
+      content,
+      ...(value !== undefined ? { value } : {}),
+      skipped: false,
+    },
+  });
+}
+
+/**
+ * Move a progress entry to another area on the same date.
+ * Both areas must have the same unit, so a value never ends up in a
+ * free-text area (or a metric area gets an entry without one).
+ * Returns null if the target area already has an entry for that date
+ * (the userId+areaId+date unique key would be violated).
+ */
+export async function changeProgressArea(
+  entryId: string,
+  areaId: string
+): Promise<ProgressEntry | null> {
+  const entry = await getProgressEntryById(entryId);
+
+  if (!entry) {
+    throw new Error('Progress entry not found');
+  }
+
+  const [source, target] = await Promise.all([
+    entry.areaId
+      ? prisma.area.findUnique({ where: { id: entry.areaId } })
+      : null,
+    prisma.area.findUnique({ where: { id: areaId } }),
+  ]);
+
+  if (target?.unit !== (source?.unit ?? null)) {
+    throw new Error('Target area not found or has a different unit');
+  }
+
+  const conflict = await getProgressEntry(entry.userId, areaId, entry.date);
+  if (conflict) {
+    return null;
+  }
+
+  return prisma.progressEntry.update({
+    where: { id: entryId },
+    data: { areaId },
+  });
+}
+
+/**
+ * Delete a single progress entry (regular entry or check-in).
+ */
+export async function deleteProgressEntry(entryId: string): Promise<void> {
+  await prisma.progressEntry.delete({
+    where: { id: entryId },
+  });
+}
+
 /**
  * Delete all progress entries for a user (used in reset).
  */
@@ -1,14 +1,41 @@
 import type { User, Area, ProgressEntry } from '@prisma/client';
-import { getUserAreas } from './areas.service.js';
-import { getRecentProgress } from './progress.service.js';
-import { getUserStatistics } from './statistics.service.js';
-import { format, subDays, startOfDay } from 'date-fns';
+import { getUserAreas, parseAreaCadence } from './areas.service.js';
+import {
+  getProgressForDateRange,
+  getTodayInTimezone,
+} from './progress.service.js';
+import {
+  getUserStatistics,
+  getDateRangeStats,
+  getAreaMetricStats,
+  getAreaPeriodStats,
+  getAreaStreaks,
+  getFirstProgressDate,
+} from './statistics.service.js';
+import {
+  formatMetricValue,
+  formatCadence,
+} from '../bot/utils/message-formatter.js';
+import {
+  format,
+  subDays,
+  subMonths,
+  startOfDay,
+  startOfMonth,
+  endOfMonth,
+  startOfQuarter,
+  differenceInCalendarDays,
+} from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
+import { getSelectedTemplate, renderTemplate } from './template.service.js';
+import type { DateRange, SummaryPreset } from '../types/index.js';
 
 /**
  * Prompt service generates AI analysis prompts for users.
- * No AI API integration - users copy the prompt to ChatGPT/Claude manually.
+ * Users copy the prompt to ChatGPT/Claude manually, or - when an LLM is
+ * configured - it is sent directly (see analysis.service).
  * Prompt is always in English (for AI to understand), but includes language instruction.
+ * The layout comes from the user's selected template (see template.service).
  */
 
 interface ProgressWithArea extends ProgressEntry {
@@ -16,114 +43,226 @@ interface ProgressWithArea extends ProgressEntry {
 }
 
 /**
- * Generate an AI analysis prompt based on user's progress.
- * Default is 7 days of data.
+ * Resolve a /summary period to a date range in the user's timezone.
+ * A number means the last N days (including today); "all" starts at the
+ * first activity. Month and quarter presets are calendar-based and end
+ * today at the latest.
+ */
+export async function getSummaryDateRange(
+  user: User,
+  period: number | SummaryPreset
+): Promise<DateRange> {
+  const today = getTodayInTimezone(user.timezone);
+
+  switch (period) {
+    case 'all': {
+      const firstDate = await getFirstProgressDate(user.id);
+      return { start: firstDate ? startOfDay(firstDate) : today, end: today };
+    }
+    case 'this_month':
+      return { start: startOfMonth(today), end: today };
+    case 'last_month': {
+      const lastMonth = subMonths(today, 1);
+      return {
+        start: startOfMonth(lastMonth),
+        end: startOfDay(endOfMonth(lastMonth)),
+      };
+    }
+    case 'this_quarter':
+      return { start: startOfQuarter(today), end: today };
+    default:
+      return { start: subDays(today, Math.max(period, 1) - 1), end: today };
+  }
+}
+
+/**
+ * Generate an AI analysis prompt based on user's progress in a date range.
+ * Stats cover the range (per-area streaks as of its last day); the few
+ * all-time figures are labelled as such.
  * Prompt content is in English, but includes instruction for AI to respond in user's language.
  */
 export async function generateAnalysisPrompt(
   user: User,
-  days: number = 7
+  range: DateRange
 ): Promise<string> {
+  const { start: startDate, end: endDate } = range;
   const areas = await getUserAreas(user.id);
-  const progress = (await getRecentProgress(
+  const progress = (await getProgressForDateRange(
     user.id,
-    days
+    startDate,
+    endDate
   )) as ProgressWithArea[];
   const stats = await getUserStatistics(user.id, user.timezone);
+  const rangeStats = await getDateRangeStats(user.id, startDate, endDate);
 
-  // Get date range for context
-  const now = new Date();
-  const zonedNow = toZonedTime(now, user.timezone);
-  const today = startOfDay(zonedNow);
-  const startDate = subDays(today, days - 1);
-
-  const dateRange = `${format(startDate, 'MMM d')} - ${format(today, 'MMM d, yyyy')}`;
-
-  const lines: string[] = [
-    '='.repeat(50),
-    'PERSONAL PROGRESS ANALYSIS REQUEST',
-    '='.repeat(50),
-    '',
-    `Period: ${dateRange} (${days} days)`,
-    '',
-  ];
-
-  // Section 1: Focus Areas
-  lines.push('## MY FOCUS AREAS');
-  lines.push('');
+  const metrics = await getAreaMetricStats(user.id, startDate, endDate);
+  const completion = await getAreaPeriodStats(
+    user.id,
+    user.timezone,
+    startDate,
+    endDate
+  );
+  const areaStreaks = await getAreaStreaks(user.id, user.timezone, endDate);
+
+  // Show the year on both ends when the range spans several years
+  const sameYear = startDate.getFullYear() === endDate.getFullYear();
+  const dateRange = `${format(startDate, sameYear ? 'MMM d' : 'MMM d, yyyy')} - ${format(endDate, 'MMM d, yyyy')}`;
+  const totalDays = differenceInCalendarDays(endDate, startDate) + 1;
+
+  const period = `${dateRange} (${totalDays} ${totalDays === 1 ? 'day' : 'days'})`;
+
+  // Focus areas
+  const areaLines: string[] = [];
   if (areas.length === 0) {
-    lines.push('No areas defined.');
+    areaLines.push('No areas defined.');
   } else {
     areas.forEach((area, index) => {
       const emoji = area.emoji ?? '•';
-      lines.push(`${index + 1}. ${emoji} ${area.title}`);
+      areaLines.push(`${index + 1}. ${emoji} ${area.title}`);
       if (area.body) {
-        lines.push(`   Description: ${area.body}`);
+        areaLines.push(`   Description: ${area.body}`);
+      }
+      if (area.unit) {
+        const target =
+          area.target !== null
+            ? `, daily target ${formatMetricValue(area.target, area.unit)}`
+            : '';
+        areaLines.push(`   Measured in: ${area.unit}${target}`);
       }
+      const cadence = formatCadence(parseAreaCadence(area), 'en');
+      areaLines.push(`   Target cadence: ${cadence || 'every day'}`);
     });
   }
-  lines.push('');
 
-  // Section 2: Progress Entries
-  lines.push('## DAILY PROGRESS LOG');
-  lines.push('');
+  // Archived areas still show up in the log below
+  const archivedTitles = new Set(
+    progress
+      .filter((entry) => entry.area.archivedAt !== null)
+      .map((entry) => `${entry.area.emoji ?? '•'} ${entry.area.title}`)
+  );
+  if (archivedTitles.size > 0) {
+    areaLines.push('');
+    areaLines.push(
+      `Archived areas (no longer tracked, but logged in this period): ${[...archivedTitles].join(', ')}`
+    );
+  }
 
+  // Progress log, grouped by date
+  const logLines: string[] = [];
   if (progress.length === 0) {
-    lines.push('No progress entries in this period.');
+    logLines.push('No progress entries in this period.');
   } else {
-    // Group by date
-    const groupedByDate = groupProgressByDate(progress, user.timezone);
+    const groupedByDate = groupProgressByDate(
+      progress,
+      user.timezone,
+      sameYear ? 'EEEE, MMM d' : 'EEEE, MMM d, yyyy'
+    );
 
     for (const [dateStr, entries] of Object.entries(groupedByDate)) {
-      lines.push(`### ${dateStr}`);
+      if (logLines.length > 0) logLines.push('');
+      logLines.push(`### ${dateStr}`);
       entries.forEach((entry) => {
         const emoji = entry.area.emoji ?? '•';
-        lines.push(`- ${emoji} ${entry.area.title}: ${entry.content}`);
+        logLines.push(
+          `- ${emoji} ${entry.area.title}: ${formatEntryContent(entry)}`
+        );
       });
-      lines.push('');
     }
   }
 
-  // Section 3: Statistics
-  lines.push('## STATISTICS');
-  lines.push('');
-  lines.push(`- Current streak: ${stats.currentStreak} days`);
-  lines.push(`- Weekly activity: ${stats.weeklyActivity}/7 days`);
-  lines.push(`- Total entries logged: ${stats.totalEntries}`);
-  lines.push('');
-
-  // Section 4: Analysis Request
-  lines.push('## ANALYSIS REQUEST');
-  lines.push('');
-  lines.push('Based on the above progress log, please provide:');
-  lines.push('');
-  lines.push('1. **Patterns & Trends**');
-  lines.push('   - Which areas am I consistently working on?');
-  lines.push('   - Which areas are being neglected?');
-  lines.push('   - Are there any notable patterns in my activity?');
-  lines.push('');
-  lines.push('2. **Progress Assessment**');
-  lines.push('   - What am I doing well?');
-  lines.push('   - Where could I improve?');
-  lines.push('   - Am I making meaningful progress toward my goals?');
-  lines.push('');
-  lines.push('3. **Recommendations**');
-  lines.push('   - Specific, actionable suggestions for the next week');
-  lines.push('   - Any areas that need more attention');
-  lines.push('   - Ways to maintain momentum');
-  lines.push('');
-  lines.push('4. **Questions to Consider**');
-  lines.push('   - Thought-provoking questions about my priorities');
-  lines.push('   - Are my current areas aligned with my long-term goals?');
-  lines.push('');
-  lines.push('='.repeat(50));
-  lines.push('');
-  
+  // Statistics
+  const statsLines: string[] = [];
+  statsLines.push(
+    `- Current streak (as of today): ${stats.currentStreak} days`
+  );
+  statsLines.push(`- Longest streak (all time): ${stats.longestStreak} days`);
+  statsLines.push(
+    `- Days with activity in this period: ${rangeStats.daysWithProgress}/${totalDays}`
+  );
+  statsLines.push(
+    `- Entries logged in this period: ${rangeStats.totalEntries}`
+  );
+  statsLines.push(`- Total entries logged (all time): ${stats.totalEntries}`);
+
+  // Completion against each area's target cadence
+  if (completion.length > 0) {
+    statsLines.push('');
+    statsLines.push('### Completion rate vs target cadence (this period)');
+    completion.forEach(({ area, expected, daysLogged }) => {
+      const emoji = area.emoji ?? '•';
+      const rateText =
+        expected > 0
+          ? `${Math.round(Math.min(daysLogged / expected, 1) * 100)}% (${daysLogged}/${expected})`
+          : 'not scheduled in this period';
+      statsLines.push(`- ${emoji} ${area.title}: ${rateText}`);
+    });
+  }
+
+  // Per-area streaks, following each area's cadence
+  if (areas.length > 0) {
+    statsLines.push('');
+    statsLines.push(
+      '### Streaks per area at the end of this period (current / longest up to then)'
+    );
+    areas.forEach((area) => {
+      const streak = areaStreaks.find((s) => s.areaId === area.id);
+      if (!streak) return;
+      const emoji = area.emoji ?? '•';
+      const slipping =
+        streak.current === 0 && streak.longest > 0 ? ' — streak broken' : '';
+      statsLines.push(
+        `- ${emoji} ${area.title}: ${streak.current} / ${streak.longest} ${streak.unit}${slipping}`
+      );
+    });
+  }
+
+  // Numeric metrics for areas with a unit
+  if (metrics.length > 0) {
+    statsLines.push('');
+    statsLines.push('### Area metrics');
+    metrics.forEach((metric) => {
+      const { area } = metric;
+      const emoji = area.emoji ?? '•';
+      const parts = [
+        `total ${formatMetricValue(metric.total, area.unit)}`,
+        `average ${formatMetricValue(metric.average, area.unit)} per logged day`,
+        `logged on ${metric.daysLogged} days`,
+      ];
+      if (area.target !== null && metric.targetAttainment !== null) {
+        parts.push(
+          `target ${formatMetricValue(area.target, area.unit)} met on ` +
+            `${metric.targetMetDays}/${metric.daysLogged} days ` +
+            `(${Math.round(metric.targetAttainment * 100)}%)`
+        );
+      }
+      statsLines.push(`- ${emoji} ${area.title}: ${parts.join(', ')}`);
+    });
+  }
+
+  // Fill in the user's template (built-in or custom)
+  const template = await getSelectedTemplate(user);
+  const prompt = renderTemplate(template.body, {
+    period,
+    areas: areaLines.join('\n'),
+    log: logLines.join('\n'),
+    stats: statsLines.join('\n'),
+  });
+
   // Add language instruction for AI
   const languageName = user.language === 'ru' ? 'Russian' : 'English';
-  lines.push(`**IMPORTANT: Please respond in ${languageName} language.**`);
+  return `${prompt.trim()}\n\n**IMPORTANT: Please respond in ${languageName} language.**`;
+}
+
+/**
+ * Format entry content, prefixing the value for metric entries.
+ */
+function formatEntryContent(entry: ProgressWithArea): string {
+  if (entry.value === null) {
+    return entry.content ?? '';
+  }
 
-  return lines.join('\n');
+  const value = formatMetricValue(entry.value, entry.area.unit);
+  return entry.content ? `${value} — ${entry.content}` : value;
 }
 
 /**
@@ -131,13 +270,14 @@ export async function generateAnalysisPrompt(
  */
 function groupProgressByDate(
   progress: ProgressWithArea[],
-  timezone: string
+  timezone: string,
+  dateFormat: string
 ): Record<string, ProgressWithArea[]> {
   const grouped: Record<string, ProgressWithArea[]> = {};
 
   for (const entry of progress) {
     const zonedDate = toZonedTime(entry.date, timezone);
-    const dateStr = format(zonedDate, 'EEEE, MMM d');
+    const dateStr = format(zonedDate, dateFormat);
 
     if (!grouped[dateStr]) {
       grouped[dateStr] = [];
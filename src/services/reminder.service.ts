@@ -1,12 +1,19 @@
 import type { User } from '@prisma/client';
-import { hasProgressToday } from './progress.service.js';
+import { getISODay } from 'date-fns';
+import {
+  getAreasWithoutTodayProgress,
+  getTodayInTimezone,
+  hasProgressToday,
+} from './progress.service.js';
 import { getUserAreas } from './areas.service.js';
+import { parseRestDays } from './user.service.js';
 import { calculateStreak } from './statistics.service.js';
 import type { Language } from '../locales/index.js';
 
 /**
  * Reminder service handles progress reminder generation.
- * Progress reminders are only sent if user hasn't logged progress today.
+ * Progress reminders are only sent if user hasn't logged progress today;
+ * streak warnings only if, in addition, there's a streak to protect.
  */
 
 /**
@@ -46,6 +53,14 @@ function t(key: string, lang: Language): string {
       en: 'Log at least one area to keep it going.',
       ru: 'Запишите хотя бы одну область, чтобы сохранить серию.',
     },
+    'streak-check-in-hint': {
+      en: 'No time today? A quick check-in keeps the streak too.',
+      ru: 'Нет времени? Быстрая отметка тоже сохранит серию.',
+    },
+    'reminder-late': {
+      en: '⏰ _Delayed — scheduled for',
+      ru: '⏰ _С опозданием — запланировано на',
+    },
   };
 
   return translations[key]?.[lang] ?? translations[key]?.en ?? key;
@@ -57,7 +72,12 @@ function t(key: string, lang: Language): string {
 function getDaysWord(count: number, lang: Language): string {
   if (lang === 'ru') {
     if (count % 10 === 1 && count % 100 !== 11) return 'день';
-    if (count % 10 >= 2 && count % 10 <= 4 && (count % 100 < 10 || count % 100 >= 20)) return 'дня';
+    if (
+      count % 10 >= 2 &&
+      count % 10 <= 4 &&
+      (count % 100 < 10 || count % 100 >= 20)
+    )
+      return 'дня';
     return 'дней';
   }
   return count === 1 ? 'day' : 'days';
@@ -65,7 +85,8 @@ function getDaysWord(count: number, lang: Language): string {
 
 /**
  * Check if a user should receive a progress reminder.
- * Returns false if they've already logged progress today (including check-ins).
+ * Returns false if they've already logged progress today (including check-ins)
+ * or no area is due today.
  */
 export async function shouldSendProgressReminder(user: User): Promise<boolean> {
   // Don't remind if user hasn't completed onboarding
@@ -79,20 +100,41 @@ export async function shouldSendProgressReminder(user: User): Promise<boolean> {
     return false;
   }
 
+  // Don't remind on a planned rest day
+  if (isRestDayToday(user)) {
+    return false;
+  }
+
   // Don't remind if they've already logged progress today
   const hasProgress = await hasProgressToday(user.id, user.timezone);
-  return !hasProgress;
+  if (hasProgress) {
+    return false;
+  }
+
+  // Don't remind if no area is due today (by its cadence)
+  const dueAreas = await getAreasWithoutTodayProgress(user.id, user.timezone);
+  return dueAreas.length > 0;
 }
 
 /**
  * Generate the progress reminder message.
  * Simple reminder to log progress.
+ * Pass lateFor (HH:mm) when the reminder is sent after its scheduled slot.
  */
-export async function generateProgressReminder(user: User): Promise<string> {
+export async function generateProgressReminder(
+  user: User,
+  options: { lateFor?: string } = {}
+): Promise<string> {
   const lang = (user.language || 'en') as Language;
   const currentStreak = await calculateStreak(user.id, user.timezone);
 
-  const lines: string[] = [t('reminder-title', lang), ''];
+  const lines: string[] = [];
+
+  if (options.lateFor) {
+    lines.push(`${t('reminder-late', lang)} ${options.lateFor}_`, '');
+  }
+
+  lines.push(t('reminder-title', lang), '');
 
   // Add streak-based motivation
   if (currentStreak > 0) {
@@ -117,8 +159,17 @@ export async function generateProgressReminder(user: User): Promise<string> {
 /**
  * Generate a streak-at-risk warning message.
  * Used for users who haven't logged progress and have an active streak.
+ * Pass lateFor (HH:mm) when the warning is sent after its scheduled slot.
  */
-export async function generateStreakWarning(user: User): Promise<string | null> {
+export async function generateStreakWarning(
+  user: User,
+  options: { lateFor?: string } = {}
+): Promise<string | null> {
+  // A rest day doesn't break the streak, so there's nothing at risk
+  if (isRestDayToday(user)) {
+    return null;
+  }
+
   const lang = (user.language || 'en') as Language;
   const currentStreak = await calculateStreak(user.id, user.timezone);
 
@@ -133,28 +184,32 @@ export async function generateStreakWarning(user: User): Promise<string | null>
   }
 
   const daysWord = getDaysWord(currentStreak, lang);
+  const lines: string[] = [];
 
-  if (lang === 'ru') {
-    return [
-      t('streak-alert', lang),
-      '',
-      `Ваша серия в ${currentStreak} ${daysWord} ${t('streak-at-risk', lang)}`,
-      '',
-      t('streak-log-to-keep', lang),
-      '',
-      '/progress',
-    ].join('\n');
+  if (options.lateFor) {
+    lines.push(`${t('reminder-late', lang)} ${options.lateFor}_`, '');
   }
 
-  return [
+  lines.push(
     t('streak-alert', lang),
     '',
-    `Your ${currentStreak} ${daysWord} ${t('streak-at-risk', lang)}`,
+    lang === 'ru'
+      ? `Ваша серия в ${currentStreak} ${daysWord} ${t('streak-at-risk', lang)}`
+      : `Your ${currentStreak} ${daysWord} ${t('streak-at-risk', lang)}`,
     '',
     t('streak-log-to-keep', lang),
-    '',
-    '/progress',
-  ].join('\n');
+    t('streak-check-in-hint', lang)
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Check whether today (in the user's timezone) is one of their rest days.
+ */
+function isRestDayToday(user: User): boolean {
+  const today = getTodayInTimezone(user.timezone);
+  return parseRestDays(user.restDays).includes(getISODay(today));
 }
 
 // Keep old function names for backward compatibility
@@ -0,0 +1,413 @@
+import type { User, Area, ProgressEntry } from '@prisma/client';
+import {
+  format,
+  startOfMonth,
+  endOfMonth,
+  startOfYear,
+  endOfYear,
+  subMonths,
+  subYears,
+  startOfDay,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  getISODay,
+  getDaysInMonth,
+  min,
+} from 'date-fns';
+import {
+  getProgressForDateRange,
+  getTodayInTimezone,
+} from './progress.service.js';
+import {
+  getActivityCalendar,
+  getDateRangeStats,
+  getLongestStreakInRange,
+} from './statistics.service.js';
+import { parseRestDays } from './user.service.js';
+import {
+  formatDate,
+  formatMonthYear,
+  formatMonthShort,
+  formatWeekday,
+} from '../bot/utils/date-formatter.js';
+import { formatMetricValue } from '../bot/utils/message-formatter.js';
+import type { ActivityKind, DateRange, ReportPeriod } from '../types/index.js';
+import type { Language } from '../locales/index.js';
+
+/**
+ * Report service builds monthly and yearly retrospectives:
+ * activity calendar, per-area entry counts and most-used words,
+ * the longest streak in the period and the first and last entries.
+ * Sent after a month/year ends (if opted in) or on demand via /report.
+ */
+
+interface EntryWithArea extends ProgressEntry {
+  area: Area;
+}
+
+/**
+ * Number of most-used words shown per area.
+ */
+const TOP_WORDS_COUNT = 3;
+
+/**
+ * Maximum length of an entry excerpt in the first/last entry lines.
+ */
+const EXCERPT_MAX_LENGTH = 60;
+
+/**
+ * Common words left out of the most-used words (English and Russian).
+ */
+const STOP_WORDS = new Set(
+  [
+    'the and for with that this from was were are have has had but not you',
+    'all any can did out into about after before then than just some more',
+    'very also today again',
+    'что это как так для или был была было были его она они мне меня уже',
+    'ещё еще все всё при над под без про сегодня очень потом тоже',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+/**
+ * Get localized text based on language.
+ */
+function t(key: string, lang: Language): string {
+  const translations: Record<string, Record<Language, string>> = {
+    'report-month-title': {
+      en: '📆 *Monthly retrospective*',
+      ru: '📆 *Итоги месяца*',
+    },
+    'report-year-title': {
+      en: '🎆 *Yearly retrospective*',
+      ru: '🎆 *Итоги года*',
+    },
+    'report-so-far': {
+      en: 'so far',
+      ru: 'пока',
+    },
+    'report-legend-month': {
+      en: '12 = progress · + = check-in only · ~ = streak freeze · . = no activity',
+      ru: '12 = прогресс · + = только отметка · ~ = заморозка · . = нет активности',
+    },
+    'report-legend-year': {
+      en: '# = progress · + = check-in only · ~ = streak freeze · . = no activity',
+      ru: '# = прогресс · + = только отметка · ~ = заморозка · . = нет активности',
+    },
+    'report-active-days': {
+      en: '📊 Active days:',
+      ru: '📊 Активных дней:',
+    },
+    'report-entries': {
+      en: 'entries',
+      ru: 'записей',
+    },
+    'report-longest-streak': {
+      en: '🔥 Longest streak:',
+      ru: '🔥 Самая длинная серия:',
+    },
+    'report-areas': {
+      en: '🎯 *Areas*',
+      ru: '🎯 *Области*',
+    },
+    'report-no-entries': {
+      en: '_No entries in this period._',
+      ru: '_За этот период записей нет._',
+    },
+    'report-first-entry': {
+      en: '🟢 First entry:',
+      ru: '🟢 Первая запись:',
+    },
+    'report-last-entry': {
+      en: '🔴 Last entry:',
+      ru: '🔴 Последняя запись:',
+    },
+  };
+
+  return translations[key]?.[lang] ?? translations[key]?.en ?? key;
+}
+
+/**
+ * Get pluralized days string.
+ */
+function getDaysWord(count: number, lang: Language): string {
+  if (lang === 'ru') {
+    if (count % 10 === 1 && count % 100 !== 11) return 'день';
+    if (
+      count % 10 >= 2 &&
+      count % 10 <= 4 &&
+      (count % 100 < 10 || count % 100 >= 20)
+    )
+      return 'дня';
+    return 'дней';
+  }
+  return count === 1 ? 'day' : 'days';
+}
+
+/**
+ * Get the date range of a report in the user's timezone.
+ * offset 0 is the current month/year up to today, 1 the previous one, etc.
+ */
+export function getReportRange(
+  period: ReportPeriod,
+  timezone: string,
+  offset = 0
+): DateRange {
+  const today = getTodayInTimezone(timezone);
+
+  if (period === 'year') {
+    const year = subYears(today, offset);
+    return {
+      start: startOfYear(year),
+      end: min([startOfDay(endOfYear(year)), today]),
+    };
+  }
+
+  const month = subMonths(today, offset);
+  return {
+    start: startOfMonth(month),
+    end: min([startOfDay(endOfMonth(month)), today]),
+  };
+}
+
+/**
+ * Remove characters that would break Telegram Markdown.
+ */
+function stripMarkdown(text: string): string {
+  return text.replace(/[_*`[\]]/g, '');
+}
+
+/**
+ * Find the most-used words in entry notes, most frequent first
+ * (ties keep the order in which words first appeared).
+ * Short words, numbers and common words are ignored.
+ */
+export function getTopWords(contents: string[], count: number): string[] {
+  const counts = new Map<string, number>();
+
+  for (const content of contents) {
+    const words = content.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    for (const word of words) {
+      if (word.length < 3 || /^\d+$/.test(word) || STOP_WORDS.has(word)) {
+        continue;
+      }
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([word]) => word);
+}
+
+/**
+ * Calendar characters for days without progress.
+ */
+const DAY_MARKS: Record<Exclude<ActivityKind, 'progress'> | 'none', string> = {
+  'check-in': '+',
+  freeze: '~',
+  none: '.',
+};
+
+/**
+ * Render a month as a calendar grid (Monday first).
+ * Days with progress show their number, other days their DAY_MARKS
+ * character.
+ */
+function renderMonthCalendar(
+  range: DateRange,
+  calendar: Map<string, ActivityKind>,
+  lang: Language
+): string {
+  const header = [1, 2, 3, 4, 5, 6, 7]
+    .map((day) => formatWeekday(day, lang, 'short').padStart(2))
+    .join(' ');
+
+  const cells: string[] = Array.from(
+    { length: getISODay(range.start) - 1 },
+    () => '  '
+  );
+
+  // A month in progress ends at today
+  for (const day of eachDayOfInterval(range)) {
+    const kind = calendar.get(format(day, 'yyyy-MM-dd'));
+    const cell =
+      kind === 'progress' ? format(day, 'd') : DAY_MARKS[kind ?? 'none'];
+    cells.push(cell.padStart(2));
+  }
+
+  const rows = [header];
+  for (let i = 0; i < cells.length; i += 7) {
+    rows.push(cells.slice(i, i + 7).join(' '));
+  }
+
+  return rows.join('\n');
+}
+
+/**
+ * Render a year as one row per month, one character per day:
+ * "#" progress, otherwise the day's DAY_MARKS character.
+ */
+function renderYearCalendar(
+  range: DateRange,
+  calendar: Map<string, ActivityKind>,
+  lang: Language
+): string {
+  const months = eachMonthOfInterval({ start: range.start, end: range.end });
+  const labelWidth = Math.max(
+    ...months.map((month) => formatMonthShort(month, lang).length)
+  );
+
+  return months
+    .map((month) => {
+      const days = Array.from({ length: getDaysInMonth(month) }, (_, i) => {
+        const day = new Date(month.getFullYear(), month.getMonth(), i + 1);
+        if (day > range.end) return '';
+        const kind = calendar.get(format(day, 'yyyy-MM-dd'));
+        return kind === 'progress' ? '#' : DAY_MARKS[kind ?? 'none'];
+      }).join('');
+      return `${formatMonthShort(month, lang).padEnd(labelWidth)} ${days}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Format an entry for the first/last entry lines,
+ * e.g. "Oct 1, 2026 — 🏃 Run: Easy 5k".
+ */
+function formatEntryLine(entry: EntryWithArea, lang: Language): string {
+  const emoji = entry.area.emoji ?? '•';
+  const details: string[] = [];
+
+  if (entry.value !== null) {
+    details.push(formatMetricValue(entry.value, entry.area.unit));
+  }
+  if (entry.content) {
+    const content = stripMarkdown(entry.content.replace(/\s+/g, ' ').trim());
+    details.push(
+      content.length > EXCERPT_MAX_LENGTH
+        ? `${content.slice(0, EXCERPT_MAX_LENGTH - 1)}…`
+        : content
+    );
+  }
+
+  const suffix = details.length > 0 ? `: ${details.join(' — ')}` : '';
+  return `${formatDate(entry.date, lang)} — ${emoji} ${stripMarkdown(entry.area.title)}${suffix}`;
+}
+
+/**
+ * Generate a monthly or yearly retrospective for a date range.
+ * The range normally comes from getReportRange.
+ */
+export async function generateReport(
+  user: User,
+  period: ReportPeriod,
+  range: DateRange
+): Promise<string> {
+  const lang = (user.language || 'en') as Language;
+  const today = getTodayInTimezone(user.timezone);
+
+  const [calendar, rangeStats, progress] = await Promise.all([
+    getActivityCalendar(user.id, range.start, range.end),
+    getDateRangeStats(user.id, range.start, range.end),
+    getProgressForDateRange(user.id, range.start, range.end) as Promise<
+      EntryWithArea[]
+    >,
+  ]);
+
+  // Skipped areas are activity, but not entries worth counting
+  const entries = progress.filter((entry) => !entry.skipped);
+  const totalDays = eachDayOfInterval({
+    start: range.start,
+    end: range.end,
+  }).length;
+
+  const isComplete =
+    period === 'year'
+      ? range.end < startOfYear(today)
+      : range.end < startOfMonth(today);
+  const name =
+    period === 'year'
+      ? format(range.start, 'yyyy')
+      : formatMonthYear(range.start, lang);
+
+  const lines: string[] = [
+    t(period === 'year' ? 'report-year-title' : 'report-month-title', lang),
+    `_${name}${isComplete ? '' : ` (${t('report-so-far', lang)})`}_`,
+    '',
+    '```',
+    period === 'year'
+      ? renderYearCalendar(range, calendar, lang)
+      : renderMonthCalendar(range, calendar, lang),
+    '```',
+    `_${t(period === 'year' ? 'report-legend-year' : 'report-legend-month', lang)}_`,
+    '',
+    `${t('report-active-days', lang)} ${rangeStats.daysWithProgress}/${totalDays} · ${entries.length} ${t('report-entries', lang)}`,
+  ];
+
+  const streak = getLongestStreakInRange(
+    calendar,
+    range.start,
+    range.end,
+    parseRestDays(user.restDays)
+  );
+  if (streak) {
+    const span =
+      streak.length > 1
+        ? ` (${formatDate(streak.start, lang)} – ${formatDate(streak.end, lang)})`
+        : '';
+    lines.push(
+      `${t('report-longest-streak', lang)} ${streak.length} ${getDaysWord(streak.length, lang)}${span}`
+    );
+  }
+
+  lines.push('', t('report-areas', lang));
+
+  if (entries.length === 0) {
+    lines.push(t('report-no-entries', lang));
+    return lines.join('\n');
+  }
+
+  // Per-area counts, most active first (archived areas included)
+  const byArea = new Map<
+    string,
+    { area: Area; contents: string[]; count: number }
+  >();
+  for (const entry of entries) {
+    const group = byArea.get(entry.area.id) ?? {
+      area: entry.area,
+      contents: [],
+      count: 0,
+    };
+    group.count++;
+    if (entry.content) group.contents.push(entry.content);
+    byArea.set(entry.area.id, group);
+  }
+
+  [...byArea.values()]
+    .sort((a, b) => b.count - a.count)
+    .forEach(({ area, contents, count }) => {
+      const emoji = area.emoji ?? '•';
+      const words = getTopWords(contents, TOP_WORDS_COUNT).map(stripMarkdown);
+      const wordsPart = words.length > 0 ? ` — ${words.join(', ')}` : '';
+      lines.push(
+        `${emoji} ${stripMarkdown(area.title)}: ${count} ${t('report-entries', lang)}${wordsPart}`
+      );
+    });
+
+  // Entries are sorted newest first
+  const first = entries.at(-1);
+  const last = entries.at(0);
+
+  if (first && last) {
+    lines.push(
+      '',
+      `${t('report-first-entry', lang)} ${formatEntryLine(first, lang)}`,
+      `${t('report-last-entry', lang)} ${formatEntryLine(last, lang)}`
+    );
+  }
+
+  return lines.join('\n');
+}
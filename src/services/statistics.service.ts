@@ -1,31 +1,105 @@
 import prisma from '../db/client.js';
-import { startOfDay, subDays, format, eachDayOfInterval } from 'date-fns';
+import type { Area } from '@prisma/client';
+import {
+  startOfDay,
+  endOfDay,
+  subDays,
+  addDays,
+  subWeeks,
+  addWeeks,
+  format,
+  parseISO,
+  eachDayOfInterval,
+  startOfISOWeek,
+  max,
+  getISODay,
+} from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
-import type { UserStatistics } from '../types/index.js';
+import type {
+  UserStatistics,
+  AreaMetricStats,
+  AreaCadence,
+  AreaCompletionStats,
+  AreaPeriodStats,
+  AreaStreak,
+  ActivityKind,
+  ActivityDate,
+  AreaShare,
+  DetailedStats,
+} from '../types/index.js';
+import { parseAreaCadence, isScheduledOn } from './areas.service.js';
+import { parseRestDays } from './user.service.js';
+
+/**
+ * Number of ISO weeks (including the current one) used for completion rates.
+ */
+const COMPLETION_PERIOD_WEEKS = 4;
 
 /**
  * Statistics service calculates user progress metrics.
  * Streak now includes both regular progress and check-in entries.
+ * Streak freezes keep a streak going but aren't activity anywhere else;
+ * planned rest days without activity neither count nor break a streak.
  */
 
 /**
- * Get all unique dates with at least one entry (progress or check-in).
+ * Get all unique dates with at least one entry (progress, check-in or
+ * streak freeze), newest first.
  */
-async function getActivityDates(userId: string): Promise<Date[]> {
+export async function getActivityDates(
+  userId: string
+): Promise<ActivityDate[]> {
   const entries = await prisma.progressEntry.findMany({
     where: { userId },
-    select: { date: true },
-    distinct: ['date'],
+    select: { date: true, frozen: true },
     orderBy: { date: 'desc' },
   });
 
-  return entries.map((e) => startOfDay(e.date));
+  const byDate = new Map<string, ActivityDate>();
+  for (const entry of entries) {
+    const key = format(entry.date, 'yyyy-MM-dd');
+    const day = byDate.get(key);
+    if (day) {
+      day.frozen = day.frozen && entry.frozen;
+    } else {
+      byDate.set(key, { date: startOfDay(entry.date), frozen: entry.frozen });
+    }
+  }
+
+  return [...byDate.values()];
+}
+
+/**
+ * Get a user's planned rest days (ISO weekdays).
+ */
+export async function getRestDays(userId: string): Promise<number[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { restDays: true },
+  });
+
+  return parseRestDays(user?.restDays ?? null);
+}
+
+/**
+ * Check whether every day strictly between two dates is a rest day,
+ * so activity on both of them belongs to the same streak.
+ */
+export function isBridgedByRestDays(
+  later: Date,
+  earlier: Date,
+  restDays: number[]
+): boolean {
+  for (let day = subDays(later, 1); day > earlier; day = subDays(day, 1)) {
+    if (!restDays.includes(getISODay(day))) return false;
+  }
+  return true;
 }
 
 /**
  * Calculate the current streak (consecutive days with activity).
- * Activity = any progress entry OR check-in entry.
- * A streak is broken if a day is missed.
+ * Activity = any progress entry, check-in entry or streak freeze.
+ * A streak is broken if a day is missed; rest days are passed over.
  * Today counts if there's activity, otherwise check from yesterday.
  */
 export async function calculateStreak(
@@ -36,15 +110,19 @@ export async function calculateStreak(
   const zonedNow = toZonedTime(now, timezone);
   const today = startOfDay(zonedNow);
 
-  const activityDates = await getActivityDates(userId);
+  const [activityDates, restDays] = await Promise.all([
+    getActivityDates(userId),
+    getRestDays(userId),
+  ]);
+  const earliest = activityDates.at(-1)?.date;
 
-  if (activityDates.length === 0) {
+  if (!earliest) {
     return 0;
   }
 
   // Create a set of date strings for quick lookup
   const dateStrings = new Set(
-    activityDates.map((d) => format(d, 'yyyy-MM-dd'))
+    activityDates.map((d) => format(d.date, 'yyyy-MM-dd'))
   );
 
   let streak = 0;
@@ -57,19 +135,44 @@ export async function calculateStreak(
   }
 
   // Count consecutive days backwards
-  while (true) {
+  while (currentDate >= earliest) {
     const dateString = format(currentDate, 'yyyy-MM-dd');
     if (dateStrings.has(dateString)) {
       streak++;
-      currentDate = subDays(currentDate, 1);
-    } else {
+    } else if (!restDays.includes(getISODay(currentDate))) {
       break;
     }
+    currentDate = subDays(currentDate, 1);
   }
 
   return streak;
 }
 
+/**
+ * Calculate the longest streak ever (consecutive days with activity).
+ * Activity = any progress entry, check-in entry or streak freeze.
+ */
+export async function calculateLongestStreak(userId: string): Promise<number> {
+  const [activityDates, restDays] = await Promise.all([
+    getActivityDates(userId),
+    getRestDays(userId),
+  ]);
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+
+  // Activity dates are unique and sorted newest first
+  for (const { date } of activityDates) {
+    run =
+      previous && isBridgedByRestDays(previous, date, restDays) ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  return longest;
+}
+
 /**
  * Calculate weekly activity (days with activity in last 7 days).
  */
@@ -84,15 +187,16 @@ export async function calculateWeeklyActivity(
 
   const activityDates = await getActivityDates(userId);
   const dateStrings = new Set(
-    activityDates.map((d) => format(d, 'yyyy-MM-dd'))
+    activityDates
+      .filter((d) => !d.frozen)
+      .map((d) => format(d.date, 'yyyy-MM-dd'))
   );
 
-  // Count days in the last 7 days that have activity
+  // Count days in the last 7 days that have activity (freezes don't count)
   const daysInRange = eachDayOfInterval({ start: weekAgo, end: today });
 
-  return daysInRange.filter((day) =>
-    dateStrings.has(format(day, 'yyyy-MM-dd'))
-  ).length;
+  return daysInRange.filter((day) => dateStrings.has(format(day, 'yyyy-MM-dd')))
+    .length;
 }
 
 /**
@@ -115,27 +219,57 @@ export async function getUserStatistics(
   userId: string,
   timezone: string
 ): Promise<UserStatistics> {
-  const [currentStreak, weeklyActivity, totalEntries] = await Promise.all([
+  const [
+    currentStreak,
+    longestStreak,
+    weeklyActivity,
+    totalEntries,
+    completion,
+    areaStreaks,
+  ] = await Promise.all([
     calculateStreak(userId, timezone),
+    calculateLongestStreak(userId),
     calculateWeeklyActivity(userId, timezone),
     getTotalEntries(userId),
+    getAreaCompletionStats(userId, timezone),
+    getAreaStreaks(userId, timezone),
   ]);
 
   return {
     currentStreak,
+    longestStreak,
     weeklyActivity,
     totalEntries,
+    behindTargetAreaIds: completion
+      .filter((c) => c.behindThisWeek)
+      .map((c) => c.area.id),
+    areaStreaks,
   };
 }
 
 /**
- * Get the date of the last activity (progress or check-in).
+ * Get the date of the first activity (progress or check-in, not freezes).
+ */
+export async function getFirstProgressDate(
+  userId: string
+): Promise<Date | null> {
+  const firstEntry = await prisma.progressEntry.findFirst({
+    where: { userId, frozen: false },
+    orderBy: { date: 'asc' },
+    select: { date: true },
+  });
+
+  return firstEntry?.date ?? null;
+}
+
+/**
+ * Get the date of the last activity (progress or check-in, not freezes).
  */
 export async function getLastProgressDate(
   userId: string
 ): Promise<Date | null> {
   const lastEntry = await prisma.progressEntry.findFirst({
-    where: { userId },
+    where: { userId, frozen: false },
     orderBy: { date: 'desc' },
     select: { date: true },
   });
@@ -143,8 +277,94 @@ export async function getLastProgressDate(
   return lastEntry?.date ?? null;
 }
 
+/**
+ * Activity kinds from weakest to strongest: a day shows the strongest
+ * kind among its entries.
+ */
+const ACTIVITY_KIND_ORDER: ActivityKind[] = ['freeze', 'check-in', 'progress'];
+
+/**
+ * Get the kind of activity on each active day of a date range.
+ * Keys are local dates (yyyy-MM-dd); days without entries are left out.
+ * Pass areaId to only count that area's entries (check-ins and freezes
+ * still count).
+ */
+export async function getActivityCalendar(
+  userId: string,
+  startDate: Date,
+  endDate: Date,
+  areaId?: string
+): Promise<Map<string, ActivityKind>> {
+  const entries = await prisma.progressEntry.findMany({
+    where: {
+      userId,
+      date: { gte: startOfDay(startDate), lte: endOfDay(endDate) },
+      ...(areaId ? { OR: [{ areaId }, { areaId: null }] } : {}),
+    },
+    select: { date: true, areaId: true, skipped: true, frozen: true },
+  });
+
+  const calendar = new Map<string, ActivityKind>();
+
+  for (const entry of entries) {
+    const key = format(entry.date, 'yyyy-MM-dd');
+    const kind: ActivityKind =
+      entry.areaId !== null && !entry.skipped
+        ? 'progress'
+        : entry.frozen
+          ? 'freeze'
+          : 'check-in';
+    const current = calendar.get(key);
+    if (
+      !current ||
+      ACTIVITY_KIND_ORDER.indexOf(kind) > ACTIVITY_KIND_ORDER.indexOf(current)
+    ) {
+      calendar.set(key, kind);
+    }
+  }
+
+  return calendar;
+}
+
+/**
+ * Get the longest run of consecutive active days within a date range.
+ * Returns its length and first/last day (null if there was no activity).
+ * Rest days (ISO weekdays) without activity don't break a run.
+ */
+export function getLongestStreakInRange(
+  calendar: Map<string, ActivityKind>,
+  startDate: Date,
+  endDate: Date,
+  restDays: number[] = []
+): { length: number; start: Date; end: Date } | null {
+  let best: { length: number; start: Date; end: Date } | null = null;
+  let runStart: Date | null = null;
+  let run = 0;
+
+  for (const day of eachDayOfInterval({
+    start: startOfDay(startDate),
+    end: startOfDay(endDate),
+  })) {
+    if (!calendar.has(format(day, 'yyyy-MM-dd'))) {
+      if (restDays.includes(getISODay(day))) continue;
+      run = 0;
+      runStart = null;
+      continue;
+    }
+
+    runStart = runStart ?? day;
+    run++;
+    if (!best || run > best.length) {
+      best = { length: run, start: runStart, end: day };
+    }
+  }
+
+  return best;
+}
+
 /**
  * Get progress stats for a specific date range.
+ * Streak freezes aren't progress and are left out.
  */
 export async function getDateRangeStats(
   userId: string,
@@ -157,6 +377,7 @@ export async function getDateRangeStats(
   const entries = await prisma.progressEntry.findMany({
     where: {
       userId,
+      frozen: false,
       date: {
         gte: start,
         lte: end,
@@ -165,12 +386,483 @@ export async function getDateRangeStats(
     select: { date: true },
   });
 
-  const uniqueDates = new Set(
-    entries.map((e) => format(e.date, 'yyyy-MM-dd'))
-  );
+  const uniqueDates = new Set(entries.map((e) => format(e.date, 'yyyy-MM-dd')));
 
   return {
     daysWithProgress: uniqueDates.size,
     totalEntries: entries.length,
   };
 }
+
+/**
+ * Get numeric metric stats for areas with a unit in a date range.
+ * Only active areas with a unit are included; skipped entries are ignored.
+ */
+export async function getAreaMetricStats(
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<AreaMetricStats[]> {
+  const areas = await prisma.area.findMany({
+    where: { userId, archivedAt: null, unit: { not: null } },
+    orderBy: { position: 'asc' },
+    include: {
+      progressEntries: {
+        where: {
+          skipped: false,
+          value: { not: null },
+          date: {
+            gte: startOfDay(startDate),
+            lte: endOfDay(endDate),
+          },
+        },
+        select: { value: true },
+      },
+    },
+  });
+
+  return areas.map(({ progressEntries, ...area }) => {
+    const values = progressEntries.map((e) => e.value ?? 0);
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const daysLogged = values.length;
+    const target = area.target;
+    const targetMetDays =
+      target !== null ? values.filter((value) => value >= target).length : null;
+
+    return {
+      area,
+      daysLogged,
+      total,
+      average: daysLogged > 0 ? total / daysLogged : 0,
+      targetMetDays,
+      targetAttainment:
+        targetMetDays !== null && daysLogged > 0
+          ? targetMetDays / daysLogged
+          : null,
+    };
+  });
+}
+
+/**
+ * Evaluate a cadence over the days of one ISO week (up to today).
+ * Today only counts towards the expectation once it's done, so an open
+ * day never lowers the rate. Weekly cadences expect progress at a steady
+ * pace: N times per week, prorated by the days that have passed.
+ */
+function evaluateWeek(
+  cadence: AreaCadence,
+  days: Date[],
+  doneDates: Set<string>,
+  todayKey: string
+): { expected: number; completed: number } {
+  const isDone = (day: Date): boolean =>
+    doneDates.has(format(day, 'yyyy-MM-dd'));
+  const isToday = (day: Date): boolean =>
+    format(day, 'yyyy-MM-dd') === todayKey;
+
+  if (cadence.type === 'weekly') {
+    const completed = Math.min(
+      days.filter(isDone).length,
+      cadence.timesPerWeek
+    );
+    const pastDays = days.filter((day) => !isToday(day)).length;
+    const paced = Math.floor((cadence.timesPerWeek * pastDays) / 7);
+    return { expected: Math.max(paced, completed), completed };
+  }
+
+  const scheduled = days.filter((day) => isScheduledOn(cadence, day));
+  return {
+    expected: scheduled.filter((day) => !isToday(day) || isDone(day)).length,
+    completed: scheduled.filter(isDone).length,
+  };
+}
+
+/**
+ * Get per-area completion against each active area's target cadence.
+ * Covers the last few ISO weeks (including the current one), starting no
+ * earlier than the day the area was created. Also flags areas that are
+ * behind target in the current week.
+ */
+export async function getAreaCompletionStats(
+  userId: string,
+  timezone: string,
+  weeks: number = COMPLETION_PERIOD_WEEKS
+): Promise<AreaCompletionStats[]> {
+  const today = startOfDay(toZonedTime(new Date(), timezone));
+  const todayKey = format(today, 'yyyy-MM-dd');
+  const thisWeekStart = startOfISOWeek(today);
+  const periodStart = subWeeks(thisWeekStart, weeks - 1);
+
+  const areas = await prisma.area.findMany({
+    where: { userId, archivedAt: null },
+    orderBy: { position: 'asc' },
+    include: {
+      progressEntries: {
+        where: {
+          skipped: false,
+          date: { gte: periodStart, lte: endOfDay(today) },
+        },
+        select: { date: true },
+      },
+    },
+  });
+
+  return areas.map(({ progressEntries, ...area }) => {
+    const cadence = parseAreaCadence(area);
+    const doneDates = new Set(
+      progressEntries.map((e) => format(e.date, 'yyyy-MM-dd'))
+    );
+
+    // Don't expect progress before the area existed
+    const createdDay = startOfDay(toZonedTime(area.createdAt, timezone));
+    const start = max([periodStart, createdDay]);
+
+    let expected = 0;
+    let completed = 0;
+    let behindThisWeek = false;
+
+    for (let week = 0; week < weeks; week++) {
+      const weekStart = subWeeks(thisWeekStart, weeks - 1 - week);
+      const days = eachDayOfInterval({
+        start: weekStart,
+        end: week === weeks - 1 ? today : addDays(weekStart, 6),
+      }).filter((day) => day >= start);
+
+      if (days.length === 0) continue;
+
+      const result = evaluateWeek(cadence, days, doneDates, todayKey);
+      expected += result.expected;
+      completed += result.completed;
+
+      if (week === weeks - 1) {
+        behindThisWeek = result.completed < result.expected;
+      }
+    }
+
+    return {
+      area,
+      expected,
+      completed,
+      rate: expected > 0 ? completed / expected : null,
+      behindThisWeek,
+    };
+  });
+}
+
+/**
+ * Walk scheduled days from the first done day up to today.
+ * Unscheduled days neither count nor break a streak, and an open today
+ * doesn't break it either, so the final run is the current streak.
+ */
+function calculateDayStreak(
+  cadence: AreaCadence,
+  doneDates: Set<string>,
+  firstDay: Date,
+  today: Date
+): { current: number; longest: number } {
+  const todayKey = format(today, 'yyyy-MM-dd');
+  let run = 0;
+  let longest = 0;
+
+  for (const day of eachDayOfInterval({ start: firstDay, end: today })) {
+    if (!isScheduledOn(cadence, day)) continue;
+
+    const key = format(day, 'yyyy-MM-dd');
+    if (doneDates.has(key)) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (key !== todayKey) {
+      run = 0;
+    }
+  }
+
+  return { current: run, longest };
+}
+
+/**
+ * Walk ISO weeks from the first done week up to the current one.
+ * A week counts once its quota is met; the current week can't break a streak.
+ */
+function calculateWeekStreak(
+  timesPerWeek: number,
+  doneDates: Set<string>,
+  firstDay: Date,
+  today: Date
+): { current: number; longest: number } {
+  const weekCounts = new Map<string, number>();
+  for (const key of doneDates) {
+    const weekKey = format(startOfISOWeek(parseISO(key)), 'yyyy-MM-dd');
+    weekCounts.set(weekKey, (weekCounts.get(weekKey) ?? 0) + 1);
+  }
+
+  const thisWeekStart = startOfISOWeek(today);
+  let run = 0;
+  let longest = 0;
+
+  for (
+    let weekStart = startOfISOWeek(firstDay);
+    weekStart <= thisWeekStart;
+    weekStart = addWeeks(weekStart, 1)
+  ) {
+    const count = weekCounts.get(format(weekStart, 'yyyy-MM-dd')) ?? 0;
+    if (count >= timesPerWeek) {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (weekStart < thisWeekStart) {
+      run = 0;
+    }
+  }
+
+  return { current: run, longest };
+}
+
+/**
+ * Get the current and longest streak of each active area.
+ * Streaks follow the area's cadence: consecutive scheduled days with
+ * progress, or consecutive weeks with the quota met for weekly cadences.
+ * Skipped entries and check-ins don't count.
+ * Pass asOf to get the streaks as they stood at the end of an earlier day.
+ */
+export async function getAreaStreaks(
+  userId: string,
+  timezone: string,
+  asOf?: Date
+): Promise<AreaStreak[]> {
+  const today = startOfDay(asOf ?? toZonedTime(new Date(), timezone));
+
+  const areas = await prisma.area.findMany({
+    where: { userId, archivedAt: null },
+    orderBy: { position: 'asc' },
+    include: {
+      progressEntries: {
+        where: { skipped: false, date: { lte: endOfDay(today) } },
+        select: { date: true },
+        orderBy: { date: 'asc' },
+      },
+    },
+  });
+
+  return areas.map(({ progressEntries, ...area }) =>
+    calculateAreaStreak(area, progressEntries, today)
+  );
+}
+
+/**
+ * Get the current and longest streak of one area, archived or not
+ * (null if the user has no such area). Same rules as getAreaStreaks.
+ */
+export async function getAreaStreak(
+  userId: string,
+  timezone: string,
+  areaId: string
+): Promise<AreaStreak | null> {
+  const today = startOfDay(toZonedTime(new Date(), timezone));
+
+  const area = await prisma.area.findFirst({
+    where: { id: areaId, userId },
+    include: {
+      progressEntries: {
+        where: { skipped: false, date: { lte: endOfDay(today) } },
+        select: { date: true },
+        orderBy: { date: 'asc' },
+      },
+    },
+  });
+
+  if (!area) return null;
+
+  const { progressEntries, ...rest } = area;
+  return calculateAreaStreak(rest, progressEntries, today);
+}
+
+/**
+ * Calculate an area's streak from its done entries (sorted oldest first).
+ */
+function calculateAreaStreak(
+  area: Pick<Area, 'id' | 'cadence' | 'timesPerWeek' | 'weekdays'>,
+  progressEntries: { date: Date }[],
+  today: Date
+): AreaStreak {
+  const cadence = parseAreaCadence(area);
+  const unit = cadence.type === 'weekly' ? 'weeks' : 'days';
+  const firstEntry = progressEntries[0];
+
+  if (!firstEntry) {
+    return { areaId: area.id, current: 0, longest: 0, unit };
+  }
+
+  const doneDates = new Set(
+    progressEntries.map((e) => format(e.date, 'yyyy-MM-dd'))
+  );
+  const firstDay = startOfDay(firstEntry.date);
+  const { current, longest } =
+    cadence.type === 'weekly'
+      ? calculateWeekStreak(cadence.timesPerWeek, doneDates, firstDay, today)
+      : calculateDayStreak(cadence, doneDates, firstDay, today);
+
+  return { areaId: area.id, current, longest, unit };
+}
+
+/**
+ * Get per-area activity for a date range (inclusive).
+ * Expected days follow each active area's cadence, starting no earlier
+ * than the day the area was created; weekly cadences are prorated by
+ * the length of the range.
+ */
+export async function getAreaPeriodStats(
+  userId: string,
+  timezone: string,
+  startDate: Date,
+  endDate: Date
+): Promise<AreaPeriodStats[]> {
+  const start = startOfDay(startDate);
+  const end = startOfDay(endDate);
+
+  const areas = await prisma.area.findMany({
+    where: { userId, archivedAt: null },
+    orderBy: { position: 'asc' },
+    include: {
+      progressEntries: {
+        where: { date: { gte: start, lte: endOfDay(end) } },
+        select: { date: true, skipped: true },
+      },
+    },
+  });
+
+  return areas.map(({ progressEntries, ...area }) => {
+    const cadence = parseAreaCadence(area);
+    const createdDay = startOfDay(toZonedTime(area.createdAt, timezone));
+    const days =
+      createdDay > end
+        ? []
+        : eachDayOfInterval({ start: max([start, createdDay]), end });
+
+    const expected =
+      cadence.type === 'weekly'
+        ? Math.min(
+            Math.ceil((cadence.timesPerWeek * days.length) / 7),
+            days.length
+          )
+        : days.filter((day) => isScheduledOn(cadence, day)).length;
+
+    return {
+      area,
+      daysLogged: progressEntries.filter((e) => !e.skipped).length,
+      daysSkipped: progressEntries.filter((e) => e.skipped).length,
+      expected,
+    };
+  });
+}
+
+/**
+ * Get detailed statistics for /stats over the last `days` days
+ * (including today), overall or for one area.
+ * Streaks are all-time: the overall activity streak, or the area's
+ * cadence-aware streak (archived areas included).
+ */
+export async function getDetailedStats(
+  userId: string,
+  timezone: string,
+  days: number,
+  areaId?: string
+): Promise<DetailedStats> {
+  const today = startOfDay(toZonedTime(new Date(), timezone));
+  const start = subDays(today, days - 1);
+
+  const [entries, periodStats, streak] = await Promise.all([
+    prisma.progressEntry.findMany({
+      where: {
+        userId,
+        date: { gte: start, lte: endOfDay(today) },
+        ...(areaId ? { areaId } : {}),
+      },
+      select: { date: true, skipped: true, frozen: true, area: true },
+    }),
+    getAreaPeriodStats(userId, timezone, start, today),
+    areaId
+      ? getAreaStreak(userId, timezone, areaId)
+      : Promise.all([
+          calculateStreak(userId, timezone),
+          calculateLongestStreak(userId),
+        ]).then(([current, longest]) => ({
+          current,
+          longest,
+          unit: 'days' as const,
+        })),
+  ]);
+
+  // Skipped entries and check-ins (no area) aren't progress
+  const progressEntries = entries.flatMap((e) =>
+    e.area && !e.skipped ? [{ date: e.date, area: e.area }] : []
+  );
+  // Streak freezes aren't activity, they're counted on their own
+  const activeDates = new Set(
+    (areaId ? progressEntries : entries.filter((e) => !e.frozen)).map((e) =>
+      format(e.date, 'yyyy-MM-dd')
+    )
+  );
+  const frozenDates = new Set(
+    entries
+      .filter((e) => e.frozen && !activeDates.has(format(e.date, 'yyyy-MM-dd')))
+      .map((e) => format(e.date, 'yyyy-MM-dd'))
+  );
+  const progressDates = new Set(
+    progressEntries.map((e) => format(e.date, 'yyyy-MM-dd'))
+  );
+
+  // Completion: scheduled days done, capped per area by what was expected
+  const areaStats = periodStats.filter((s) => !areaId || s.area.id === areaId);
+  const expected = areaStats.reduce((sum, s) => sum + s.expected, 0);
+  const completed = areaStats.reduce(
+    (sum, s) => sum + Math.min(s.daysLogged, s.expected),
+    0
+  );
+
+  // Entries per ISO weekday (index 0 = Monday)
+  const weekdayCounts = [0, 0, 0, 0, 0, 0, 0];
+  for (const entry of progressEntries) {
+    weekdayCounts[getISODay(entry.date) - 1]++;
+  }
+  const hasEntries = progressEntries.length > 0;
+
+  // Per-area shares (archived areas included)
+  const byArea = new Map<string, AreaShare>();
+  if (!areaId) {
+    for (const entry of progressEntries) {
+      const share = byArea.get(entry.area.id) ?? {
+        area: entry.area,
+        entries: 0,
+        share: 0,
+      };
+      share.entries++;
+      byArea.set(entry.area.id, share);
+    }
+  }
+
+  return {
+    range: { start, end: today },
+    currentStreak: streak?.current ?? 0,
+    longestStreak: streak?.longest ?? 0,
+    streakUnit: streak?.unit ?? 'days',
+    completionRate: expected > 0 ? completed / expected : null,
+    totalEntries: progressEntries.length,
+    activeDays: activeDates.size,
+    frozenDays: frozenDates.size,
+    averageEntriesPerDay: hasEntries
+      ? progressEntries.length / progressDates.size
+      : null,
+    bestWeekday: hasEntries
+      ? weekdayCounts.indexOf(Math.max(...weekdayCounts)) + 1
+      : null,
+    worstWeekday: hasEntries
+      ? weekdayCounts.indexOf(Math.min(...weekdayCounts)) + 1
+      : null,
+    areaShares: [...byArea.values()]
+      .map((s) => ({ ...s, share: s.entries / progressEntries.length }))
+      .sort((a, b) => b.entries - a.entries),
+    checkInRatio:
+      !areaId && activeDates.size > 0
+        ? (activeDates.size - progressDates.size) / activeDates.size
+        : null,
+  };
+}
@@ -0,0 +1,272 @@
+import prisma from '../db/client.js';
+import type { User, PromptTemplate } from '@prisma/client';
+import {
+  VALIDATION_LIMITS,
+  TEMPLATE_PLACEHOLDER_PATTERN,
+} from '../bot/utils/validators.js';
+import type {
+  BuiltInTemplateKey,
+  PromptTemplatePlaceholder,
+  ResolvedPromptTemplate,
+} from '../types/index.js';
+
+/**
+ * Template service manages analysis prompt templates.
+ * Built-in templates ship with the bot; users can upload their own.
+ * Templates are plain text with {{areas}}, {{log}}, {{stats}} and
+ * {{period}} placeholders, filled in by the prompt service.
+ */
+
+const SEPARATOR = '='.repeat(50);
+
+/**
+ * Shared header for built-in templates.
+ */
+const HEADER = `${SEPARATOR}
+PERSONAL PROGRESS ANALYSIS REQUEST
+${SEPARATOR}
+
+Period: {{period}}
+
+## MY FOCUS AREAS
+
+{{areas}}
+
+## DAILY PROGRESS LOG
+
+{{log}}
+
+## STATISTICS
+
+{{stats}}`;
+
+/**
+ * Built-in templates, in the order they are offered.
+ */
+export const BUILT_IN_TEMPLATES: Record<BuiltInTemplateKey, string> = {
+  default: `${HEADER}
+
+## ANALYSIS REQUEST
+
+Based on the above progress log, please provide:
+
+1. **Patterns & Trends**
+   - Which areas am I consistently working on?
+   - Which areas are being neglected?
+   - Are there any notable patterns in my activity?
+
+2. **Progress Assessment**
+   - What am I doing well?
+   - Where could I improve?
+   - Am I making meaningful progress toward my goals?
+
+3. **Recommendations**
+   - Specific, actionable suggestions for the next week
+   - Any areas that need more attention
+   - Ways to maintain momentum
+
+4. **Questions to Consider**
+   - Thought-provoking questions about my priorities
+   - Are my current areas aligned with my long-term goals?
+
+${SEPARATOR}`,
+
+  weekly_review: `${HEADER}
+
+## WEEKLY REVIEW
+
+Act as my accountability partner and run a short weekly review:
+
+1. **Wins** - What went well? Name specific entries worth celebrating.
+2. **Misses** - What didn't happen as planned, and what got in the way?
+3. **Lessons** - What does this period teach me about how I work?
+4. **Next week** - Pick the top 3 priorities for the coming week, one
+   concrete action for each, and the day I should do it.
+
+Keep it brief and practical.
+
+${SEPARATOR}`,
+
+  neglected_areas: `${HEADER}
+
+## NEGLECTED AREAS DEEP DIVE
+
+Focus only on the areas with the fewest entries, broken streaks or a low
+completion rate in this period:
+
+1. Which areas am I neglecting, and how badly (compare with the others)?
+2. What are the likely reasons, judging by what I log and what I skip?
+3. For each neglected area, suggest the smallest possible next step I could
+   take tomorrow in under 10 minutes.
+4. Should any of these areas be redefined, paused or archived instead?
+
+Be honest and specific; don't spend time on the areas that are going well.
+
+${SEPARATOR}`,
+
+  motivation_coach: `${HEADER}
+
+## MOTIVATION COACH
+
+Act as a warm, encouraging coach:
+
+1. Celebrate my progress first - point out streaks, consistency and
+   specific entries I should be proud of.
+2. Gently point out where I'm slipping, without judgement.
+3. Give me one small, fun challenge for the next few days.
+4. End with a short, personal motivational message based on my own goals.
+
+Keep the tone positive and energizing.
+
+${SEPARATOR}`,
+
+  okr_check: `${HEADER}
+
+## OKR CHECK
+
+Treat each focus area as an Objective:
+
+1. For each Objective, propose 2-3 measurable Key Results that fit what I
+   actually log (use the numeric metrics where available).
+2. Score my progress on each Key Result from 0.0 to 1.0 based on this
+   period, with a one-line justification.
+3. Give a confidence level (0-10) that I'll reach each Objective at this pace.
+4. Recommend what to change, drop or double down on for the next period.
+
+Present the result as a compact table per Objective.
+
+${SEPARATOR}`,
+};
+
+export const BUILT_IN_TEMPLATE_KEYS = Object.keys(
+  BUILT_IN_TEMPLATES
+) as BuiltInTemplateKey[];
+
+export const DEFAULT_TEMPLATE_KEY: BuiltInTemplateKey = 'default';
+
+/**
+ * Check whether a key refers to a built-in template.
+ */
+export function isBuiltInTemplate(key: string): key is BuiltInTemplateKey {
+  return Object.hasOwn(BUILT_IN_TEMPLATES, key);
+}
+
+/**
+ * Get all custom templates for a user, oldest first.
+ */
+export async function getUserTemplates(
+  userId: string
+): Promise<PromptTemplate[]> {
+  return prisma.promptTemplate.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Create a custom template for a user.
+ * Throws if the user already has the maximum number of templates.
+ */
+export async function createTemplate(
+  userId: string,
+  data: { name: string; body: string }
+): Promise<PromptTemplate> {
+  const count = await prisma.promptTemplate.count({ where: { userId } });
+
+  if (count >= VALIDATION_LIMITS.MAX_TEMPLATES_PER_USER) {
+    throw new Error(
+      `Maximum of ${VALIDATION_LIMITS.MAX_TEMPLATES_PER_USER} templates reached`
+    );
+  }
+
+  return prisma.promptTemplate.create({
+    data: { userId, name: data.name, body: data.body },
+  });
+}
+
+/**
+ * Delete a user's custom template.
+ * If it was selected, the user falls back to the default template.
+ */
+export async function deleteTemplate(
+  userId: string,
+  templateId: string
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.promptTemplate.deleteMany({
+      where: { id: templateId, userId },
+    }),
+    prisma.user.updateMany({
+      where: { id: userId, summaryTemplate: templateId },
+      data: { summaryTemplate: DEFAULT_TEMPLATE_KEY },
+    }),
+  ]);
+}
+
+/**
+ * Select the template used by /summary.
+ * Returns false if the key is neither built-in nor one of the user's templates.
+ */
+export async function selectTemplate(
+  userId: string,
+  key: string
+): Promise<boolean> {
+  if (!isBuiltInTemplate(key)) {
+    const template = await prisma.promptTemplate.findFirst({
+      where: { id: key, userId },
+      select: { id: true },
+    });
+    if (!template) return false;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { summaryTemplate: key },
+  });
+
+  return true;
+}
+
+/**
+ * Resolve the user's selected template.
+ * Falls back to the default template if a custom one no longer exists.
+ */
+export async function getSelectedTemplate(
+  user: User
+): Promise<ResolvedPromptTemplate> {
+  const key = user.summaryTemplate;
+
+  if (isBuiltInTemplate(key)) {
+    return { key, name: null, body: BUILT_IN_TEMPLATES[key] };
+  }
+
+  const template = await prisma.promptTemplate.findFirst({
+    where: { id: key, userId: user.id },
+  });
+
+  if (!template) {
+    return {
+      key: DEFAULT_TEMPLATE_KEY,
+      name: null,
+      body: BUILT_IN_TEMPLATES[DEFAULT_TEMPLATE_KEY],
+    };
+  }
+
+  return { key: template.id, name: template.name, body: template.body };
+}
+
+/**
+ * Fill in template placeholders. Unknown placeholders are left as is.
+ */
+export function renderTemplate(
+  body: string,
+  values: Record<PromptTemplatePlaceholder, string>
+): string {
+  return body.replace(
+    TEMPLATE_PLACEHOLDER_PATTERN,
+    (placeholder: string, name: string) =>
+      Object.hasOwn(values, name)
+        ? values[name as PromptTemplatePlaceholder]
+        : placeholder
+  );
+}
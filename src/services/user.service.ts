@@ -1,12 +1,20 @@
 import prisma from '../db/client.js';
 import type { User } from '@prisma/client';
+import { isLlmEnabled } from '../config/env.js';
+import {
+  SUMMARY_DELIVERY_OPTIONS,
+  type SummaryDelivery,
+} from '../types/index.js';
 
 /**
  * User service handles all user-related database operations.
  */
 
 // Maximum number of digest reminder times
-const MAX_DIGEST_TIMES = 3;
+export const MAX_DIGEST_TIMES = 3;
+
+// Maximum number of planned rest days per week
+export const MAX_REST_DAYS = 3;
 
 /**
  * Parse digestTimes JSON string to array.
@@ -32,6 +40,24 @@ function serializeDigestTimes(times: string[]): string | null {
   return JSON.stringify(times.slice(0, MAX_DIGEST_TIMES));
 }
 
+/**
+ * Parse restDays JSON string to a sorted array of ISO weekdays (1=Mon..7=Sun).
+ */
+export function parseRestDays(restDays: string | null): number[] {
+  if (!restDays) return [];
+  try {
+    const parsed = JSON.parse(restDays) as unknown;
+    if (Array.isArray(parsed)) {
+      return parsed
+        .filter((d): d is number => typeof d === 'number' && d >= 1 && d <= 7)
+        .sort((a, b) => a - b);
+    }
+    return [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Get or create a user by their Telegram ID.
  * This is the primary method for user lookup, automatically creating
@@ -108,7 +134,7 @@ export async function updateTimezone(
 ): Promise<User> {
   return prisma.user.update({
     where: { id: userId },
-    data: { timezone },
+    data: { timezone, notificationSettingsUpdatedAt: new Date() },
   });
 }
 
@@ -146,7 +172,10 @@ export async function addDigestTime(
   const newTimes = [...currentTimes, time].sort();
   const updatedUser = await prisma.user.update({
     where: { id: userId },
-    data: { digestTimes: serializeDigestTimes(newTimes) },
+    data: {
+      digestTimes: serializeDigestTimes(newTimes),
+      notificationSettingsUpdatedAt: new Date(),
+    },
   });
 
   return { success: true, user: updatedUser };
@@ -169,7 +198,10 @@ export async function removeDigestTime(
 
   return prisma.user.update({
     where: { id: userId },
-    data: { digestTimes: serializeDigestTimes(newTimes) },
+    data: {
+      digestTimes: serializeDigestTimes(newTimes),
+      notificationSettingsUpdatedAt: new Date(),
+    },
   });
 }
 
@@ -182,7 +214,10 @@ export async function setDigestTimes(
 ): Promise<User> {
   return prisma.user.update({
     where: { id: userId },
-    data: { digestTimes: serializeDigestTimes(times) },
+    data: {
+      digestTimes: serializeDigestTimes(times),
+      notificationSettingsUpdatedAt: new Date(),
+    },
   });
 }
 
@@ -192,7 +227,7 @@ export async function setDigestTimes(
 export async function clearDigestTimes(userId: string): Promise<User> {
   return prisma.user.update({
     where: { id: userId },
-    data: { digestTimes: null },
+    data: { digestTimes: null, notificationSettingsUpdatedAt: new Date() },
   });
 }
 
@@ -206,7 +241,126 @@ export async function updateProgressReminderTime(
 ): Promise<User> {
   return prisma.user.update({
     where: { id: userId },
-    data: { progressReminderTime: time },
+    data: {
+      progressReminderTime: time,
+      notificationSettingsUpdatedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Update user's streak warning time.
+ * Set to null to disable.
+ */
+export async function updateStreakWarningTime(
+  userId: string,
+  time: string | null
+): Promise<User> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      streakWarningTime: time,
+      notificationSettingsUpdatedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Turn a planned rest day (ISO weekday) on or off.
+ * Returns false if the max number of rest days is reached.
+ */
+export async function toggleRestDay(
+  userId: string,
+  day: number
+): Promise<{ success: boolean; user: User }> {
+  const user = await getUserById(userId);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const currentDays = parseRestDays(user.restDays);
+
+  if (!currentDays.includes(day) && currentDays.length >= MAX_REST_DAYS) {
+    return { success: false, user };
+  }
+
+  const newDays = currentDays.includes(day)
+    ? currentDays.filter((d) => d !== day)
+    : [...currentDays, day].sort((a, b) => a - b);
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: { restDays: newDays.length > 0 ? JSON.stringify(newDays) : null },
+  });
+
+  return { success: true, user: updatedUser };
+}
+
+/**
+ * Update the weekly review schedule.
+ * Pass time null to turn the review off; the day is kept for next time.
+ */
+export async function updateWeeklyReview(
+  userId: string,
+  data: { day?: number; time?: string | null }
+): Promise<User> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      weeklyReviewDay: data.day,
+      weeklyReviewTime: data.time,
+      notificationSettingsUpdatedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Turn the monthly and yearly retrospectives on or off.
+ */
+export async function updateRetrospectiveReports(
+  userId: string,
+  enabled: boolean
+): Promise<User> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      retrospectiveReports: enabled,
+      notificationSettingsUpdatedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Get the /summary delivery options available in this deployment.
+ * Direct LLM analysis is only offered when it is configured.
+ */
+export function getAvailableSummaryDeliveries(): SummaryDelivery[] {
+  return SUMMARY_DELIVERY_OPTIONS.filter(
+    (option) => option !== 'llm' || isLlmEnabled
+  );
+}
+
+/**
+ * Get how the user wants to receive the /summary prompt.
+ * Falls back to inline code blocks for unknown or unavailable values.
+ */
+export function getUserSummaryDelivery(user: User): SummaryDelivery {
+  return (
+    getAvailableSummaryDeliveries().find(
+      (option) => option === user.summaryDelivery
+    ) ?? 'inline'
+  );
+}
+
+/**
+ * Update how the user wants to receive the /summary prompt.
+ */
+export async function updateSummaryDelivery(
+  userId: string,
+  delivery: SummaryDelivery
+): Promise<User> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: { summaryDelivery: delivery },
   });
 }
 
@@ -239,12 +393,25 @@ export async function fullReset(userId: string): Promise<User> {
     where: { userId },
   });
 
+  // Delete custom prompt templates
+  await prisma.promptTemplate.deleteMany({
+    where: { userId },
+  });
+
   // Reset user settings (keep language)
   return prisma.user.update({
     where: { id: userId },
     data: {
       digestTimes: null,
       progressReminderTime: null,
+      streakWarningTime: null,
+      weeklyReviewDay: 7,
+      weeklyReviewTime: null,
+      retrospectiveReports: false,
+      restDays: null,
+      notificationSettingsUpdatedAt: new Date(),
+      summaryDelivery: 'inline',
+      summaryTemplate: 'default',
       pinnedMessageId: null,
       onboardingCompleted: false,
     },
@@ -279,6 +446,42 @@ export async function getUsersForProgressReminder(): Promise<User[]> {
   });
 }
 
+/**
+ * Get all users who have the streak warning turned on.
+ */
+export async function getUsersForStreakWarning(): Promise<User[]> {
+  return prisma.user.findMany({
+    where: {
+      streakWarningTime: { not: null },
+      onboardingCompleted: true,
+    },
+  });
+}
+
+/**
+ * Get all users who have the weekly review turned on.
+ */
+export async function getUsersForWeeklyReview(): Promise<User[]> {
+  return prisma.user.findMany({
+    where: {
+      weeklyReviewTime: { not: null },
+      onboardingCompleted: true,
+    },
+  });
+}
+
+/**
+ * Get all users who have the retrospective reports turned on.
+ */
+export async function getUsersForRetrospectiveReports(): Promise<User[]> {
+  return prisma.user.findMany({
+    where: {
+      retrospectiveReports: true,
+      onboardingCompleted: true,
+    },
+  });
+}
+
 // Default export for convenience
 export const userService = {
   getOrCreateUser,
@@ -294,8 +497,18 @@ export const userService = {
   setDigestTimes,
   clearDigestTimes,
   updateProgressReminderTime,
+  updateStreakWarningTime,
+  updateWeeklyReview,
+  updateRetrospectiveReports,
+  toggleRestDay,
+  getAvailableSummaryDeliveries,
+  getUserSummaryDelivery,
+  updateSummaryDelivery,
   updatePinnedMessageId,
   fullReset,
   getUsersForDigest,
   getUsersForProgressReminder,
+  getUsersForStreakWarning,
+  getUsersForWeeklyReview,
+  getUsersForRetrospectiveReports,
 };
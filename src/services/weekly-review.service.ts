@@ -0,0 +1,235 @@
+import type { User } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { getTodayInTimezone } from './progress.service.js';
+import {
+  getAreaPeriodStats,
+  getAreaStreaks,
+  getDateRangeStats,
+} from './statistics.service.js';
+import { formatDate } from '../bot/utils/date-formatter.js';
+import type {
+  AreaPeriodStats,
+  AreaStreak,
+  DateRange,
+  WeeklyReview,
+} from '../types/index.js';
+import type { Language } from '../locales/index.js';
+
+/**
+ * Weekly review service looks back over the past week:
+ * per-area days logged and skipped, streak changes and the most
+ * neglected area. Sent on the day and time chosen in /settings.
+ */
+
+/**
+ * Number of days covered by the review (including today).
+ */
+const REVIEW_PERIOD_DAYS = 7;
+
+/**
+ * Get localized text based on language.
+ */
+function t(key: string, lang: Language): string {
+  const translations: Record<string, Record<Language, string>> = {
+    'review-title': {
+      en: '📅 *Weekly review*',
+      ru: '📅 *Итоги недели*',
+    },
+    'review-skipped': {
+      en: 'skipped',
+      ru: 'пропущено',
+    },
+    'review-neglected': {
+      en: '⚠️ *Needs attention:*',
+      ru: '⚠️ *Требует внимания:*',
+    },
+    'review-of': {
+      en: 'of',
+      ru: 'из',
+    },
+    'review-all-on-track': {
+      en: '✅ No area fell behind this week!',
+      ru: '✅ Ни одна область не отстала на этой неделе!',
+    },
+    'review-active-days': {
+      en: '📊 Active days:',
+      ru: '📊 Активных дней:',
+    },
+    'review-summary-hint': {
+      en: 'Want a deeper look? Get the analysis prompt for this week below.',
+      ru: 'Хотите разобрать подробнее? Получите промпт для анализа этой недели ниже.',
+    },
+    'review-late': {
+      en: '⏰ _Delayed — scheduled for',
+      ru: '⏰ _С опозданием — запланировано на',
+    },
+  };
+
+  return translations[key]?.[lang] ?? translations[key]?.en ?? key;
+}
+
+/**
+ * Get pluralized days string.
+ */
+function getDaysWord(count: number, lang: Language): string {
+  if (lang === 'ru') {
+    if (count % 10 === 1 && count % 100 !== 11) return 'день';
+    if (
+      count % 10 >= 2 &&
+      count % 10 <= 4 &&
+      (count % 100 < 10 || count % 100 >= 20)
+    )
+      return 'дня';
+    return 'дней';
+  }
+  return count === 1 ? 'day' : 'days';
+}
+
+/**
+ * Get pluralized weeks string.
+ */
+function getWeeksWord(count: number, lang: Language): string {
+  if (lang === 'ru') {
+    if (count % 10 === 1 && count % 100 !== 11) return 'неделя';
+    if (
+      count % 10 >= 2 &&
+      count % 10 <= 4 &&
+      (count % 100 < 10 || count % 100 >= 20)
+    )
+      return 'недели';
+    return 'недель';
+  }
+  return count === 1 ? 'week' : 'weeks';
+}
+
+/**
+ * Get the period covered by a review sent today: the last 7 days,
+ * including today, in the user's timezone.
+ */
+export function getWeeklyReviewRange(timezone: string): DateRange {
+  const today = getTodayInTimezone(timezone);
+  return { start: subDays(today, REVIEW_PERIOD_DAYS - 1), end: today };
+}
+
+/**
+ * Find the most neglected area: the lowest share of expected days
+ * logged (largest gap first on ties). Areas that met their cadence
+ * don't count.
+ */
+function findMostNeglected(stats: AreaPeriodStats[]): AreaPeriodStats | null {
+  const behind = stats.filter(
+    (s) => s.expected > 0 && s.daysLogged < s.expected
+  );
+
+  behind.sort(
+    (a, b) =>
+      a.daysLogged / a.expected - b.daysLogged / b.expected ||
+      b.expected - b.daysLogged - (a.expected - a.daysLogged)
+  );
+
+  return behind[0] ?? null;
+}
+
+/**
+ * Format an area's week, e.g. "🏃 Run: 5/7 days · skipped 1 · 🔥 3 → 5 days".
+ * The streak part is left out when the area had no streak before or after.
+ */
+function formatAreaLine(
+  stats: AreaPeriodStats,
+  before: AreaStreak | undefined,
+  after: AreaStreak | undefined,
+  lang: Language
+): string {
+  const { area } = stats;
+  const emoji = area.emoji ?? '•';
+  const logged =
+    stats.expected > 0
+      ? `${stats.daysLogged}/${stats.expected}`
+      : `${stats.daysLogged}`;
+  const parts = [
+    `${logged} ${getDaysWord(stats.expected || stats.daysLogged, lang)}`,
+  ];
+
+  if (stats.daysSkipped > 0) {
+    parts.push(`${t('review-skipped', lang)} ${stats.daysSkipped}`);
+  }
+
+  const from = before?.current ?? 0;
+  const to = after?.current ?? 0;
+  if (from > 0 || to > 0) {
+    const unitWord =
+      after?.unit === 'weeks' ? getWeeksWord(to, lang) : getDaysWord(to, lang);
+    parts.push(`🔥 ${from} → ${to} ${unitWord}`);
+  }
+
+  return `${emoji} ${area.title}: ${parts.join(' · ')}`;
+}
+
+/**
+ * Format the most neglected area line.
+ */
+function formatNeglectedLine(stats: AreaPeriodStats, lang: Language): string {
+  const { area } = stats;
+  const emoji = area.emoji ?? '•';
+  return `${t('review-neglected', lang)} ${emoji} ${area.title} — ${stats.daysLogged} ${t('review-of', lang)} ${stats.expected} ${getDaysWord(stats.expected, lang)}`;
+}
+
+/**
+ * Generate the weekly review for a user.
+ * Returns null if the user has no active areas to review.
+ * Pass lateFor (HH:mm) when the review is sent after its scheduled slot.
+ */
+export async function generateWeeklyReview(
+  user: User,
+  options: { lateFor?: string } = {}
+): Promise<WeeklyReview | null> {
+  const lang = (user.language || 'en') as Language;
+  const range = getWeeklyReviewRange(user.timezone);
+
+  const [areaStats, streaksBefore, streaksAfter, activity] = await Promise.all([
+    getAreaPeriodStats(user.id, user.timezone, range.start, range.end),
+    getAreaStreaks(user.id, user.timezone, subDays(range.start, 1)),
+    getAreaStreaks(user.id, user.timezone),
+    getDateRangeStats(user.id, range.start, range.end),
+  ]);
+
+  if (areaStats.length === 0) {
+    return null;
+  }
+
+  const lines: string[] = [];
+
+  if (options.lateFor) {
+    lines.push(`${t('review-late', lang)} ${options.lateFor}_`, '');
+  }
+
+  lines.push(
+    t('review-title', lang),
+    `_${formatDate(range.start, lang)} – ${formatDate(range.end, lang)}_`,
+    ''
+  );
+
+  areaStats.forEach((stats) => {
+    const before = streaksBefore.find((s) => s.areaId === stats.area.id);
+    const after = streaksAfter.find((s) => s.areaId === stats.area.id);
+    lines.push(formatAreaLine(stats, before, after, lang));
+  });
+
+  lines.push('');
+
+  const neglected = findMostNeglected(areaStats);
+  lines.push(
+    neglected
+      ? formatNeglectedLine(neglected, lang)
+      : t('review-all-on-track', lang)
+  );
+
+  lines.push(
+    '',
+    `${t('review-active-days', lang)} ${activity.daysWithProgress}/${REVIEW_PERIOD_DAYS}`,
+    '',
+    t('review-summary-hint', lang)
+  );
+
+  return { text: lines.join('\n'), range };
+}
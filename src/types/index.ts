@@ -1,7 +1,13 @@
 import type { Context, SessionFlavor } from 'grammy';
 import type { ConversationFlavor, Conversation } from '@grammyjs/conversations';
 import type { I18nFlavor } from '@grammyjs/i18n';
-import type { User, Area, ProgressEntry } from '@prisma/client';
+import type { Logger } from 'pino';
+import type {
+  User,
+  Area,
+  ProgressEntry,
+  NotificationLog,
+} from '@prisma/client';
 
 // Session data stored between updates
 export interface SessionData {
@@ -9,8 +15,16 @@ export interface SessionData {
   userId?: string;
 }
 
+// Request-scoped logger with correlation fields (update_id, telegram_user_id)
+export interface LoggerFlavor {
+  logger: Logger;
+}
+
 // Base context without conversations to avoid circular dependency
-type MyBaseContext = Context & I18nFlavor & SessionFlavor<SessionData>;
+type MyBaseContext = Context &
+  I18nFlavor &
+  SessionFlavor<SessionData> &
+  LoggerFlavor;
 
 // Bot context type with session, conversation and i18n support
 export type BotContext = MyBaseContext & ConversationFlavor<MyBaseContext>;
@@ -19,13 +33,15 @@ export type BotContext = MyBaseContext & ConversationFlavor<MyBaseContext>;
 export type BotConversation = Conversation<BotContext, BotContext>;
 
 // Re-export Prisma types for convenience
-export type { User, Area, ProgressEntry };
+export type { User, Area, ProgressEntry, NotificationLog };
 
 // Area creation input
 export interface CreateAreaInput {
   title: string;
   body?: string;
   emoji?: string;
+  unit?: string;
+  target?: number;
 }
 
 // Area update input
@@ -33,21 +49,344 @@ export interface UpdateAreaInput {
   title?: string;
   body?: string;
   emoji?: string;
+  unit?: string | null;
+  target?: number | null;
 }
 
 // Progress entry input
 export interface ProgressEntryInput {
   areaId: string;
-  content: string;
+  content: string | null;
+  value?: number | null;
 }
 
 // Statistics
 export interface UserStatistics {
   currentStreak: number;
+  // Longest run of consecutive active days ever
+  longestStreak: number;
   weeklyActivity: number;
   totalEntries: number;
+  // Areas that are behind their target cadence this week
+  behindTargetAreaIds: string[];
+  // Current and longest streak of each area
+  areaStreaks: AreaStreak[];
+}
+
+// Streak of an area: consecutive scheduled days done, or consecutive
+// weeks with the quota met for weekly cadences
+export interface AreaStreak {
+  areaId: string;
+  current: number;
+  longest: number;
+  unit: 'days' | 'weeks';
+}
+
+// Target cadence of an area
+export type AreaCadence =
+  | { type: 'daily' }
+  // N times per week, on any days
+  | { type: 'weekly'; timesPerWeek: number }
+  // Specific ISO weekdays (1=Mon..7=Sun)
+  | { type: 'weekdays'; weekdays: number[] };
+
+// Completion of an area against its cadence over a period
+export interface AreaCompletionStats {
+  area: Area;
+  expected: number;
+  completed: number;
+  // completed / expected, 0-1 (null if nothing was expected yet)
+  rate: number | null;
+  behindThisWeek: boolean;
+}
+
+// Activity of an area over a period, against its cadence
+export interface AreaPeriodStats {
+  area: Area;
+  // Days with progress (skipped entries and check-ins don't count)
+  daysLogged: number;
+  // Days the area was explicitly skipped
+  daysSkipped: number;
+  // Days progress was expected by the cadence
+  expected: number;
+}
+
+// An area's share of progress entries over a period
+export interface AreaShare {
+  area: Area;
+  entries: number;
+  // entries / all entries in the period, 0-1
+  share: number;
+}
+
+// Detailed statistics for /stats over the last N days, overall or for one area
+export interface DetailedStats {
+  range: DateRange;
+  currentStreak: number;
+  longestStreak: number;
+  // Area streaks with a weekly cadence count weeks
+  streakUnit: 'days' | 'weeks';
+  // Scheduled days done / expected, 0-1 (null if nothing was expected)
+  completionRate: number | null;
+  // Progress entries (skipped entries and check-ins don't count)
+  totalEntries: number;
+  // Days with any activity (for an area: days with its progress)
+  activeDays: number;
+  // Days covered only by a streak freeze (0 for one area)
+  frozenDays: number;
+  // Progress entries per day with progress (null without entries)
+  averageEntriesPerDay: number | null;
+  // ISO weekdays (1=Mon..7=Sun) with the most and fewest entries
+  bestWeekday: number | null;
+  worstWeekday: number | null;
+  // Each area's share of entries, most active first (empty for one area)
+  areaShares: AreaShare[];
+  // Share of active days with only a check-in, 0-1
+  // (null for one area or without activity)
+  checkInRatio: number | null;
+}
+
+// Retrospective report periods (/report month|year)
+export type ReportPeriod = 'month' | 'year';
+
+// What a day's activity consisted of: real progress, or only a check-in
+// (or skipped areas) or a streak freeze, which still keep the overall
+// streak going
+export type ActivityKind = 'progress' | 'check-in' | 'freeze';
+
+// A day with at least one entry; frozen when only a streak freeze
+// covers it (no progress or check-in)
+export interface ActivityDate {
+  date: Date;
+  frozen: boolean;
+}
+
+// Streak freezes a user has earned and can still use
+export interface FreezeStatus {
+  available: number;
+  // Consecutive active days until the next freeze is earned
+  // (null while at the maximum)
+  daysToNext: number | null;
+  // Missed days (not rest days) since the last activity, oldest first;
+  // freezing all of them restores the streak
+  missedDays: Date[];
+}
+
+// Numeric metric totals for an area with a unit over a period
+export interface AreaMetricStats {
+  area: Area;
+  // Number of days with a logged value
+  daysLogged: number;
+  total: number;
+  // Average value per logged day
+  average: number;
+  // Days on which the value reached the target (null if no target)
+  targetMetDays: number | null;
+  // Share of logged days that met the target, 0-1 (null if no target)
+  targetAttainment: number | null;
 }
 
+// Data export file formats
+export type ExportFormat = 'json' | 'csv' | 'md';
+
+// Complete, lossless export of a user's data (JSON format)
+export interface UserExport {
+  version: number;
+  exportedAt: string;
+  user: {
+    language: string;
+    timezone: string;
+    digestTimes: string[];
+    progressReminderTime: string | null;
+    streakWarningTime: string | null;
+    weeklyReviewDay: number;
+    weeklyReviewTime: string | null;
+    retrospectiveReports: boolean;
+    restDays: number[];
+    summaryDelivery: string;
+    // Built-in key or custom template ID
+    summaryTemplate: string;
+    createdAt: string;
+  };
+  areas: {
+    id: string;
+    title: string;
+    body: string | null;
+    emoji: string | null;
+    position: number;
+    unit: string | null;
+    target: number | null;
+    cadence: string;
+    timesPerWeek: number | null;
+    weekdays: number[] | null;
+    archivedAt: string | null;
+    createdAt: string;
+  }[];
+  entries: {
+    // Local date (yyyy-MM-dd)
+    date: string;
+    // null for check-in entries and streak freezes
+    areaId: string | null;
+    content: string | null;
+    value: number | null;
+    skipped: boolean;
+    frozen: boolean;
+    createdAt: string;
+  }[];
+}
+
+// An area referenced by an import file
+export interface ImportArea {
+  // Key used by entries: the source area id (JSON) or area id/title (CSV)
+  key: string;
+  // Area id in the source file, used to match areas of a previous export
+  sourceId: string | null;
+  title: string;
+  body: string | null;
+  emoji: string | null;
+  unit: string | null;
+  target: number | null;
+  cadence: AreaCadence;
+  archived: boolean;
+}
+
+// A validated entry from an import file
+export interface ImportEntry {
+  // Local date (yyyy-MM-dd)
+  date: string;
+  // null for check-in entries and streak freezes
+  areaKey: string | null;
+  content: string | null;
+  value: number | null;
+  skipped: boolean;
+  // Streak freeze (areaKey is null)
+  frozen: boolean;
+}
+
+// Validated user settings from an import file (undefined: keep current)
+export interface ImportSettings {
+  language?: string;
+  timezone?: string;
+  digestTimes?: string[];
+  progressReminderTime?: string | null;
+  streakWarningTime?: string | null;
+  weeklyReviewDay?: number;
+  weeklyReviewTime?: string | null;
+  retrospectiveReports?: boolean;
+  restDays?: number[];
+  summaryDelivery?: SummaryDelivery;
+  summaryTemplate?: string;
+}
+
+// Validated contents of an import file
+export interface ImportData {
+  format: 'json' | 'csv';
+  areas: ImportArea[];
+  entries: ImportEntry[];
+  // Settings from a JSON export (null for CSV)
+  settings: ImportSettings | null;
+  // Rows that failed validation (1-based row numbers)
+  errors: { row: number; message: string }[];
+}
+
+// Dry-run result of an import: what would change
+export interface ImportPreview {
+  areasMatched: number;
+  areasCreated: number;
+  // New areas that will be archived because of the active areas limit
+  areasArchived: number;
+  entriesCreated: number;
+  // Existing entries (same area and date) that will be overwritten
+  entriesOverwritten: number;
+  // Areas matching an existing one with a different unit, and their
+  // entries, which are skipped
+  areasUnitMismatch: number;
+  entriesSkipped: number;
+  checkIns: number;
+  freezes: number;
+  // Whether user settings are restored from the file
+  settingsRestored: boolean;
+}
+
+// Inclusive range of calendar days (start of day in the user's timezone)
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+// Named /summary periods besides "last N days"
+export type SummaryPreset =
+  | 'all'
+  | 'this_month'
+  | 'last_month'
+  | 'this_quarter';
+
+// How the /summary prompt is delivered: inline code blocks, a document,
+// or sent to the configured LLM with the analysis replied in chat
+export type SummaryDelivery = 'inline' | 'md' | 'txt' | 'llm';
+
+export const SUMMARY_DELIVERY_OPTIONS: SummaryDelivery[] = [
+  'inline',
+  'md',
+  'txt',
+  'llm',
+];
+
+// Placeholders available in analysis prompt templates, e.g. {{log}}
+export const PROMPT_TEMPLATE_PLACEHOLDERS = [
+  'areas',
+  'log',
+  'stats',
+  'period',
+] as const;
+
+export type PromptTemplatePlaceholder =
+  (typeof PROMPT_TEMPLATE_PLACEHOLDERS)[number];
+
+// Built-in analysis prompt templates
+export type BuiltInTemplateKey =
+  | 'default'
+  | 'weekly_review'
+  | 'neglected_areas'
+  | 'motivation_coach'
+  | 'okr_check';
+
+// Analysis prompt template resolved for a user (built-in or uploaded)
+export interface ResolvedPromptTemplate {
+  // Built-in key or custom template ID
+  key: string;
+  // Custom template name (null for built-ins, which are named in locales)
+  name: string | null;
+  body: string;
+}
+
+// Weekly review message and the period it covers
+export interface WeeklyReview {
+  text: string;
+  range: DateRange;
+}
+
+// Activity heatmap image (PNG) and what it shows
+export interface Heatmap {
+  image: Buffer;
+  range: DateRange;
+  progressDays: number;
+  checkInDays: number;
+  frozenDays: number;
+}
+
+// Scheduled notification kinds tracked in the notification ledger
+export type NotificationType =
+  | 'digest'
+  | 'reminder'
+  | 'streak_warning'
+  | 'weekly_review'
+  | 'monthly_report'
+  | 'yearly_report';
+
+// Delivery outcome of a scheduled notification
+export type NotificationStatus = 'sent' | 'failed';
+
 // Timezone option for keyboard
 export interface TimezoneOption {
   label: string;